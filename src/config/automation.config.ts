@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Automation rule configuration
+ */
+export const automationConfig = {
+  // How often stop commands of timed actions are checked
+  stopCheckIntervalMs: parseInt(process.env.AUTOMATION_STOP_CHECK_INTERVAL_MS || '15000', 10),
+  // Every evaluation is logged, so the log is purged after this many days
+  evaluationRetentionDays: parseInt(process.env.AUTOMATION_EVALUATION_RETENTION_DAYS || '7', 10),
+  // How often the evaluation log is purged
+  purgeIntervalMs: parseInt(process.env.AUTOMATION_PURGE_INTERVAL_MS || '3600000', 10)
+};
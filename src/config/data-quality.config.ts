@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Stale data and sensor-fault detection configuration
+ */
+export const dataQualityConfig = {
+  // How often fields are checked for a no-data timeout
+  staleCheckIntervalMs: parseInt(process.env.DATA_QUALITY_STALE_CHECK_INTERVAL_MS || '30000', 10)
+};
@@ -4,6 +4,26 @@ import { User } from '../entity/user.entity';
 import { Device } from '../entity/device.entity';
 import { Zone } from '../entity/zone.entity';
 import { Topic } from '../entity/topic.entity';
+import { Command } from '../entity/command.entity';
+import { DeviceModel } from '../entity/device-model.entity';
+import { Reading } from '../entity/reading.entity';
+import { ReadingRollup } from '../entity/reading-rollup.entity';
+import { RetentionPolicy } from '../entity/retention-policy.entity';
+import { AlertRule } from '../entity/alert-rule.entity';
+import { Alert } from '../entity/alert.entity';
+import { AlertEvent } from '../entity/alert-event.entity';
+import { DataQualityRule } from '../entity/data-quality-rule.entity';
+import { DataQualityEvent } from '../entity/data-quality-event.entity';
+import { NotificationPreference } from '../entity/notification-preference.entity';
+import { Notification } from '../entity/notification.entity';
+import { NotificationDelivery } from '../entity/notification-delivery.entity';
+import { Program } from '../entity/program.entity';
+import { ProgramRun } from '../entity/program-run.entity';
+import { AutomationRule } from '../entity/automation-rule.entity';
+import { AutomationEvaluation } from '../entity/automation-evaluation.entity';
+import { AutomationStop } from '../entity/automation-stop.entity';
+import { ZoneControlEvent } from '../entity/zone-control-event.entity';
+import { DeviceShadow } from '../entity/device-shadow.entity';
 
 // Load environment variables
 dotenv.config();
@@ -21,7 +41,10 @@ export const AppDataSource = new DataSource({
     database: process.env.DB_USER,
     synchronize: false, // Set to true to apply schema changes    
     logging: false,
-    entities: [User, Device, Zone, Topic]
+    entities: [User, Device, Zone, Topic, Command, DeviceModel, Reading, ReadingRollup, RetentionPolicy, AlertRule, Alert, AlertEvent, DataQualityRule, DataQualityEvent,
+        NotificationPreference, Notification, NotificationDelivery, Program, ProgramRun,
+        AutomationRule, AutomationEvaluation, AutomationStop, ZoneControlEvent, DeviceShadow],
+    migrations: [__dirname + '/../migration/*.{ts,js}']
 });
 
 export const initializeDatabase = async (): Promise<void> => {
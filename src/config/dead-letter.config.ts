@@ -0,0 +1,13 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config();
+
+/**
+ * Dead-letter store configuration
+ * Dead letters are kept as files so they survive the database being unavailable
+ */
+export const deadLetterConfig = {
+  // Directory holding one JSON file per dead letter
+  directory: path.resolve(process.env.DEAD_LETTER_DIR || 'data/dead-letters')
+};
@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Bulk telemetry import configuration
+ */
+export const importConfig = {
+  // Largest accepted upload
+  maxFileSizeBytes: parseInt(process.env.IMPORT_MAX_FILE_SIZE_MB || '20', 10) * 1024 * 1024,
+
+  // Highest number of channels of a field, larger channel indexes are rejected before any row is read
+  maxChannels: parseInt(process.env.IMPORT_MAX_CHANNELS || '256', 10),
+
+  // Invalid rows listed in the import report, the rest are only counted
+  maxReportedErrors: parseInt(process.env.IMPORT_MAX_REPORTED_ERRORS || '100', 10)
+};
@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type IngestionDropPolicy = 'drop-oldest' | 'drop-newest';
+
+/**
+ * Telemetry ingestion pipeline configuration
+ */
+export const ingestionConfig = {
+  // Maximum number of messages written in one transaction
+  batchSize: parseInt(process.env.INGEST_BATCH_SIZE || '200', 10),
+
+  // How often buffered messages are flushed to the database
+  flushIntervalMs: parseInt(process.env.INGEST_FLUSH_INTERVAL_MS || '1000', 10),
+
+  // Messages buffered before the drop policy applies
+  maxQueueSize: parseInt(process.env.INGEST_MAX_QUEUE_SIZE || '10000', 10),
+
+  // Which messages to discard once the buffer is full
+  dropPolicy: (process.env.INGEST_DROP_POLICY || 'drop-oldest') as IngestionDropPolicy,
+
+  // Write attempts per message before it is given up
+  maxAttempts: parseInt(process.env.INGEST_MAX_ATTEMPTS || '3', 10)
+};
@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import { assertValidTemplate } from '../utils/topic-template.util';
+
+dotenv.config();
+
+/**
+ * MQTT topic naming configuration
+ *
+ * Templates use {deviceNumber} and {zoneName} placeholders, e.g. farm/{deviceNumber}/{zoneName}/telemetry.
+ * The default keeps the legacy format where both values are concatenated (00009zone1).
+ */
+export const mqttConfig = {
+  // Template used to build and parse telemetry topics
+  topicTemplate: process.env.MQTT_TOPIC_TEMPLATE || '{deviceNumber}{zoneName}',
+
+  // Subscribe with a single wildcard filter instead of one subscription per device-zone pair.
+  // Only honoured when every placeholder occupies a whole topic level.
+  useWildcardSubscriptions: process.env.MQTT_WILDCARD_SUBSCRIPTIONS === 'true',
+
+  // Template of the topic commands are published to
+  commandTopicTemplate: process.env.MQTT_COMMAND_TOPIC_TEMPLATE || '{deviceNumber}{zoneName}/command',
+
+  // Template of the topic devices publish command acknowledgements to
+  responseTopicTemplate: process.env.MQTT_RESPONSE_TOPIC_TEMPLATE || '{deviceNumber}{zoneName}/response',
+
+  // Time a command may stay pending before it is marked as timed out
+  commandTimeoutMs: parseInt(process.env.MQTT_COMMAND_TIMEOUT_MS || '30000', 10),
+
+  // Template of the topic devices publish their status and Last Will to (only {deviceNumber} applies)
+  statusTopicTemplate: process.env.MQTT_STATUS_TOPIC_TEMPLATE || '{deviceNumber}/status',
+
+  // Silence after which a device or zone is considered offline
+  offlineTimeoutMs: parseInt(process.env.DEVICE_OFFLINE_TIMEOUT_MS || '120000', 10),
+
+  // How often silent devices and zones are checked
+  presenceCheckIntervalMs: parseInt(process.env.PRESENCE_CHECK_INTERVAL_MS || '15000', 10)
+};
+
+/**
+ * Check the topic templates, should be called on startup before anything is subscribed
+ * @throws Error if a template would map different device-zone pairs onto the same topic
+ */
+export const validateMqttConfig = (): void => {
+  assertValidTemplate('MQTT_TOPIC_TEMPLATE', mqttConfig.topicTemplate, ['deviceNumber', 'zoneName']);
+  assertValidTemplate('MQTT_COMMAND_TOPIC_TEMPLATE', mqttConfig.commandTopicTemplate, ['deviceNumber', 'zoneName']);
+  assertValidTemplate('MQTT_RESPONSE_TOPIC_TEMPLATE', mqttConfig.responseTopicTemplate, ['deviceNumber', 'zoneName']);
+  assertValidTemplate('MQTT_STATUS_TOPIC_TEMPLATE', mqttConfig.statusTopicTemplate, ['deviceNumber']);
+};
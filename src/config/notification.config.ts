@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Split a comma-separated host list
+ */
+const parseHosts = (value: string | undefined): string[] => 
+  (value || '').split(',').map((host: string) => host.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Outbound notification configuration
+ * Point SMTP_HOST/SMTP_PORT at a local SMTP catcher (e.g. localhost:1025) to test email delivery
+ */
+export const notificationConfig = {
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || 'notifications@localhost'
+  },
+
+  // How long a webhook receiver may take to answer
+  webhookTimeoutMs: parseInt(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS || '10000', 10),
+
+  // Comma-separated webhook hosts, subdomains included; when set, webhooks to other hosts are rejected
+  webhookAllowedHosts: parseHosts(process.env.NOTIFICATION_WEBHOOK_ALLOWED_HOSTS),
+  // Comma-separated webhook hosts that are always rejected, subdomains included
+  webhookDeniedHosts: parseHosts(process.env.NOTIFICATION_WEBHOOK_DENIED_HOSTS),
+  // Webhooks to private, link-local and other internal addresses are always rejected,
+  // loopback only unless enabled, e.g. for a local receiver during development
+  webhookAllowLoopback: process.env.NOTIFICATION_WEBHOOK_ALLOW_LOOPBACK === 'true',
+
+  // Deliveries are retried with exponential backoff until they used up their attempts
+  maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10),
+  retryBaseDelayMs: parseInt(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS || '30000', 10),
+  retryMaxDelayMs: parseInt(process.env.NOTIFICATION_RETRY_MAX_DELAY_MS || '3600000', 10),
+
+  // How often due deliveries are sent
+  dispatchIntervalMs: parseInt(process.env.NOTIFICATION_DISPATCH_INTERVAL_MS || '15000', 10)
+};
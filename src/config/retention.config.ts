@@ -0,0 +1,14 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Data retention job configuration
+ */
+export const retentionConfig = {
+  // Set RETENTION_ENABLED=false to only run retention from the admin endpoints
+  enabled: process.env.RETENTION_ENABLED !== 'false',
+
+  // How often the retention job runs
+  intervalMs: parseInt(process.env.RETENTION_INTERVAL_MS || '3600000', 10)
+};
@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Scheduled program configuration
+ */
+export const scheduleConfig = {
+  // How often due programs and timed stops are checked
+  tickIntervalMs: parseInt(process.env.SCHEDULE_TICK_INTERVAL_MS || '15000', 10),
+  // Runs due longer ago than this (e.g. while the service was down) are skipped instead of started late
+  misfireGraceMs: parseInt(process.env.SCHEDULE_MISFIRE_GRACE_MS || '300000', 10),
+  // Most upcoming runs listed per request
+  maxUpcomingRuns: parseInt(process.env.SCHEDULE_MAX_UPCOMING_RUNS || '100', 10)
+};
@@ -0,0 +1,19 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Device shadow configuration
+ */
+export const shadowConfig = {
+  // Fields reported into the shadow even without a desired value, the m55x setpoint registers by default
+  reportedFieldPattern: process.env.SHADOW_REPORTED_FIELD_PATTERN || '^m55\\d$',
+  // Name of the command the delta is published with
+  deltaCommand: process.env.SHADOW_DELTA_COMMAND || 'shadow-delta',
+  // How often unconfirmed deltas are checked
+  checkIntervalMs: parseInt(process.env.SHADOW_CHECK_INTERVAL_MS || '15000', 10),
+  // A delta not confirmed by telemetry within this time is sent again
+  resendIntervalMs: parseInt(process.env.SHADOW_RESEND_INTERVAL_MS || '60000', 10),
+  // Sends of one delta before the shadow counts as diverged
+  maxAttempts: parseInt(process.env.SHADOW_MAX_ATTEMPTS || '5', 10)
+};
@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Manual override and lockout configuration
+ */
+export const zoneControlConfig = {
+  // Expiry of an override set without one
+  defaultOverrideMinutes: parseInt(process.env.ZONE_CONTROL_DEFAULT_OVERRIDE_MINUTES || '240', 10),
+  // Longest an override may be held before it has to be renewed
+  maxOverrideMinutes: parseInt(process.env.ZONE_CONTROL_MAX_OVERRIDE_MINUTES || '1440', 10),
+  // How often overrides are checked for expiry
+  expiryCheckIntervalMs: parseInt(process.env.ZONE_CONTROL_EXPIRY_CHECK_INTERVAL_MS || '30000', 10)
+};
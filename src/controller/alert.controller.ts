@@ -0,0 +1,376 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { AlertService } from '../service/alert.service';
+import { acknowledgeAlertRequest, commentAlertRequest, createAlertRuleRequest, shelveAlertRequest, unshelveAlertRequest, updateAlertRuleRequest } from '../dto/request/alert.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { AlertRule } from '../entity/alert-rule.entity';
+import { Alert, AlertStatus } from '../entity/alert.entity';
+
+const ALERT_STATUSES: string[] = Object.values(AlertStatus);
+
+export class AlertController {
+    private alertService: AlertService;
+
+    constructor() {
+        this.alertService = new AlertService();
+    }
+
+    /**
+     * Create a threshold alert rule on a zone
+     * @param req Request
+     * @param res Response
+     */
+    async createRule(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ruleRequest: createAlertRuleRequest = plainToInstance(createAlertRuleRequest, req.body);
+            const errors: ValidationError[] = await validate(ruleRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: AlertRule = await this.alertService.createRule(ruleRequest, userId);
+
+            res.status(201).json(ApiResponse.success(rule, 'Alert rule created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to create alert rule', errorMessage));
+        }
+    }
+
+    /**
+     * Get the alert rules of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getRules(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const rules: AlertRule[] = await this.alertService.getRules(deviceId, userId, zoneId);
+
+            res.status(200).json(ApiResponse.success(rules, 'Alert rules fetched successfully', rules.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch alert rules', errorMessage));
+        }
+    }
+
+    /**
+     * Update an alert rule
+     * @param req Request
+     * @param res Response
+     */
+    async updateRule(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ruleRequest: updateAlertRuleRequest = plainToInstance(updateAlertRuleRequest, req.body);
+            const errors: ValidationError[] = await validate(ruleRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: AlertRule = await this.alertService.updateRule(req.params.id, ruleRequest, userId);
+
+            res.status(200).json(ApiResponse.success(rule, 'Alert rule updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update alert rule', errorMessage));
+        }
+    }
+
+    /**
+     * Delete an alert rule
+     * @param req Request
+     * @param res Response
+     */
+    async deleteRule(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.alertService.deleteRule(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Alert rule deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete alert rule', errorMessage));
+        }
+    }
+
+    /**
+     * Get the alarm history of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getAlerts(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const ruleId: string | undefined = req.query.ruleId as string | undefined;
+            const severity: string | undefined = req.query.severity as string | undefined;
+            const statuses: string[] | undefined = req.query.status
+                ? (req.query.status as string).split(',').map((status: string) => status.trim())
+                : undefined;
+            const from: Date | undefined = req.query.from ? new Date(req.query.from as string) : undefined;
+            const to: Date | undefined = req.query.to ? new Date(req.query.to as string) : undefined;
+            const limit: number = parseInt(req.query.limit as string) || 100;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            if (statuses?.some((status: string) => !ALERT_STATUSES.includes(status))) {
+                res.status(400).json(ApiResponse.error('Validation failed', `status must be one of ${ALERT_STATUSES.join(', ')}`));
+                return;
+            }
+
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'from and to must be valid dates'));
+                return;
+            }
+
+            const alerts: Alert[] = await this.alertService.getAlerts(
+                { deviceId, zoneId, ruleId, statuses, severity, from, to, limit },
+                userId
+            );
+
+            res.status(200).json(ApiResponse.success(alerts, 'Alerts fetched successfully', alerts.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch alerts', errorMessage));
+        }
+    }
+
+    /**
+     * Get an alert with its acknowledgements, shelves and comments
+     * @param req Request
+     * @param res Response
+     */
+    async getAlert(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const alert: Alert = await this.alertService.getAlertById(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(alert, 'Alert fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch alert', errorMessage));
+        }
+    }
+
+    /**
+     * Acknowledge an alarm
+     * @param req Request
+     * @param res Response
+     */
+    async acknowledgeAlert(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ackRequest: acknowledgeAlertRequest = plainToInstance(acknowledgeAlertRequest, req.body ?? {});
+            const errors: ValidationError[] = await validate(ackRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const alert: Alert = await this.alertService.acknowledgeAlert(req.params.id, userId, ackRequest.comment);
+
+            res.status(200).json(ApiResponse.success(alert, 'Alarm acknowledged successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Alarm is') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to acknowledge alarm', errorMessage));
+        }
+    }
+
+    /**
+     * Shelve an alarm until a given time
+     * @param req Request
+     * @param res Response
+     */
+    async shelveAlert(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const shelveRequest: shelveAlertRequest = plainToInstance(shelveAlertRequest, req.body);
+            const errors: ValidationError[] = await validate(shelveRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const until: Date = new Date(shelveRequest.until);
+            if (until.getTime() <= Date.now()) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'until must be in the future'));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const alert: Alert = await this.alertService.shelveAlert(req.params.id, userId, until, shelveRequest.comment);
+
+            res.status(200).json(ApiResponse.success(alert, 'Alarm shelved successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Alarm is') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to shelve alarm', errorMessage));
+        }
+    }
+
+    /**
+     * Return a shelved alarm before its shelve time passed
+     * @param req Request
+     * @param res Response
+     */
+    async unshelveAlert(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const unshelveRequest: unshelveAlertRequest = plainToInstance(unshelveAlertRequest, req.body ?? {});
+            const errors: ValidationError[] = await validate(unshelveRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const alert: Alert = await this.alertService.unshelveAlert(req.params.id, userId, unshelveRequest.comment);
+
+            res.status(200).json(ApiResponse.success(alert, 'Alarm unshelved successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Alarm is') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to unshelve alarm', errorMessage));
+        }
+    }
+
+    /**
+     * Comment on an alarm
+     * @param req Request
+     * @param res Response
+     */
+    async commentAlert(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const commentRequest: commentAlertRequest = plainToInstance(commentAlertRequest, req.body);
+            const errors: ValidationError[] = await validate(commentRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const alert: Alert = await this.alertService.commentAlert(req.params.id, userId, commentRequest.comment);
+
+            res.status(201).json(ApiResponse.success(alert, 'Comment added successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to comment on alarm', errorMessage));
+        }
+    }
+}
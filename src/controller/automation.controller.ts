@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { AutomationService } from '../service/automation.service';
+import { createAutomationRuleRequest, updateAutomationRuleRequest } from '../dto/request/automation.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { AutomationRule } from '../entity/automation-rule.entity';
+import { AutomationEvaluation } from '../entity/automation-evaluation.entity';
+import { AutomationOutcome } from '../interface/automation.interface';
+
+const AUTOMATION_OUTCOMES: AutomationOutcome[] = ['not_met', 'pending', 'still_met', 'cooldown', 'capped', 'zone_deleted', 'overridden', 'fired', 'failed'];
+
+export class AutomationController {
+    private automationService: AutomationService;
+
+    constructor() {
+        this.automationService = new AutomationService();
+    }
+
+    /**
+     * Create an automation rule on the zones of a device
+     * @param req Request
+     * @param res Response
+     */
+    async createRule(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ruleRequest: createAutomationRuleRequest = plainToInstance(createAutomationRuleRequest, req.body);
+            const errors: ValidationError[] = await validate(ruleRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: AutomationRule = await this.automationService.createRule(ruleRequest, userId);
+
+            res.status(201).json(ApiResponse.success(rule, 'Automation rule created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid automation rule') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to create automation rule', errorMessage));
+        }
+    }
+
+    /**
+     * Get the automation rules of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getRules(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const rules: AutomationRule[] = await this.automationService.getRules(deviceId, userId);
+
+            res.status(200).json(ApiResponse.success(rules, 'Automation rules fetched successfully', rules.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch automation rules', errorMessage));
+        }
+    }
+
+    /**
+     * Get a single automation rule
+     * @param req Request
+     * @param res Response
+     */
+    async getRule(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: AutomationRule = await this.automationService.getRuleById(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(rule, 'Automation rule fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch automation rule', errorMessage));
+        }
+    }
+
+    /**
+     * Update an automation rule
+     * @param req Request
+     * @param res Response
+     */
+    async updateRule(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ruleRequest: updateAutomationRuleRequest = plainToInstance(updateAutomationRuleRequest, req.body);
+            const errors: ValidationError[] = await validate(ruleRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: AutomationRule = await this.automationService.updateRule(req.params.id, ruleRequest, userId);
+
+            res.status(200).json(ApiResponse.success(rule, 'Automation rule updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid automation rule') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update automation rule', errorMessage));
+        }
+    }
+
+    /**
+     * Delete an automation rule, sending its pending stop commands
+     * @param req Request
+     * @param res Response
+     */
+    async deleteRule(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.automationService.deleteRule(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Automation rule deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete automation rule', errorMessage));
+        }
+    }
+
+    /**
+     * Get the evaluation log of the automation rules of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getEvaluations(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const ruleId: string | undefined = req.query.ruleId as string | undefined;
+            const outcome: string | undefined = req.query.outcome as string | undefined;
+            const from: Date | undefined = req.query.from ? new Date(req.query.from as string) : undefined;
+            const to: Date | undefined = req.query.to ? new Date(req.query.to as string) : undefined;
+            const limit: number = parseInt(req.query.limit as string) || 100;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            if (outcome && !(AUTOMATION_OUTCOMES as string[]).includes(outcome)) {
+                res.status(400).json(ApiResponse.error('Validation failed', `outcome must be one of ${AUTOMATION_OUTCOMES.join(', ')}`));
+                return;
+            }
+
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'from and to must be valid dates'));
+                return;
+            }
+
+            const evaluations: AutomationEvaluation[] = await this.automationService.getEvaluations(
+                { deviceId, ruleId, outcome, from, to, limit },
+                userId
+            );
+
+            res.status(200).json(ApiResponse.success(evaluations, 'Automation evaluations fetched successfully', evaluations.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch automation evaluations', errorMessage));
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { CommandService } from '../service/command.service';
+import { sendCommandRequest } from '../dto/request/command.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { Command, CommandStatus } from '../entity/command.entity';
+
+export class CommandController {
+    private commandService: CommandService;
+
+    constructor() {
+        this.commandService = new CommandService();
+    }
+
+    /**
+     * Publish a command to a device zone
+     * @param req Request
+     * @param res Response
+     */
+    async sendCommand(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const commandRequest: sendCommandRequest = plainToInstance(sendCommandRequest, req.body);
+            const errors: ValidationError[] = await validate(commandRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            // Get user ID from authenticated request
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const command: Command = await this.commandService.sendCommand(commandRequest, userId);
+
+            // The command is recorded as failed when the broker did not take it
+            if (command.status === CommandStatus.FAILED) {
+                res.status(502).json(ApiResponse.error('Failed to send command', command.error || 'Command could not be published'));
+                return;
+            }
+
+            res.status(202).json(ApiResponse.success(command, 'Command sent successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Zone is') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to send command', errorMessage));
+        }
+    }
+
+    /**
+     * Get the commands sent to a device
+     * @param req Request
+     * @param res Response
+     */
+    async getCommands(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const limit: number = parseInt(req.query.limit as string) || 50;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const commands: Command[] = await this.commandService.getCommands(deviceId, userId, zoneId, limit);
+
+            res.status(200).json(ApiResponse.success(commands, 'Commands fetched successfully', commands.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch commands', errorMessage));
+        }
+    }
+
+    /**
+     * Get a command by ID
+     * @param req Request
+     * @param res Response
+     */
+    async getCommand(req: Request, res: Response): Promise<void> {
+        try {
+            const commandId: string = req.params.id;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const command: Command = await this.commandService.getCommandById(commandId, userId);
+
+            res.status(200).json(ApiResponse.success(command, 'Command fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch command', errorMessage));
+        }
+    }
+}
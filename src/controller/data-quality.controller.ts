@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { DataQualityService } from '../service/data-quality.service';
+import { createDataQualityRuleRequest, updateDataQualityRuleRequest } from '../dto/request/data-quality.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { DataQualityRule } from '../entity/data-quality-rule.entity';
+import { DataQualityEvent } from '../entity/data-quality-event.entity';
+import { DataQuality } from '../interface/data-quality.interface';
+
+const DATA_QUALITIES: DataQuality[] = ['good', 'fault', 'out_of_range', 'flatline', 'stale'];
+
+export class DataQualityController {
+    private dataQualityService: DataQualityService;
+
+    constructor() {
+        this.dataQualityService = new DataQualityService();
+    }
+
+    /**
+     * Create a data-quality rule for a field of a device
+     * @param req Request
+     * @param res Response
+     */
+    async createRule(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ruleRequest: createDataQualityRuleRequest = plainToInstance(createDataQualityRuleRequest, req.body);
+            const errors: ValidationError[] = await validate(ruleRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: DataQualityRule = await this.dataQualityService.createRule(ruleRequest, userId);
+
+            res.status(201).json(ApiResponse.success(rule, 'Data-quality rule created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid data-quality rule') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to create data-quality rule', errorMessage));
+        }
+    }
+
+    /**
+     * Get the data-quality rules of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getRules(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const rules: DataQualityRule[] = await this.dataQualityService.getRules(deviceId, userId, zoneId);
+
+            res.status(200).json(ApiResponse.success(rules, 'Data-quality rules fetched successfully', rules.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch data-quality rules', errorMessage));
+        }
+    }
+
+    /**
+     * Update the checks of a data-quality rule
+     * @param req Request
+     * @param res Response
+     */
+    async updateRule(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const ruleRequest: updateDataQualityRuleRequest = plainToInstance(updateDataQualityRuleRequest, req.body);
+            const errors: ValidationError[] = await validate(ruleRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const rule: DataQualityRule = await this.dataQualityService.updateRule(req.params.id, ruleRequest, userId);
+
+            res.status(200).json(ApiResponse.success(rule, 'Data-quality rule updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid data-quality rule') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update data-quality rule', errorMessage));
+        }
+    }
+
+    /**
+     * Delete a data-quality rule
+     * @param req Request
+     * @param res Response
+     */
+    async deleteRule(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.dataQualityService.deleteRule(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Data-quality rule deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete data-quality rule', errorMessage));
+        }
+    }
+
+    /**
+     * Get the data-quality events of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getEvents(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const field: string | undefined = req.query.field as string | undefined;
+            const quality: string | undefined = req.query.quality as string | undefined;
+            const from: Date | undefined = req.query.from ? new Date(req.query.from as string) : undefined;
+            const to: Date | undefined = req.query.to ? new Date(req.query.to as string) : undefined;
+            const limit: number = parseInt(req.query.limit as string) || 100;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            if (quality && !(DATA_QUALITIES as string[]).includes(quality)) {
+                res.status(400).json(ApiResponse.error('Validation failed', `quality must be one of ${DATA_QUALITIES.join(', ')}`));
+                return;
+            }
+
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'from and to must be valid dates'));
+                return;
+            }
+
+            const events: DataQualityEvent[] = await this.dataQualityService.getEvents(
+                { deviceId, zoneId, field, quality, from, to, limit },
+                userId
+            );
+
+            res.status(200).json(ApiResponse.success(events, 'Data-quality events fetched successfully', events.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch data-quality events', errorMessage));
+        }
+    }
+}
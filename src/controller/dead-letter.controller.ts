@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { deadLetterService } from '../service/dead-letter.service';
+import { mqttService } from '../service/mqtt.service';
+import { ApiResponse } from '../dto/response/api.response';
+import { DeadLetter, DeadLetterFilter, DeadLetterReason } from '../interface/dead-letter.interface';
+
+export class DeadLetterController {
+    /**
+     * List dead letters
+     * @param req Request with optional reason, topic, before and limit query parameters
+     * @param res Response
+     */
+    async getDeadLetters(req: Request, res: Response): Promise<void> {
+        try {
+            const filter: DeadLetterFilter = this.parseFilter(req);
+            filter.limit = parseInt(req.query.limit as string) || 100;
+
+            const deadLetters: DeadLetter[] = await deadLetterService.list(filter);
+
+            res.status(200).json(ApiResponse.success(deadLetters, 'Dead letters fetched successfully', deadLetters.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch dead letters', errorMessage));
+        }
+    }
+
+    /**
+     * Get a single dead letter
+     * @param req Request
+     * @param res Response
+     */
+    async getDeadLetter(req: Request, res: Response): Promise<void> {
+        try {
+            const deadLetter: DeadLetter = await deadLetterService.get(req.params.id);
+
+            res.status(200).json(ApiResponse.success(deadLetter, 'Dead letter fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch dead letter', errorMessage));
+        }
+    }
+
+    /**
+     * Re-process a single dead letter
+     * @param req Request
+     * @param res Response
+     */
+    async replayDeadLetter(req: Request, res: Response): Promise<void> {
+        try {
+            await mqttService.replayDeadLetter(req.params.id);
+
+            res.status(200).json(ApiResponse.success({ id: req.params.id }, 'Dead letter replayed successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 422;
+            res.status(statusCode).json(ApiResponse.error('Failed to replay dead letter', errorMessage));
+        }
+    }
+
+    /**
+     * Re-process every dead letter matching the filter
+     * @param req Request with optional reason, topic and before query parameters
+     * @param res Response
+     */
+    async replayDeadLetters(req: Request, res: Response): Promise<void> {
+        try {
+            const deadLetters: DeadLetter[] = await deadLetterService.list(this.parseFilter(req));
+            const failed: { id: string, error: string }[] = [];
+
+            for (const deadLetter of deadLetters) {
+                try {
+                    await mqttService.replayDeadLetter(deadLetter.id);
+                } catch (error: any) {
+                    failed.push({ id: deadLetter.id, error: error.message || String(error) });
+                }
+            }
+
+            res.status(200).json(ApiResponse.success({
+                replayed: deadLetters.length - failed.length,
+                failed
+            }, 'Dead letters replayed', deadLetters.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to replay dead letters', errorMessage));
+        }
+    }
+
+    /**
+     * Delete a single dead letter
+     * @param req Request
+     * @param res Response
+     */
+    async deleteDeadLetter(req: Request, res: Response): Promise<void> {
+        try {
+            await deadLetterService.remove(req.params.id);
+
+            res.status(200).json(ApiResponse.success({ id: req.params.id }, 'Dead letter deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to delete dead letter', errorMessage));
+        }
+    }
+
+    /**
+     * Delete every dead letter matching the filter
+     * @param req Request with optional reason, topic and before query parameters
+     * @param res Response
+     */
+    async purgeDeadLetters(req: Request, res: Response): Promise<void> {
+        try {
+            const purged: number = await deadLetterService.purge(this.parseFilter(req));
+
+            res.status(200).json(ApiResponse.success({ purged }, 'Dead letters purged successfully', purged));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to purge dead letters', errorMessage));
+        }
+    }
+
+    private parseFilter(req: Request): DeadLetterFilter {
+        const before: Date | undefined = req.query.before ? new Date(req.query.before as string) : undefined;
+
+        return {
+            reason: req.query.reason as DeadLetterReason | undefined,
+            topic: req.query.topic as string | undefined,
+            before: before && !isNaN(before.getTime()) ? before : undefined
+        };
+    }
+}
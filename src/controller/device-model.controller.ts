@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { DeviceModelService } from '../service/device-model.service';
+import { createDeviceModelRequest, updateDeviceModelRequest } from '../dto/request/device-model.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { DeviceModel } from '../entity/device-model.entity';
+
+export class DeviceModelController {
+    private deviceModelService: DeviceModelService;
+
+    constructor() {
+        this.deviceModelService = new DeviceModelService();
+    }
+
+    /**
+     * Create a new device model
+     * @param req Request
+     * @param res Response
+     */
+    async createModel(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const modelRequest: createDeviceModelRequest = plainToInstance(createDeviceModelRequest, req.body);
+            const errors: ValidationError[] = await validate(modelRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const model: DeviceModel = await this.deviceModelService.createModel(modelRequest);
+
+            res.status(201).json(ApiResponse.success(model, 'Device model created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('Invalid register map') ? 400 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to create device model', errorMessage));
+        }
+    }
+
+    /**
+     * Update a device model
+     * @param req Request
+     * @param res Response
+     */
+    async updateModel(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const modelRequest: updateDeviceModelRequest = plainToInstance(updateDeviceModelRequest, req.body);
+            const errors: ValidationError[] = await validate(modelRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const model: DeviceModel = await this.deviceModelService.updateModel(req.params.id, modelRequest);
+
+            res.status(200).json(ApiResponse.success(model, 'Device model updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Invalid register map') ? 400 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to update device model', errorMessage));
+        }
+    }
+
+    /**
+     * Delete a device model
+     * @param req Request
+     * @param res Response
+     */
+    async deleteModel(req: Request, res: Response): Promise<void> {
+        try {
+            await this.deviceModelService.deleteModel(req.params.id);
+
+            res.status(200).json(ApiResponse.success({ id: req.params.id }, 'Device model deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to delete device model', errorMessage));
+        }
+    }
+
+    /**
+     * Get a device model by ID
+     * @param req Request
+     * @param res Response
+     */
+    async getModel(req: Request, res: Response): Promise<void> {
+        try {
+            const model: DeviceModel = await this.deviceModelService.getModelById(req.params.id);
+
+            res.status(200).json(ApiResponse.success(model, 'Device model fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch device model', errorMessage));
+        }
+    }
+
+    /**
+     * Get all device models
+     * @param req Request
+     * @param res Response
+     */
+    async getAllModels(req: Request, res: Response): Promise<void> {
+        try {
+            const models: DeviceModel[] = await this.deviceModelService.getAllModels();
+
+            res.status(200).json(ApiResponse.success(models, 'Device models fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch device models', errorMessage));
+        }
+    }
+}
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { DeviceService } from '../service/device.service';
-import { createDeviceRequest } from '../dto/request/device.request';
-import { plainToInstance } from 'class-transformer';
+import { assignDeviceModelRequest, createDeviceRequest, patchDeviceRequest, updateDeviceRequest } from '../dto/request/device.request';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
 import { validate, ValidationError } from 'class-validator';
 import { ApiResponse } from '../dto/response/api.response';
 import { Device } from '../entity/device.entity';
@@ -96,4 +96,168 @@ export class DeviceController {
             res.status(500).json(ApiResponse.error('Failed to fetch devices', errorMessage));
         }
     }
+
+    /**
+     * Assign a device model to a device
+     * @param req Request
+     * @param res Response
+     */
+    async assignModel(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const modelRequest: assignDeviceModelRequest = plainToInstance(assignDeviceModelRequest, req.body);
+            const errors: ValidationError[] = await validate(modelRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const device: Device = await this.deviceService.assignModel(req.params.id, modelRequest, userId);
+
+            res.status(200).json(ApiResponse.success(device, 'Device model assigned successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to assign device model', errorMessage));
+        }
+    }
+
+    /**
+     * Replace the number and name of a device
+     * @param req Request
+     * @param res Response
+     */
+    async updateDevice(req: Request, res: Response): Promise<void> {
+        await this.applyUpdate(req, res, updateDeviceRequest);
+    }
+
+    /**
+     * Change the number or name of a device, missing fields are kept
+     * @param req Request
+     * @param res Response
+     */
+    async patchDevice(req: Request, res: Response): Promise<void> {
+        await this.applyUpdate(req, res, patchDeviceRequest);
+    }
+
+    /**
+     * Soft-delete a device and its zones
+     * @param req Request
+     * @param res Response
+     */
+    async deleteDevice(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.deviceService.deleteDevice(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Device deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete device', errorMessage));
+        }
+    }
+
+    /**
+     * Restore a soft-deleted device and the zones deleted with it
+     * @param req Request
+     * @param res Response
+     */
+    async restoreDevice(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const device: Device = await this.deviceService.restoreDevice(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(device, 'Device restored successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Device is') || errorMessage.includes('already in use') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to restore device', errorMessage));
+        }
+    }
+
+    /**
+     * Get the soft-deleted devices of the authenticated user
+     * @param req Request
+     * @param res Response
+     */
+    async getDeletedDevices(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const devices: Device[] = await this.deviceService.getDeletedDevices(userId);
+
+            res.status(200).json(ApiResponse.success(devices, 'Deleted devices fetched successfully', devices.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch deleted devices', errorMessage));
+        }
+    }
+
+    /**
+     * Validate an update request with the given DTO and apply it
+     * PUT and PATCH only differ in which fields are required
+     */
+    private async applyUpdate(req: Request, res: Response, requestClass: ClassConstructor<patchDeviceRequest>): Promise<void> {
+        try {
+            // Validate request body
+            const deviceRequest: patchDeviceRequest = plainToInstance(requestClass, req.body);
+            const errors: ValidationError[] = await validate(deviceRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const device: Device = await this.deviceService.updateDevice(req.params.id, deviceRequest, userId);
+
+            res.status(200).json(ApiResponse.success(device, 'Device updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('already in use') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update device', errorMessage));
+        }
+    }
 }
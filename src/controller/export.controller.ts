@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { exportService, ExportTarget } from '../service/export.service';
+import { ApiResponse } from '../dto/response/api.response';
+import { ExportFormat, ExportQuery } from '../interface/export.interface';
+
+const EXPORT_CONTENT_TYPES: { [format in ExportFormat]: string } = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export class ExportController {
+    /**
+     * Stream processed readings of a device, zone or topic as a file
+     * Query: deviceId (with optional zoneId) or topic, from and to (ISO dates) and format (csv, ndjson or xlsx, csv by default)
+     * @param req Request
+     * @param res Response
+     */
+    async exportReadings(req: Request, res: Response): Promise<void> {
+        const format: string = (req.query.format as string) || 'csv';
+        const userId: string | undefined = req.userId;
+
+        if (!userId) {
+            res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+            return;
+        }
+
+        if (!Object.keys(EXPORT_CONTENT_TYPES).includes(format)) {
+            res.status(400).json(ApiResponse.error('Invalid format', `format must be one of ${Object.keys(EXPORT_CONTENT_TYPES).join(', ')}`));
+            return;
+        }
+
+        const query: ExportQuery = {
+            deviceId: req.query.deviceId as string | undefined,
+            zoneId: req.query.zoneId as string | undefined,
+            topic: req.query.topic as string | undefined,
+            from: new Date(req.query.from as string),
+            to: new Date(req.query.to as string)
+        };
+
+        if (isNaN(query.from.getTime()) || isNaN(query.to.getTime()) || query.from > query.to) {
+            res.status(400).json(ApiResponse.error('Invalid time range', 'from and to are required dates with from before to'));
+            return;
+        }
+
+        let targets: ExportTarget[];
+        try {
+            targets = await exportService.resolveTargets(query, userId);
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('required') ? 400 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to export readings', errorMessage));
+            return;
+        }
+
+        const name: string = query.topic || query.zoneId || query.deviceId || 'readings';
+        const fileName: string = `${name}-${query.from.toISOString()}-${query.to.toISOString()}`.replace(/[^\w.-]+/g, '_');
+        res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format as ExportFormat]);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+
+        try {
+            await exportService.writeExport(targets, query, format as ExportFormat, res);
+        } catch (error: any) {
+            // Headers are gone, all that is left is to cut the download short
+            console.error(`Failed to export readings of ${name}:`, error);
+            res.destroy(error);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import multer from 'multer';
+import { importConfig } from '../config/import.config';
+import { importService } from '../service/import.service';
+import { ApiResponse } from '../dto/response/api.response';
+import { ImportFormat, ImportReport } from '../interface/import.interface';
+
+const IMPORT_FORMATS: ImportFormat[] = ['csv', 'ndjson'];
+
+export class ImportController {
+    private readonly upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: importConfig.maxFileSizeBytes, files: 1 }
+    }).single('file');
+
+    /**
+     * Import historical telemetry from an uploaded file
+     * Multipart form: file, deviceId, zoneId and optional format (csv or ndjson, taken from the file name by default)
+     * @param req Request
+     * @param res Response
+     */
+    async importReadings(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            try {
+                await new Promise<void>((resolve, reject) => this.upload(req, res, error => error ? reject(error) : resolve()));
+            } catch (error: any) {
+                const statusCode: number = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+                res.status(statusCode).json(ApiResponse.error('Upload failed', error.message || String(error)));
+                return;
+            }
+
+            const deviceId: string | undefined = req.body?.deviceId;
+            const zoneId: string | undefined = req.body?.zoneId;
+            const file: Express.Multer.File | undefined = req.file;
+
+            if (!file || !deviceId || !zoneId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'file, deviceId and zoneId are required'));
+                return;
+            }
+
+            const extension: string = file.originalname.split('.').pop()?.toLowerCase() || '';
+            const format: string = req.body.format || (extension === 'jsonl' ? 'ndjson' : extension);
+
+            if (!IMPORT_FORMATS.includes(format as ImportFormat)) {
+                res.status(400).json(ApiResponse.error('Invalid format', `format must be one of ${IMPORT_FORMATS.join(', ')}`));
+                return;
+            }
+
+            const report: ImportReport = await importService.importReadings(
+                deviceId, 
+                zoneId, 
+                format as ImportFormat, 
+                file.buffer, 
+                userId
+            );
+
+            res.status(200).json(ApiResponse.success(report, `Imported ${report.imported} of ${report.rows} rows`));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid import') ? 422 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to import readings', errorMessage));
+        }
+    }
+}
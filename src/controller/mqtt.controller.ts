@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { mqttService } from '../service/mqtt.service';
+import { ApiResponse } from '../dto/response/api.response';
+import { TopicSubscriptionEntry } from '../interface/mqtt.interface';
+import { ingestionService } from '../service/ingestion.service';
+
+export class MqttController {
+    /**
+     * Get the topics the MQTT service is currently subscribed to
+     * @param req Request
+     * @param res Response
+     */
+    async getSubscriptions(req: Request, res: Response): Promise<void> {
+        try {
+            const subscriptions: TopicSubscriptionEntry[] = mqttService.getSubscriptions();
+
+            res.status(200).json(ApiResponse.success({
+                connected: mqttService.isConnectedToBroker(),
+                filter: mqttService.getSubscriptionFilter(),
+                subscriptions
+            }, 'Subscriptions fetched successfully', subscriptions.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch subscriptions', errorMessage));
+        }
+    }
+
+    /**
+     * Reconcile the subscriptions with the device-zone pairs in the database
+     * @param req Request
+     * @param res Response
+     */
+    async syncSubscriptions(req: Request, res: Response): Promise<void> {
+        try {
+            const subscriptionCount: number = await mqttService.syncSubscriptions();
+
+            res.status(200).json(ApiResponse.success(
+                mqttService.getSubscriptions(),
+                'Subscriptions synced successfully',
+                subscriptionCount
+            ));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to sync subscriptions', errorMessage));
+        }
+    }
+
+    /**
+     * Get queue depth and write latency of the ingestion pipeline
+     * @param req Request
+     * @param res Response
+     */
+    async getIngestionStats(req: Request, res: Response): Promise<void> {
+        try {
+            res.status(200).json(ApiResponse.success(ingestionService.getStats(), 'Ingestion stats fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch ingestion stats', errorMessage));
+        }
+    }
+}
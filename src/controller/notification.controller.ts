@@ -0,0 +1,295 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { NotificationService } from '../service/notification.service';
+import { createNotificationPreferenceRequest, updateNotificationPreferenceRequest } from '../dto/request/notification.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { Notification } from '../entity/notification.entity';
+import { NotificationDelivery } from '../entity/notification-delivery.entity';
+import { NotificationPreference } from '../entity/notification-preference.entity';
+import { DeliveryStatus, NotificationChannelType, NotificationPreferenceResponse } from '../interface/notification.interface';
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sent', 'failed'];
+const NOTIFICATION_CHANNELS: NotificationChannelType[] = ['email', 'webhook', 'inbox'];
+
+export class NotificationController {
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.notificationService = new NotificationService();
+    }
+
+    /**
+     * Get the in-app inbox of the user
+     * @param req Request
+     * @param res Response
+     */
+    async getInbox(req: Request, res: Response): Promise<void> {
+        try {
+            const unreadOnly: boolean = req.query.unread === 'true';
+            const limit: number = parseInt(req.query.limit as string) || 50;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const inbox: { notifications: Notification[], unread: number } =
+                await this.notificationService.getInbox(userId, unreadOnly, limit);
+
+            res.status(200).json(ApiResponse.success(inbox, 'Inbox fetched successfully', inbox.notifications.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch inbox', errorMessage));
+        }
+    }
+
+    /**
+     * Mark a notification as read
+     * @param req Request
+     * @param res Response
+     */
+    async markRead(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const notification: Notification = await this.notificationService.markRead(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(notification, 'Notification marked as read'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to mark notification as read', errorMessage));
+        }
+    }
+
+    /**
+     * Mark every notification of the user as read
+     * @param req Request
+     * @param res Response
+     */
+    async markAllRead(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const count: number = await this.notificationService.markAllRead(userId);
+
+            res.status(200).json(ApiResponse.success({ count }, 'Notifications marked as read'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to mark notifications as read', errorMessage));
+        }
+    }
+
+    /**
+     * Subscribe the user to notifications through a channel
+     * @param req Request
+     * @param res Response
+     */
+    async createPreference(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const preferenceRequest: createNotificationPreferenceRequest =
+                plainToInstance(createNotificationPreferenceRequest, req.body);
+            const errors: ValidationError[] = await validate(preferenceRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const preference: NotificationPreference =
+                await this.notificationService.createPreference(preferenceRequest, userId);
+
+            res.status(201).json(ApiResponse.success(this.toPreferenceResponse(preference), 'Notification preference created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid notification preference') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to create notification preference', errorMessage));
+        }
+    }
+
+    /**
+     * Get the notification preferences of the user
+     * @param req Request
+     * @param res Response
+     */
+    async getPreferences(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const preferences: NotificationPreference[] = await this.notificationService.getPreferences(userId);
+
+            res.status(200).json(ApiResponse.success(
+                preferences.map((preference: NotificationPreference) => this.toPreferenceResponse(preference)),
+                'Notification preferences fetched successfully',
+                preferences.length
+            ));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch notification preferences', errorMessage));
+        }
+    }
+
+    /**
+     * Update a notification preference of the user
+     * @param req Request
+     * @param res Response
+     */
+    async updatePreference(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const preferenceRequest: updateNotificationPreferenceRequest =
+                plainToInstance(updateNotificationPreferenceRequest, req.body);
+            const errors: ValidationError[] = await validate(preferenceRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const preference: NotificationPreference =
+                await this.notificationService.updatePreference(req.params.id, preferenceRequest, userId);
+
+            res.status(200).json(ApiResponse.success(this.toPreferenceResponse(preference), 'Notification preference updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Invalid notification preference') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update notification preference', errorMessage));
+        }
+    }
+
+    /**
+     * Delete a notification preference of the user
+     * @param req Request
+     * @param res Response
+     */
+    async deletePreference(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.notificationService.deletePreference(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Notification preference deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete notification preference', errorMessage));
+        }
+    }
+
+    /**
+     * Send a test notification through a preference right away
+     * @param req Request
+     * @param res Response
+     */
+    async testPreference(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const delivery: NotificationDelivery = await this.notificationService.sendTest(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(delivery, delivery.status === 'sent'
+                ? 'Test notification sent successfully'
+                : 'Test notification failed, it will be retried'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to send test notification', errorMessage));
+        }
+    }
+
+    /**
+     * Get the delivery log of the notifications of the user
+     * @param req Request
+     * @param res Response
+     */
+    async getDeliveries(req: Request, res: Response): Promise<void> {
+        try {
+            const notificationId: string | undefined = req.query.notificationId as string | undefined;
+            const channel: string | undefined = req.query.channel as string | undefined;
+            const status: string | undefined = req.query.status as string | undefined;
+            const limit: number = parseInt(req.query.limit as string) || 100;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (status && !(DELIVERY_STATUSES as string[]).includes(status)) {
+                res.status(400).json(ApiResponse.error('Validation failed', `status must be one of ${DELIVERY_STATUSES.join(', ')}`));
+                return;
+            }
+
+            if (channel && !(NOTIFICATION_CHANNELS as string[]).includes(channel)) {
+                res.status(400).json(ApiResponse.error('Validation failed', `channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}`));
+                return;
+            }
+
+            const deliveries: NotificationDelivery[] =
+                await this.notificationService.getDeliveries(userId, { notificationId, channel, status, limit });
+
+            res.status(200).json(ApiResponse.success(deliveries, 'Deliveries fetched successfully', deliveries.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch deliveries', errorMessage));
+        }
+    }
+
+    /**
+     * Preference without its webhook secret
+     */
+    private toPreferenceResponse(preference: NotificationPreference): NotificationPreferenceResponse {
+        const { secret, ...response } = preference;
+        return { ...response, hasSecret: !!secret };
+    }
+}
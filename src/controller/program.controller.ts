@@ -0,0 +1,254 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { ProgramService } from '../service/program.service';
+import { createProgramRequest, updateProgramRequest } from '../dto/request/program.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { Program } from '../entity/program.entity';
+import { ProgramRun } from '../entity/program-run.entity';
+import { ProgramRunStatus, UpcomingRun } from '../interface/schedule.interface';
+
+const PROGRAM_RUN_STATUSES: ProgramRunStatus[] = ['pending', 'running', 'completed', 'failed', 'skipped'];
+
+export class ProgramController {
+    private programService: ProgramService;
+
+    constructor() {
+        this.programService = new ProgramService();
+    }
+
+    /**
+     * Create a scheduled program for a zone of a device
+     * @param req Request
+     * @param res Response
+     */
+    async createProgram(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const programRequest: createProgramRequest = plainToInstance(createProgramRequest, req.body);
+            const errors: ValidationError[] = await validate(programRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const program: Program = await this.programService.createProgram(programRequest, userId);
+
+            res.status(201).json(ApiResponse.success(program, 'Program created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid program') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to create program', errorMessage));
+        }
+    }
+
+    /**
+     * Get the programs of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getPrograms(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const programs: Program[] = await this.programService.getPrograms(deviceId, userId, zoneId);
+
+            res.status(200).json(ApiResponse.success(programs, 'Programs fetched successfully', programs.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch programs', errorMessage));
+        }
+    }
+
+    /**
+     * Get a single program
+     * @param req Request
+     * @param res Response
+     */
+    async getProgram(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const program: Program = await this.programService.getProgramById(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(program, 'Program fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch program', errorMessage));
+        }
+    }
+
+    /**
+     * Update a program
+     * @param req Request
+     * @param res Response
+     */
+    async updateProgram(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const programRequest: updateProgramRequest = plainToInstance(updateProgramRequest, req.body);
+            const errors: ValidationError[] = await validate(programRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const program: Program = await this.programService.updateProgram(req.params.id, programRequest, userId);
+
+            res.status(200).json(ApiResponse.success(program, 'Program updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid program') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update program', errorMessage));
+        }
+    }
+
+    /**
+     * Delete a program, stopping runs in progress
+     * @param req Request
+     * @param res Response
+     */
+    async deleteProgram(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.programService.deleteProgram(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Program deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete program', errorMessage));
+        }
+    }
+
+    /**
+     * Get the next run times of a program
+     * @param req Request
+     * @param res Response
+     */
+    async getUpcomingRuns(req: Request, res: Response): Promise<void> {
+        try {
+            const count: number = parseInt(req.query.count as string) || 10;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const runs: UpcomingRun[] = await this.programService.getUpcomingRuns(req.params.id, userId, count);
+
+            res.status(200).json(ApiResponse.success(runs, 'Upcoming runs fetched successfully', runs.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch upcoming runs', errorMessage));
+        }
+    }
+
+    /**
+     * Get the past runs of the programs of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getRuns(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const zoneId: string | undefined = req.query.zoneId as string | undefined;
+            const programId: string | undefined = req.query.programId as string | undefined;
+            const status: string | undefined = req.query.status as string | undefined;
+            const from: Date | undefined = req.query.from ? new Date(req.query.from as string) : undefined;
+            const to: Date | undefined = req.query.to ? new Date(req.query.to as string) : undefined;
+            const limit: number = parseInt(req.query.limit as string) || 100;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            if (status && !(PROGRAM_RUN_STATUSES as string[]).includes(status)) {
+                res.status(400).json(ApiResponse.error('Validation failed', `status must be one of ${PROGRAM_RUN_STATUSES.join(', ')}`));
+                return;
+            }
+
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'from and to must be valid dates'));
+                return;
+            }
+
+            const runs: ProgramRun[] = await this.programService.getRuns(
+                { deviceId, zoneId, programId, status, from, to, limit },
+                userId
+            );
+
+            res.status(200).json(ApiResponse.success(runs, 'Program runs fetched successfully', runs.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch program runs', errorMessage));
+        }
+    }
+}
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { retentionService } from '../service/retention.service';
+import { createRetentionPolicyRequest, updateRetentionPolicyRequest } from '../dto/request/retention.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { RetentionPolicy } from '../entity/retention-policy.entity';
+import { RetentionReport } from '../interface/retention.interface';
+
+export class RetentionController {
+    /**
+     * List retention policies
+     * @param req Request
+     * @param res Response
+     */
+    async getPolicies(req: Request, res: Response): Promise<void> {
+        try {
+            const policies: RetentionPolicy[] = await retentionService.getAllPolicies();
+
+            res.status(200).json(ApiResponse.success(policies, 'Retention policies fetched successfully', policies.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            res.status(500).json(ApiResponse.error('Failed to fetch retention policies', errorMessage));
+        }
+    }
+
+    /**
+     * Create a retention policy
+     * @param req Request
+     * @param res Response
+     */
+    async createPolicy(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const policyRequest: createRetentionPolicyRequest = plainToInstance(createRetentionPolicyRequest, req.body);
+            const errors: ValidationError[] = await validate(policyRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const policy: RetentionPolicy = await retentionService.createPolicy(policyRequest);
+
+            res.status(201).json(ApiResponse.success(policy, 'Retention policy created successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 
+                : errorMessage.includes('already exists') ? 409 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to create retention policy', errorMessage));
+        }
+    }
+
+    /**
+     * Update a retention policy
+     * @param req Request
+     * @param res Response
+     */
+    async updatePolicy(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const policyRequest: updateRetentionPolicyRequest = plainToInstance(updateRetentionPolicyRequest, req.body);
+            const errors: ValidationError[] = await validate(policyRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const policy: RetentionPolicy = await retentionService.updatePolicy(req.params.id, policyRequest);
+
+            res.status(200).json(ApiResponse.success(policy, 'Retention policy updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 
+                : errorMessage.includes('already have rollups') ? 409 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to update retention policy', errorMessage));
+        }
+    }
+
+    /**
+     * Delete a retention policy
+     * @param req Request
+     * @param res Response
+     */
+    async deletePolicy(req: Request, res: Response): Promise<void> {
+        try {
+            await retentionService.deletePolicy(req.params.id);
+
+            res.status(200).json(ApiResponse.success({ id: req.params.id }, 'Retention policy deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to delete retention policy', errorMessage));
+        }
+    }
+
+    /**
+     * Run retention now
+     * @param req Request with optional dryRun query parameter, true to only report what would be removed
+     * @param res Response
+     */
+    async runRetention(req: Request, res: Response): Promise<void> {
+        try {
+            const dryRun: boolean = req.query.dryRun === 'true';
+            const report: RetentionReport = await retentionService.run(dryRun);
+
+            res.status(200).json(ApiResponse.success(
+                report, 
+                dryRun ? 'Retention dry run completed' : 'Retention completed'
+            ));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('already running') ? 409 : 500;
+            res.status(statusCode).json(ApiResponse.error('Failed to run retention', errorMessage));
+        }
+    }
+}
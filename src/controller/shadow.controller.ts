@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { ShadowService } from '../service/shadow.service';
+import { updateDesiredStateRequest } from '../dto/request/shadow.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { DeviceShadow } from '../entity/device-shadow.entity';
+
+export class ShadowController {
+    private shadowService: ShadowService;
+
+    constructor() {
+        this.shadowService = new ShadowService();
+    }
+
+    /**
+     * Get the shadow of a zone
+     * @param req Request
+     * @param res Response
+     */
+    async getShadow(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const shadow: DeviceShadow = await this.shadowService.getShadow(req.params.zoneId, userId);
+
+            res.status(200).json(ApiResponse.success(shadow, 'Shadow fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch shadow', errorMessage));
+        }
+    }
+
+    /**
+     * Get the shadows of the zones of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getShadows(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const shadows: DeviceShadow[] = await this.shadowService.getShadows(deviceId, userId);
+
+            res.status(200).json(ApiResponse.success(shadows, 'Shadows fetched successfully', shadows.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch shadows', errorMessage));
+        }
+    }
+
+    /**
+     * Update the desired state of a zone, sending the delta to the device
+     * @param req Request
+     * @param res Response
+     */
+    async updateDesired(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const desiredRequest: updateDesiredStateRequest = plainToInstance(updateDesiredStateRequest, req.body);
+            const errors: ValidationError[] = await validate(desiredRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const shadow: DeviceShadow = await this.shadowService.updateDesired(req.params.zoneId, desiredRequest, userId);
+
+            res.status(200).json(ApiResponse.success(shadow, 'Desired state updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Invalid shadow') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update desired state', errorMessage));
+        }
+    }
+
+    /**
+     * Send the delta of a zone again
+     * @param req Request
+     * @param res Response
+     */
+    async resync(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const shadow: DeviceShadow = await this.shadowService.resync(req.params.zoneId, userId);
+
+            res.status(200).json(ApiResponse.success(shadow, shadow.delta ? 'Delta sent' : 'Shadow is in sync'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to resync shadow', errorMessage));
+        }
+    }
+}
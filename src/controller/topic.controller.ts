@@ -2,8 +2,26 @@ import { Request, Response } from 'express';
 import { AppDataSource } from '../config/database.config';
 import { Topic } from '../entity/topic.entity';
 import { ApiResponse } from '../dto/response/api.response';
+import { DeviceModelService } from '../service/device-model.service';
+import { BUCKET_SECONDS, ReadingService } from '../service/reading.service';
+import { FormattedTopicData, TopicDataFormat } from '../interface/topic.interface';
+import { BucketInterval, ReadingCursor, ReadingHistoryPage, ReadingQuery, ReadingSeries, ReadingSort } from '../interface/reading.interface';
+
+const TOPIC_DATA_FORMATS: TopicDataFormat[] = ['raw', 'processed', 'both'];
+// Upper bound on buckets per field so a small bucket over a long range cannot flood the response
+const MAX_BUCKETS = 5000;
+const DEFAULT_AGGREGATE_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY_LIMIT = 1000;
 
 export class TopicController {
+  private deviceModelService: DeviceModelService;
+  private readingService: ReadingService;
+
+  constructor() {
+    this.deviceModelService = new DeviceModelService();
+    this.readingService = new ReadingService();
+  }
+
   /**
    * Get all topics with their latest data
    * @param req Request
@@ -11,12 +29,20 @@ export class TopicController {
    */
   async getAllTopics(req: Request, res: Response): Promise<void> {
     try {
+      const format: TopicDataFormat | null = this.parseFormat(req, res);
+      if (!format) return;
+
       const topicRepository = AppDataSource.getRepository(Topic);
       const topics = await topicRepository.find({
         where: { isLatest: true }
       });
       
-      res.status(200).json(ApiResponse.success(topics, 'Latest topics fetched successfully'));
+      const formattedTopics = await Promise.all(topics.map(async topic => ({
+        ...topic,
+        ...(await this.formatTopicData(topic, format))
+      })));
+      
+      res.status(200).json(ApiResponse.success(formattedTopics, 'Latest topics fetched successfully'));
     } catch (error: any) {
       const errorMessage: string = error.message || 'Unknown error';
       res.status(500).json(ApiResponse.error('Failed to fetch topics', errorMessage));
@@ -30,6 +56,9 @@ export class TopicController {
    */
   async getTopicById(req: Request, res: Response): Promise<void> {
     try {
+      const format: TopicDataFormat | null = this.parseFormat(req, res);
+      if (!format) return;
+
       const topicId: string = req.params.id;
       const topicRepository = AppDataSource.getRepository(Topic);
       
@@ -42,7 +71,10 @@ export class TopicController {
         return;
       }
       
-      res.status(200).json(ApiResponse.success(topic, 'Topic fetched successfully'));
+      res.status(200).json(ApiResponse.success({
+        ...topic,
+        ...(await this.formatTopicData(topic, format))
+      }, 'Topic fetched successfully'));
     } catch (error: any) {
       const errorMessage: string = error.message || 'Unknown error';
       res.status(500).json(ApiResponse.error('Failed to fetch topic', errorMessage));
@@ -58,6 +90,9 @@ export class TopicController {
    */
   async getTopicLatestData(req: Request, res: Response): Promise<void> {
     try {
+      const format: TopicDataFormat | null = this.parseFormat(req, res);
+      if (!format) return;
+
       const topicId: string = req.params.id;
       const topicRepository = AppDataSource.getRepository(Topic);
       
@@ -73,7 +108,7 @@ export class TopicController {
       res.status(200).json(ApiResponse.success({ 
         id: topic.id,
         name: topic.name, 
-        data: topic.data,
+        ...(await this.formatTopicData(topic, format)),
         updatedAt: topic.updatedAt
       }, 'Topic data fetched successfully'));
     } catch (error: any) {
@@ -84,20 +119,39 @@ export class TopicController {
 
   /**
    * Get historical data for a specific topic
+   * Query: from and to (ISO dates), sort (asc or desc, newest first by default), limit (100 by default)
+   * and cursor (nextCursor of the previous page); count holds the number of messages in the time range
+   * and is only returned on the first page
    * @param req Request
    * @param res Response
    */
   async getTopicHistoricalData(req: Request, res: Response): Promise<void> {
     try {
+      const format: TopicDataFormat | null = this.parseFormat(req, res);
+      if (!format) return;
+
       const topicName: string = req.params.name;
-      const limit: number = parseInt(req.query.limit as string) || 100; // Default to last 100 records
-      
-      const topicRepository = AppDataSource.getRepository(Topic);
+      const limit: number = Math.max(1, Math.min(parseInt(req.query.limit as string) || 100, MAX_HISTORY_LIMIT)); // Default to last 100 records
+      const sort: string = ((req.query.sort as string) || 'desc').toUpperCase();
+      const from: Date | undefined = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to: Date | undefined = req.query.to ? new Date(req.query.to as string) : undefined;
+      const after: ReadingCursor | null | undefined = req.query.cursor ? this.decodeCursor(req.query.cursor as string) : undefined;
+
+      if (sort !== 'ASC' && sort !== 'DESC') {
+        res.status(400).json(ApiResponse.error('Invalid sort', 'sort must be asc or desc'));
+        return;
+      }
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        res.status(400).json(ApiResponse.error('Invalid time range', 'from and to must be dates'));
+        return;
+      }
+      if (after === null) {
+        res.status(400).json(ApiResponse.error('Invalid cursor', 'cursor must be the nextCursor of a previous page'));
+        return;
+      }
       
       // First check if the topic exists
-      const latestTopic = await topicRepository.findOne({
-        where: { name: topicName, isLatest: true }
-      });
+      const latestTopic = await this.readingService.getTopicByName(topicName);
       
       if (!latestTopic) {
         res.status(404).json(ApiResponse.error('Topic not found', `No topic found with name ${topicName}`));
@@ -105,27 +159,149 @@ export class TopicController {
       }
       
       // Get historical data for this topic
-      const historyData = await topicRepository.find({
-        where: { name: topicName },
-        order: { createdAt: 'DESC' },
-        take: limit
-      });
+      const query: ReadingQuery = { from, to, limit, sort: sort as ReadingSort, after };
+      const historyPage: ReadingHistoryPage = await this.readingService.getHistory(latestTopic, query);
+      // Counting every message of the range is too slow to repeat for every page
+      const total: number | undefined = after ? undefined : await this.readingService.countHistory(latestTopic.id, query);
       
       res.status(200).json(ApiResponse.success({
         topic: {
           id: latestTopic.id,
           name: latestTopic.name
         },
-        history: historyData.map(item => ({
-          id: item.id,
-          data: item.data,
-          timestamp: item.createdAt,
-          isLatest: item.isLatest
-        }))
-      }, `Retrieved ${historyData.length} historical data points for topic ${topicName}`));
+        history: await Promise.all(historyPage.snapshots.map(async item => ({
+          ...(await this.formatTopicData({ ...latestTopic, ...item }, format)),
+          timestamp: item.timestamp,
+          isLatest: item.timestamp.getTime() === latestTopic.lastReceivedAt?.getTime()
+        }))),
+        nextCursor: historyPage.nextCursor ? this.encodeCursor(historyPage.nextCursor) : null
+      }, `Retrieved ${historyPage.snapshots.length} historical data points for topic ${topicName}`, total));
     } catch (error: any) {
       const errorMessage: string = error.message || 'Unknown error';
       res.status(500).json(ApiResponse.error('Failed to fetch historical topic data', errorMessage));
     }
   }
+
+  /**
+   * Get min/max/avg/last/count of the topic fields per time bucket
+   * Query: from and to (ISO dates, last 24 hours by default), bucket (1m, 15m, 1h or 1d, 1h by default)
+   * and fields (comma separated, all fields by default)
+   * @param req Request
+   * @param res Response
+   */
+  async getTopicAggregatedData(req: Request, res: Response): Promise<void> {
+    try {
+      const topicName: string = req.params.name;
+      const bucket: string = (req.query.bucket as string) || '1h';
+
+      if (!Object.keys(BUCKET_SECONDS).includes(bucket)) {
+        res.status(400).json(ApiResponse.error('Invalid bucket', `bucket must be one of ${Object.keys(BUCKET_SECONDS).join(', ')}`));
+        return;
+      }
+
+      const to: Date = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from: Date = req.query.from 
+        ? new Date(req.query.from as string) 
+        : new Date(to.getTime() - DEFAULT_AGGREGATE_RANGE_MS);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        res.status(400).json(ApiResponse.error('Invalid time range', 'from and to must be dates with from before to'));
+        return;
+      }
+
+      const bucketCount: number = (to.getTime() - from.getTime()) / (BUCKET_SECONDS[bucket as BucketInterval] * 1000);
+      if (bucketCount > MAX_BUCKETS) {
+        res.status(400).json(ApiResponse.error('Time range too large', `Use a larger bucket, at most ${MAX_BUCKETS} buckets are returned per field`));
+        return;
+      }
+
+      const fields: string[] | undefined = req.query.fields 
+        ? (req.query.fields as string).split(',').map(field => field.trim()).filter(Boolean) 
+        : undefined;
+
+      const topic = await this.readingService.getTopicByName(topicName);
+      
+      if (!topic) {
+        res.status(404).json(ApiResponse.error('Topic not found', `No topic found with name ${topicName}`));
+        return;
+      }
+
+      const series: ReadingSeries[] = await this.readingService.aggregate(topic.id, {
+        from,
+        to,
+        bucket: bucket as BucketInterval,
+        fields
+      });
+
+      res.status(200).json(ApiResponse.success({
+        topic: {
+          id: topic.id,
+          name: topic.name
+        },
+        from,
+        to,
+        bucket,
+        series
+      }, `Aggregated ${series.length} series for topic ${topicName}`));
+    } catch (error: any) {
+      const errorMessage: string = error.message || 'Unknown error';
+      res.status(500).json(ApiResponse.error('Failed to fetch aggregated topic data', errorMessage));
+    }
+  }
+
+  /**
+   * Read the format query parameter, responding with 400 if it is invalid
+   * @param req Request
+   * @param res Response
+   * @returns The format, raw by default, or null if a response was sent
+   */
+  private parseFormat(req: Request, res: Response): TopicDataFormat | null {
+    const format: string = (req.query.format as string) || 'raw';
+
+    if (!TOPIC_DATA_FORMATS.includes(format as TopicDataFormat)) {
+      res.status(400).json(ApiResponse.error('Invalid format', `format must be one of ${TOPIC_DATA_FORMATS.join(', ')}`));
+      return null;
+    }
+    return format as TopicDataFormat;
+  }
+
+  /**
+   * Select raw and/or processed data of a topic entry
+   * Entries stored before processed values were persisted are converted on read
+   * @param topic The topic entry
+   * @param format The requested format
+   * @returns The data in the requested format
+   */
+  private async formatTopicData(topic: Topic, format: TopicDataFormat): Promise<FormattedTopicData> {
+    if (format === 'raw') {
+      return { data: topic.data, processedData: undefined };
+    }
+
+    const processedData: object | undefined = topic.processedData ?? (topic.data 
+      ? await this.deviceModelService.processTopicData(topic.name, topic.data, topic.deviceId) 
+      : undefined);
+
+    return format === 'processed' 
+      ? { data: undefined, processedData } 
+      : { data: topic.data, processedData };
+  }
+
+  /**
+   * Opaque history cursor from the timestamp and sequence of the last message of a page
+   */
+  private encodeCursor(cursor: ReadingCursor): string {
+    return Buffer.from(`${new Date(cursor.recordedAt).toISOString()}|${cursor.sequence}`, 'utf8').toString('base64url');
+  }
+
+  /**
+   * Timestamp and sequence of a history cursor, cursors without a sequence point at the first message of their timestamp
+   * @returns The cursor, or null if it is invalid
+   */
+  private decodeCursor(cursor: string): ReadingCursor | null {
+    const [timestamp, sequence = '0'] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const recordedAt: Date = new Date(timestamp);
+    if (isNaN(recordedAt.getTime()) || !/^\d+$/.test(sequence)) return null;
+
+    return { recordedAt, sequence: parseInt(sequence) };
+  }
 }
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { ZoneControlService } from '../service/zone-control.service';
+import { setZoneControlRequest } from '../dto/request/zone-control.request';
+import { ApiResponse } from '../dto/response/api.response';
+import { Zone } from '../entity/zone.entity';
+import { ZoneControlEvent } from '../entity/zone-control-event.entity';
+
+export class ZoneControlController {
+    private zoneControlService: ZoneControlService;
+
+    constructor() {
+        this.zoneControlService = new ZoneControlService();
+    }
+
+    /**
+     * Take manual control of a zone, lock it out or hand it back to auto
+     * @param req Request
+     * @param res Response
+     */
+    async setControl(req: Request, res: Response): Promise<void> {
+        try {
+            // Validate request body
+            const controlRequest: setZoneControlRequest = plainToInstance(setZoneControlRequest, req.body);
+            const errors: ValidationError[] = await validate(controlRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const zone: Zone = await this.zoneControlService.setControl(req.params.zoneId, controlRequest, userId);
+
+            res.status(200).json(ApiResponse.success(zone, 'Zone control updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Zone is') ? 409 :
+                                      errorMessage.includes('Invalid zone control') ? 400 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update zone control', errorMessage));
+        }
+    }
+
+    /**
+     * Get the control state of a zone
+     * @param req Request
+     * @param res Response
+     */
+    async getControl(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const zone: Zone = await this.zoneControlService.getControl(req.params.zoneId, userId);
+
+            res.status(200).json(ApiResponse.success(zone, 'Zone control fetched successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch zone control', errorMessage));
+        }
+    }
+
+    /**
+     * Get who held control of a zone and when
+     * @param req Request
+     * @param res Response
+     */
+    async getHistory(req: Request, res: Response): Promise<void> {
+        try {
+            const from: Date | undefined = req.query.from ? new Date(req.query.from as string) : undefined;
+            const to: Date | undefined = req.query.to ? new Date(req.query.to as string) : undefined;
+            const limit: number = parseInt(req.query.limit as string) || 100;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'from and to must be valid dates'));
+                return;
+            }
+
+            const events: ZoneControlEvent[] = await this.zoneControlService.getHistory(
+                { zoneId: req.params.zoneId, from, to, limit },
+                userId
+            );
+
+            res.status(200).json(ApiResponse.success(events, 'Zone control history fetched successfully', events.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to fetch zone control history', errorMessage));
+        }
+    }
+}
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { ZoneService } from '../service/zone.service';
-import { createZoneRequest } from '../dto/request/zone.request';
-import { plainToInstance } from 'class-transformer';
+import { createZoneRequest, patchZoneRequest, updateZoneRequest } from '../dto/request/zone.request';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
 import { validate, ValidationError } from 'class-validator';
 import { ApiResponse } from '../dto/response/api.response';
 import { Zone } from '../entity/zone.entity';
@@ -40,12 +40,16 @@ export class ZoneController {
             }
             
             // Create zone
-            const zone: Zone = await this.zoneService.createZone(zoneRequest);
+            const zone: Zone = await this.zoneService.createZone(zoneRequest, userId);
             
             res.status(201).json(ApiResponse.success(zone, 'Zone created successfully'));
         } catch (error: any) {
             const errorMessage: string = error.message || 'Unknown error';
-            res.status(500).json(ApiResponse.error('Failed to create zone', errorMessage));
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('already in use') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to create zone', errorMessage));
         }
     }
 
@@ -105,4 +109,142 @@ export class ZoneController {
             res.status(500).json(ApiResponse.error('Failed to retrieve zones', errorMessage));
         }
     }
+
+    /**
+     * Replace the name and device of a zone
+     * @param req Request
+     * @param res Response
+     */
+    async updateZone(req: Request, res: Response): Promise<void> {
+        await this.applyUpdate(req, res, updateZoneRequest);
+    }
+
+    /**
+     * Change the name or device of a zone, missing fields are kept
+     * @param req Request
+     * @param res Response
+     */
+    async patchZone(req: Request, res: Response): Promise<void> {
+        await this.applyUpdate(req, res, patchZoneRequest);
+    }
+
+    /**
+     * Soft-delete a zone
+     * @param req Request
+     * @param res Response
+     */
+    async deleteZone(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            await this.zoneService.deleteZone(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(null, 'Zone deleted successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to delete zone', errorMessage));
+        }
+    }
+
+    /**
+     * Restore a soft-deleted zone
+     * @param req Request
+     * @param res Response
+     */
+    async restoreZone(req: Request, res: Response): Promise<void> {
+        try {
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const zone: Zone = await this.zoneService.restoreZone(req.params.id, userId);
+
+            res.status(200).json(ApiResponse.success(zone, 'Zone restored successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Zone is') || errorMessage.includes('already in use') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to restore zone', errorMessage));
+        }
+    }
+
+    /**
+     * Get the soft-deleted zones of a device
+     * @param req Request
+     * @param res Response
+     */
+    async getDeletedZones(req: Request, res: Response): Promise<void> {
+        try {
+            const deviceId: string = req.query.deviceId as string;
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            if (!deviceId) {
+                res.status(400).json(ApiResponse.error('Validation failed', 'deviceId query parameter is required'));
+                return;
+            }
+
+            const zones: Zone[] = await this.zoneService.getDeletedZones(deviceId, userId);
+
+            res.status(200).json(ApiResponse.success(zones, 'Deleted zones retrieved successfully', zones.length));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to retrieve deleted zones', errorMessage));
+        }
+    }
+
+    /**
+     * Validate an update request with the given DTO and apply it
+     * PUT and PATCH only differ in which fields are required
+     */
+    private async applyUpdate(req: Request, res: Response, requestClass: ClassConstructor<patchZoneRequest>): Promise<void> {
+        try {
+            // Validate request body
+            const zoneRequest: patchZoneRequest = plainToInstance(requestClass, req.body);
+            const errors: ValidationError[] = await validate(zoneRequest);
+
+            if (errors.length > 0) {
+                res.status(400).json(ApiResponse.error('Validation failed', JSON.stringify(errors)));
+                return;
+            }
+
+            const userId: string | undefined = req.userId;
+
+            if (!userId) {
+                res.status(401).json(ApiResponse.error('Authentication required', 'User not authenticated'));
+                return;
+            }
+
+            const zone: Zone = await this.zoneService.updateZone(req.params.id, zoneRequest, userId);
+
+            res.status(200).json(ApiResponse.success(zone, 'Zone updated successfully'));
+        } catch (error: any) {
+            const errorMessage: string = error.message || 'Unknown error';
+            const statusCode: number = errorMessage.includes('not found') ? 404 :
+                                      errorMessage.includes('Access denied') ? 403 :
+                                      errorMessage.includes('Zone is') || errorMessage.includes('already in use') ? 409 : 500;
+
+            res.status(statusCode).json(ApiResponse.error('Failed to update zone', errorMessage));
+        }
+    }
 }
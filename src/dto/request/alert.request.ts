@@ -0,0 +1,120 @@
+import { IsBoolean, IsDateString, IsDefined, IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Min } from "class-validator";
+import { AlertComparator, AlertSeverity } from "../../interface/alert.interface";
+
+const ALERT_COMPARATORS: AlertComparator[] = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'];
+const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export class createAlertRuleRequest {
+    @IsDefined()
+    @IsString()
+    zoneId: string;
+
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @IsDefined()
+    @IsString()
+    field: string;
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    channel?: number;
+
+    @IsDefined()
+    @IsIn(ALERT_COMPARATORS)
+    comparator: AlertComparator;
+
+    @IsDefined()
+    @IsNumber()
+    threshold: number;
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    durationSeconds?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    hysteresis?: number;
+
+    @IsOptional()
+    @IsIn(ALERT_SEVERITIES)
+    severity?: AlertSeverity;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+export class updateAlertRuleRequest {
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    field?: string;
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    channel?: number;
+
+    @IsOptional()
+    @IsIn(ALERT_COMPARATORS)
+    comparator?: AlertComparator;
+
+    @IsOptional()
+    @IsNumber()
+    threshold?: number;
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    durationSeconds?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    hysteresis?: number;
+
+    @IsOptional()
+    @IsIn(ALERT_SEVERITIES)
+    severity?: AlertSeverity;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+export class acknowledgeAlertRequest {
+    @IsOptional()
+    @IsString()
+    comment?: string;
+}
+
+export class shelveAlertRequest {
+    @IsDefined()
+    @IsDateString()
+    until: string;
+
+    @IsOptional()
+    @IsString()
+    comment?: string;
+}
+
+export class commentAlertRequest {
+    @IsDefined()
+    @IsString()
+    @IsNotEmpty()
+    comment: string;
+}
+
+export class unshelveAlertRequest {
+    @IsOptional()
+    @IsString()
+    comment?: string;
+}
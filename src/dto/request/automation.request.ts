@@ -0,0 +1,73 @@
+import { IsArray, IsBoolean, IsDefined, IsInt, IsObject, IsOptional, IsString, Min, ValidateIf } from "class-validator";
+import { AutomationAction, AutomationCondition } from "../../interface/automation.interface";
+
+// The condition tree and the actions are checked in full by the automation service
+export class createAutomationRuleRequest {
+    @IsDefined()
+    @IsString()
+    deviceId: string;
+
+    @IsDefined()
+    @IsString()
+    name: string;
+
+    @IsDefined()
+    @IsObject()
+    condition: AutomationCondition;
+
+    @IsDefined()
+    @IsArray()
+    actions: AutomationAction[];
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    cooldownSeconds?: number;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    maxRunsPerDay?: number;
+
+    @IsOptional()
+    @IsString()
+    timeZone?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+// maxRunsPerDay set to null removes the daily cap
+export class updateAutomationRuleRequest {
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @IsOptional()
+    @IsObject()
+    condition?: AutomationCondition;
+
+    @IsOptional()
+    @IsArray()
+    actions?: AutomationAction[];
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    cooldownSeconds?: number;
+
+    @ValidateIf((request: updateAutomationRuleRequest) => request.maxRunsPerDay !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    maxRunsPerDay?: number | null;
+
+    @IsOptional()
+    @IsString()
+    timeZone?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
@@ -0,0 +1,19 @@
+import { IsDefined, IsObject, IsOptional, IsString } from "class-validator";
+
+export class sendCommandRequest {
+    @IsDefined()
+    @IsString()
+    deviceId: string;
+
+    @IsDefined()
+    @IsString()
+    zoneId: string;
+
+    @IsDefined()
+    @IsString()
+    command: string;
+
+    @IsOptional()
+    @IsObject()
+    payload: Record<string, any>;
+}
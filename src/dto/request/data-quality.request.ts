@@ -0,0 +1,92 @@
+import { IsArray, IsBoolean, IsDefined, IsInt, IsNumber, IsOptional, IsString, Min, ValidateIf } from "class-validator";
+
+export class createDataQualityRuleRequest {
+    @IsDefined()
+    @IsString()
+    deviceId: string;
+
+    @IsOptional()
+    @IsString()
+    zoneId?: string;
+
+    @IsDefined()
+    @IsString()
+    field: string;
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    channel?: number;
+
+    @IsOptional()
+    @IsNumber()
+    minValue?: number;
+
+    @IsOptional()
+    @IsNumber()
+    maxValue?: number;
+
+    @IsOptional()
+    @IsArray()
+    @IsNumber({}, { each: true })
+    faultValues?: number[];
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    flatlineSeconds?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    flatlineTolerance?: number;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    staleSeconds?: number;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+// Checks set to null are turned off
+export class updateDataQualityRuleRequest {
+    @ValidateIf((request: updateDataQualityRuleRequest) => request.minValue !== null)
+    @IsOptional()
+    @IsNumber()
+    minValue?: number | null;
+
+    @ValidateIf((request: updateDataQualityRuleRequest) => request.maxValue !== null)
+    @IsOptional()
+    @IsNumber()
+    maxValue?: number | null;
+
+    @ValidateIf((request: updateDataQualityRuleRequest) => request.faultValues !== null)
+    @IsOptional()
+    @IsArray()
+    @IsNumber({}, { each: true })
+    faultValues?: number[] | null;
+
+    @ValidateIf((request: updateDataQualityRuleRequest) => request.flatlineSeconds !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    flatlineSeconds?: number | null;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    flatlineTolerance?: number;
+
+    @ValidateIf((request: updateDataQualityRuleRequest) => request.staleSeconds !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    staleSeconds?: number | null;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
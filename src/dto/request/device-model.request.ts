@@ -0,0 +1,107 @@
+import { Type } from "class-transformer";
+import { IsArray, IsBoolean, IsDefined, IsIn, IsInt, IsNumber, IsOptional, IsString, Max, Min, ValidateNested } from "class-validator";
+import { RegisterDataType, WordOrder } from "../../interface/zone-data.interface";
+
+export class bitDefinitionRequest {
+    @IsDefined()
+    @IsInt()
+    @Min(0)
+    @Max(31)
+    bit: number;
+
+    @IsDefined()
+    @IsString()
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    label?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    activeLow?: boolean;
+}
+
+export class registerDefinitionRequest {
+    @IsDefined()
+    @IsString()
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    pattern?: string;
+
+    @IsOptional()
+    @IsString()
+    label?: string;
+
+    @IsOptional()
+    @IsString()
+    unit?: string;
+
+    @IsDefined()
+    @IsIn(['decimal', 'binary', 'raw', 'int16', 'uint16', 'int32', 'uint32', 'float32'])
+    dataType: RegisterDataType;
+
+    @IsOptional()
+    @IsNumber()
+    scale?: number;
+
+    @IsOptional()
+    @IsNumber()
+    offset?: number;
+
+    @IsOptional()
+    @IsIn(['big', 'little'])
+    wordOrder?: WordOrder;
+
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(10)
+    decimals?: number;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(32)
+    bitLength?: number;
+
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => bitDefinitionRequest)
+    bits?: bitDefinitionRequest[];
+}
+
+export class createDeviceModelRequest {
+    @IsDefined()
+    @IsString()
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    description: string;
+
+    @IsDefined()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => registerDefinitionRequest)
+    registers: registerDefinitionRequest[];
+}
+
+export class updateDeviceModelRequest {
+    @IsOptional()
+    @IsString()
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    description: string;
+
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => registerDefinitionRequest)
+    registers: registerDefinitionRequest[];
+}
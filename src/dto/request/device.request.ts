@@ -1,12 +1,48 @@
-import { IsDefined, IsOptional, IsString } from "class-validator";
+import { IsDefined, IsNotEmpty, IsOptional, IsString, Matches } from "class-validator";
+
+// Device numbers fill one level of the telemetry topic, so they cannot hold the level separator
+const TOPIC_SEGMENT = /^[^/]*$/;
 
 export class createDeviceRequest {
     @IsDefined()
     @IsString()
+    @Matches(TOPIC_SEGMENT, { message: 'deviceNumber must not contain /' })
     deviceNumber: string;
 
     @IsOptional()
     @IsString()
     name: string;
 
-}
\ No newline at end of file
+}
+
+export class assignDeviceModelRequest {
+    @IsOptional()
+    @IsString()
+    modelId: string | null;
+}
+
+export class updateDeviceRequest {
+    @IsDefined()
+    @IsString()
+    @IsNotEmpty()
+    @Matches(TOPIC_SEGMENT, { message: 'deviceNumber must not contain /' })
+    deviceNumber: string;
+
+    @IsDefined()
+    @IsString()
+    @IsNotEmpty()
+    name: string;
+}
+
+export class patchDeviceRequest {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @Matches(TOPIC_SEGMENT, { message: 'deviceNumber must not contain /' })
+    deviceNumber?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    name?: string;
+}
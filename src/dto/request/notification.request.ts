@@ -0,0 +1,80 @@
+import { IsBoolean, IsDefined, IsIn, IsOptional, IsString, Matches, ValidateIf } from "class-validator";
+import { AlertSeverity } from "../../interface/alert.interface";
+import { NotificationChannelType } from "../../interface/notification.interface";
+
+const NOTIFICATION_CHANNELS: NotificationChannelType[] = ['email', 'webhook', 'inbox'];
+const NOTIFICATION_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export class createNotificationPreferenceRequest {
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+
+    @IsDefined()
+    @IsIn(NOTIFICATION_CHANNELS)
+    channel: NotificationChannelType;
+
+    @IsOptional()
+    @IsIn(NOTIFICATION_SEVERITIES)
+    minSeverity?: AlertSeverity;
+
+    @IsOptional()
+    @IsString()
+    target?: string;
+
+    @IsOptional()
+    @IsString()
+    secret?: string;
+
+    @IsOptional()
+    @Matches(TIME_OF_DAY, { message: 'quietHoursStart must be a time as HH:mm' })
+    quietHoursStart?: string;
+
+    @IsOptional()
+    @Matches(TIME_OF_DAY, { message: 'quietHoursEnd must be a time as HH:mm' })
+    quietHoursEnd?: string;
+
+    @IsOptional()
+    @IsString()
+    timeZone?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+// Settings set to null are cleared
+export class updateNotificationPreferenceRequest {
+    @IsOptional()
+    @IsIn(NOTIFICATION_SEVERITIES)
+    minSeverity?: AlertSeverity;
+
+    @ValidateIf((request: updateNotificationPreferenceRequest) => request.target !== null)
+    @IsOptional()
+    @IsString()
+    target?: string | null;
+
+    @ValidateIf((request: updateNotificationPreferenceRequest) => request.secret !== null)
+    @IsOptional()
+    @IsString()
+    secret?: string | null;
+
+    @ValidateIf((request: updateNotificationPreferenceRequest) => request.quietHoursStart !== null)
+    @IsOptional()
+    @Matches(TIME_OF_DAY, { message: 'quietHoursStart must be a time as HH:mm' })
+    quietHoursStart?: string | null;
+
+    @ValidateIf((request: updateNotificationPreferenceRequest) => request.quietHoursEnd !== null)
+    @IsOptional()
+    @Matches(TIME_OF_DAY, { message: 'quietHoursEnd must be a time as HH:mm' })
+    quietHoursEnd?: string | null;
+
+    @IsOptional()
+    @IsString()
+    timeZone?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
@@ -0,0 +1,144 @@
+import { IsArray, IsBoolean, IsDateString, IsDefined, IsIn, IsInt, IsObject, IsOptional, IsString, Matches, Min, ValidateIf } from "class-validator";
+
+const SCHEDULE_TYPES = ['cron', 'interval'];
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class createProgramRequest {
+    @IsDefined()
+    @IsString()
+    deviceId: string;
+
+    @IsDefined()
+    @IsString()
+    zoneId: string;
+
+    @IsDefined()
+    @IsString()
+    name: string;
+
+    @IsDefined()
+    @IsString()
+    command: string;
+
+    @IsOptional()
+    @IsObject()
+    payload?: Record<string, any>;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    durationSeconds?: number;
+
+    @IsOptional()
+    @IsString()
+    stopCommand?: string;
+
+    @IsOptional()
+    @IsObject()
+    stopPayload?: Record<string, any>;
+
+    @IsDefined()
+    @IsIn(SCHEDULE_TYPES)
+    scheduleType: 'cron' | 'interval';
+
+    @IsOptional()
+    @IsString()
+    cronExpression?: string;
+
+    @IsOptional()
+    @IsInt()
+    @Min(60)
+    intervalSeconds?: number;
+
+    @IsOptional()
+    @IsDateString()
+    startAt?: string;
+
+    @IsOptional()
+    @IsDateString()
+    endAt?: string;
+
+    @IsOptional()
+    @IsString()
+    timeZone?: string;
+
+    @IsOptional()
+    @IsArray()
+    @Matches(LOCAL_DATE, { each: true, message: 'blackoutDates must be dates as YYYY-MM-DD' })
+    blackoutDates?: string[];
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+// Fields set to null are cleared
+export class updateProgramRequest {
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    command?: string;
+
+    @ValidateIf((request: updateProgramRequest) => request.payload !== null)
+    @IsOptional()
+    @IsObject()
+    payload?: Record<string, any> | null;
+
+    @ValidateIf((request: updateProgramRequest) => request.durationSeconds !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    durationSeconds?: number | null;
+
+    @ValidateIf((request: updateProgramRequest) => request.stopCommand !== null)
+    @IsOptional()
+    @IsString()
+    stopCommand?: string | null;
+
+    @ValidateIf((request: updateProgramRequest) => request.stopPayload !== null)
+    @IsOptional()
+    @IsObject()
+    stopPayload?: Record<string, any> | null;
+
+    @IsOptional()
+    @IsIn(SCHEDULE_TYPES)
+    scheduleType?: 'cron' | 'interval';
+
+    @ValidateIf((request: updateProgramRequest) => request.cronExpression !== null)
+    @IsOptional()
+    @IsString()
+    cronExpression?: string | null;
+
+    @ValidateIf((request: updateProgramRequest) => request.intervalSeconds !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(60)
+    intervalSeconds?: number | null;
+
+    @ValidateIf((request: updateProgramRequest) => request.startAt !== null)
+    @IsOptional()
+    @IsDateString()
+    startAt?: string | null;
+
+    @ValidateIf((request: updateProgramRequest) => request.endAt !== null)
+    @IsOptional()
+    @IsDateString()
+    endAt?: string | null;
+
+    @IsOptional()
+    @IsString()
+    timeZone?: string;
+
+    @ValidateIf((request: updateProgramRequest) => request.blackoutDates !== null)
+    @IsOptional()
+    @IsArray()
+    @Matches(LOCAL_DATE, { each: true, message: 'blackoutDates must be dates as YYYY-MM-DD' })
+    blackoutDates?: string[] | null;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
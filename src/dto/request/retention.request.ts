@@ -0,0 +1,53 @@
+import { IsBoolean, IsIn, IsInt, IsOptional, IsString, Min, ValidateIf } from "class-validator";
+import { BucketInterval } from "../../interface/reading.interface";
+
+const ROLLUP_BUCKETS: BucketInterval[] = ['1m', '15m', '1h', '1d'];
+
+export class createRetentionPolicyRequest {
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+
+    @IsOptional()
+    @IsString()
+    zoneId?: string;
+
+    @IsInt()
+    @Min(1)
+    rawRetentionDays: number;
+
+    @ValidateIf((request: createRetentionPolicyRequest) => request.rollupRetentionDays !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    rollupRetentionDays?: number | null;
+
+    @IsOptional()
+    @IsIn(ROLLUP_BUCKETS)
+    rollupBucket?: BucketInterval;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
+
+export class updateRetentionPolicyRequest {
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    rawRetentionDays?: number;
+
+    @ValidateIf((request: updateRetentionPolicyRequest) => request.rollupRetentionDays !== null)
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    rollupRetentionDays?: number | null;
+
+    @IsOptional()
+    @IsIn(ROLLUP_BUCKETS)
+    rollupBucket?: BucketInterval;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsDefined, IsObject } from "class-validator";
+import { ShadowValue } from "../../interface/shadow.interface";
+
+// Fields are merged into the desired state, fields set to null are removed from it
+export class updateDesiredStateRequest {
+    @IsDefined()
+    @IsObject()
+    desired: { [field: string]: ShadowValue | null };
+}
@@ -0,0 +1,18 @@
+import { IsDateString, IsDefined, IsIn, IsOptional, IsString } from "class-validator";
+import { ZoneControlMode } from "../../interface/zone-control.interface";
+
+const ZONE_CONTROL_MODES: ZoneControlMode[] = ['auto', 'manual', 'locked_out'];
+
+export class setZoneControlRequest {
+    @IsDefined()
+    @IsIn(ZONE_CONTROL_MODES)
+    mode: ZoneControlMode;
+
+    @IsOptional()
+    @IsString()
+    reason?: string;
+
+    @IsOptional()
+    @IsDateString()
+    expiresAt?: string;
+}
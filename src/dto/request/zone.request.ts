@@ -1,11 +1,39 @@
-import { IsDefined, IsString } from "class-validator";
+import { IsDefined, IsNotEmpty, IsOptional, IsString, Matches } from "class-validator";
+
+// Zone names fill one level of the telemetry topic, a "/" would add levels the topic cannot be parsed back from
+const TOPIC_SEGMENT = /^[^/]*$/;
 
 export class createZoneRequest {
     @IsDefined()
     @IsString()
+    @Matches(TOPIC_SEGMENT, { message: 'name must not contain /' })
     name: string;
 
     @IsDefined()
     @IsString()
     deviceId: string;
-}
\ No newline at end of file
+}
+
+export class updateZoneRequest {
+    @IsDefined()
+    @IsString()
+    @IsNotEmpty()
+    @Matches(TOPIC_SEGMENT, { message: 'name must not contain /' })
+    name: string;
+
+    @IsDefined()
+    @IsString()
+    deviceId: string;
+}
+
+export class patchZoneRequest {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @Matches(TOPIC_SEGMENT, { message: 'name must not contain /' })
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+}
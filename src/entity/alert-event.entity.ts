@@ -0,0 +1,34 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Alert, AlertStatus } from "./alert.entity";
+import { AlertAction } from "../interface/alert.interface";
+
+@Entity('alert_events')
+@Index('IDX_alert_events_alert_created', ['alertId', 'createdAt'])
+export class AlertEvent {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Alert, alert => alert.events, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'alertId' })
+    alert!: Alert;
+
+    @Column({ nullable: false })
+    alertId!: string;
+
+    @Column({ type: 'varchar', nullable: false })
+    action!: AlertAction;
+
+    // Status of the alert after the action
+    @Column({ type: 'varchar', nullable: false })
+    status!: AlertStatus;
+
+    // User who took the action, null for transitions made by the rule evaluation
+    @Column({ type: 'varchar', nullable: true })
+    userId?: string | null;
+
+    @Column({ type: 'text', nullable: true })
+    comment?: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
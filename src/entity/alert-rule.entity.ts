@@ -0,0 +1,61 @@
+import { Column, CreateDateColumn, DeleteDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Zone } from "./zone.entity";
+import { AlertComparator, AlertSeverity } from "../interface/alert.interface";
+
+@Entity('alert_rules')
+export class AlertRule {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Zone)
+    @JoinColumn({ name: 'zoneId' })
+    zone!: Zone;
+
+    @Column({ nullable: false })
+    zoneId!: string;
+
+    @Column({ nullable: false })
+    deviceId!: string;
+
+    @Column({ nullable: true })
+    name?: string;
+
+    // Payload field and channel the rule watches, e.g. d200 channel 0
+    @Column({ nullable: false })
+    field!: string;
+
+    @Column({ type: 'int', default: 0 })
+    channel!: number;
+
+    @Column({ type: 'varchar', nullable: false })
+    comparator!: AlertComparator;
+
+    @Column({ type: 'double precision', nullable: false })
+    threshold!: number;
+
+    // How long the condition must hold before an alert is raised
+    @Column({ type: 'int', default: 0 })
+    durationSeconds!: number;
+
+    // How far the value must move back past the threshold before the alert resolves
+    @Column({ type: 'double precision', default: 0 })
+    hysteresis!: number;
+
+    @Column({ type: 'varchar', default: 'warning' })
+    severity!: AlertSeverity;
+
+    @Column({ default: true })
+    enabled!: boolean;
+
+    @Column({ nullable: true })
+    createdBy?: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
@@ -0,0 +1,93 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { AlertRule } from "./alert-rule.entity";
+import { AlertEvent } from "./alert-event.entity";
+import { AlertComparator, AlertSeverity } from "../interface/alert.interface";
+
+export enum AlertStatus {
+    ACTIVE = 'active',
+    ACKNOWLEDGED = 'acknowledged',
+    SHELVED = 'shelved',
+    CLEARED = 'cleared'
+}
+
+@Entity('alerts')
+@Index('IDX_alerts_zone_triggered', ['zoneId', 'triggeredAt'])
+// A rule has at most one alarm that has not cleared yet
+@Index('UQ_alerts_open_rule', ['ruleId'], { unique: true, where: `"status" <> 'cleared'` })
+export class Alert {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => AlertRule)
+    @JoinColumn({ name: 'ruleId' })
+    rule!: AlertRule;
+
+    @Column({ nullable: false })
+    ruleId!: string;
+
+    @Column({ nullable: false })
+    deviceId!: string;
+
+    @Column({ nullable: false })
+    zoneId!: string;
+
+    @Column({ nullable: false })
+    topic!: string;
+
+    @Column({ nullable: false })
+    field!: string;
+
+    @Column({ type: 'int', default: 0 })
+    channel!: number;
+
+    // Rule settings at the time the alert was raised
+    @Column({ type: 'varchar', nullable: false })
+    comparator!: AlertComparator;
+
+    @Column({ type: 'double precision', nullable: false })
+    threshold!: number;
+
+    @Column({ type: 'varchar', nullable: false })
+    severity!: AlertSeverity;
+
+    @Column({ type: 'varchar', default: AlertStatus.ACTIVE })
+    status!: AlertStatus;
+
+    @Column({ type: 'double precision', nullable: true })
+    value?: number | null;
+
+    // Value that cleared the alert
+    @Column({ type: 'double precision', nullable: true })
+    clearedValue?: number | null;
+
+    @Column({ nullable: false })
+    message!: string;
+
+    @Column({ type: 'timestamp', nullable: false })
+    triggeredAt!: Date;
+
+    @Column({ type: 'varchar', nullable: true })
+    acknowledgedBy?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    acknowledgedAt?: Date | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    shelvedBy?: string | null;
+
+    // The alarm returns to active or acknowledged once this passes
+    @Column({ type: 'timestamp', nullable: true })
+    shelvedUntil?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    clearedAt?: Date | null;
+
+    @OneToMany(() => AlertEvent, event => event.alert)
+    events!: AlertEvent[];
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
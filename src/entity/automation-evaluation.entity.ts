@@ -0,0 +1,38 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { AutomationRule } from "./automation-rule.entity";
+import { ActionResult, AutomationOutcome, ConditionResult } from "../interface/automation.interface";
+
+// Log entry of one evaluation of an automation rule, for troubleshooting
+@Entity('automation_evaluations')
+@Index('IDX_automation_evaluations_rule_evaluated', ['ruleId', 'evaluatedAt'])
+@Index('IDX_automation_evaluations_device_evaluated', ['deviceId', 'evaluatedAt'])
+export class AutomationEvaluation {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => AutomationRule, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'ruleId' })
+    rule!: AutomationRule;
+
+    @Column({ type: 'uuid', nullable: false })
+    ruleId!: string;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    // Zone whose telemetry triggered the evaluation
+    @Column({ type: 'uuid', nullable: false })
+    zoneId!: string;
+
+    @Column({ type: 'varchar', nullable: false })
+    outcome!: AutomationOutcome;
+
+    @Column({ type: 'json', nullable: false })
+    conditions!: ConditionResult[];
+
+    @Column({ type: 'json', nullable: true })
+    actions?: ActionResult[] | null;
+
+    @Column({ type: 'timestamp', nullable: false })
+    evaluatedAt!: Date;
+}
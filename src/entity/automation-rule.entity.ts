@@ -0,0 +1,66 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { User } from "./user.entity";
+import { Device } from "./device.entity";
+import { AutomationAction, AutomationCondition } from "../interface/automation.interface";
+
+// Actions run when conditions on the live telemetry of the zones of a device are met
+@Entity('automation_rules')
+export class AutomationRule {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    // Commands of the rule are issued as this user
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user!: User;
+
+    @Column({ type: 'uuid', nullable: false })
+    userId!: string;
+
+    @ManyToOne(() => Device, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deviceId' })
+    device!: Device;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @Column({ nullable: false })
+    name!: string;
+
+    @Column({ type: 'json', nullable: false })
+    condition!: AutomationCondition;
+
+    @Column({ type: 'json', nullable: false })
+    actions!: AutomationAction[];
+
+    // Minimum time between two firings
+    @Column({ type: 'int', default: 0 })
+    cooldownSeconds!: number;
+
+    // Most firings per local day, unlimited when null
+    @Column({ type: 'int', nullable: true })
+    maxRunsPerDay?: number | null;
+
+    // Time zone the days of maxRunsPerDay start in
+    @Column({ default: 'UTC' })
+    timeZone!: string;
+
+    @Column({ default: true })
+    enabled!: boolean;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastFiredAt?: Date | null;
+
+    // Firings on the local date runsOn
+    @Column({ type: 'int', default: 0 })
+    runsToday!: number;
+
+    @Column({ type: 'varchar', length: 10, nullable: true })
+    runsOn?: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,52 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { AutomationRule } from "./automation-rule.entity";
+import { AutomationStopStatus } from "../interface/automation.interface";
+
+// Stop command due after the duration of a command action, kept so it is sent after a restart
+@Entity('automation_stops')
+@Index('IDX_automation_stops_status_due', ['status', 'dueAt'])
+export class AutomationStop {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => AutomationRule, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'ruleId' })
+    rule!: AutomationRule;
+
+    @Column({ type: 'uuid', nullable: false })
+    ruleId!: string;
+
+    // Evaluation that fired the action
+    @Column({ type: 'uuid', nullable: false })
+    evaluationId!: string;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @Column({ type: 'uuid', nullable: false })
+    zoneId!: string;
+
+    @Column({ nullable: false })
+    command!: string;
+
+    @Column({ type: 'json', nullable: true })
+    payload?: Record<string, any> | null;
+
+    @Column({ type: 'timestamp', nullable: false })
+    dueAt!: Date;
+
+    @Column({ type: 'varchar', default: 'pending' })
+    status!: AutomationStopStatus;
+
+    @Column({ type: 'uuid', nullable: true })
+    commandId?: string | null;
+
+    @Column({ type: 'text', nullable: true })
+    error?: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,64 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Device } from "./device.entity";
+import { Zone } from "./zone.entity";
+import { CommandSource } from "../interface/command.interface";
+
+export enum CommandStatus {
+    PENDING = 'pending',
+    ACKED = 'acked',
+    FAILED = 'failed',
+    TIMED_OUT = 'timed_out'
+}
+
+@Entity('commands')
+export class Command {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Device)
+    @JoinColumn({ name: 'deviceId' })
+    device!: Device;
+
+    @Column({ nullable: false })
+    deviceId!: string;
+
+    @ManyToOne(() => Zone)
+    @JoinColumn({ name: 'zoneId' })
+    zone!: Zone;
+
+    @Column({ nullable: false })
+    zoneId!: string;
+
+    @Column({ nullable: false })
+    topic!: string;
+
+    @Column({ nullable: false })
+    name!: string;
+
+    @Column({ type: 'json', nullable: true })
+    payload?: object;
+
+    @Column({ type: 'varchar', default: CommandStatus.PENDING })
+    status!: CommandStatus;
+
+    @Column({ nullable: true })
+    issuedBy?: string;
+
+    @Column({ type: 'varchar', default: 'user' })
+    source!: CommandSource;
+
+    @Column({ type: 'json', nullable: true })
+    response?: object;
+
+    @Column({ nullable: true })
+    error?: string;
+
+    @Column({ type: 'timestamp', nullable: true })
+    completedAt?: Date;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,44 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+import { DataQuality } from "../interface/data-quality.interface";
+
+// A change in quality of one channel of a field
+@Entity('data_quality_events')
+@Index('IDX_data_quality_events_device_occurred', ['deviceId', 'occurredAt'])
+export class DataQualityEvent {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @Column({ type: 'uuid', nullable: true })
+    ruleId?: string | null;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @Column({ type: 'uuid', nullable: true })
+    zoneId?: string | null;
+
+    @Column({ nullable: false })
+    topic!: string;
+
+    @Column({ nullable: false })
+    field!: string;
+
+    @Column({ type: 'int', default: 0 })
+    channel!: number;
+
+    @Column({ type: 'varchar', nullable: false })
+    quality!: DataQuality;
+
+    @Column({ type: 'varchar', nullable: false })
+    previousQuality!: DataQuality;
+
+    // Value that caused the change, null for stale data
+    @Column({ type: 'double precision', nullable: true })
+    value?: number | null;
+
+    @Column({ type: 'timestamp', nullable: false })
+    occurredAt!: Date;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
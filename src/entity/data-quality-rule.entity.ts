@@ -0,0 +1,62 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Device } from "./device.entity";
+import { Zone } from "./zone.entity";
+
+// Checks on one field of a device, in one zone or every zone, on one channel or every channel
+@Entity('data_quality_rules')
+export class DataQualityRule {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Device, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deviceId' })
+    device!: Device;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @ManyToOne(() => Zone, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'zoneId' })
+    zone?: Zone;
+
+    @Column({ type: 'uuid', nullable: true })
+    zoneId?: string | null;
+
+    @Column({ nullable: false })
+    field!: string;
+
+    @Column({ type: 'int', nullable: true })
+    channel?: number | null;
+
+    // Physical range of the engineering value
+    @Column({ type: 'double precision', nullable: true })
+    minValue?: number | null;
+
+    @Column({ type: 'double precision', nullable: true })
+    maxValue?: number | null;
+
+    // Engineering values the sensor reports on a fault, e.g. [0, 3276.7]
+    @Column({ type: 'json', nullable: true })
+    faultValues?: number[] | null;
+
+    // A value unchanged for this long is flatlined
+    @Column({ type: 'int', nullable: true })
+    flatlineSeconds?: number | null;
+
+    // Changes up to this much still count as unchanged
+    @Column({ type: 'double precision', default: 0 })
+    flatlineTolerance!: number;
+
+    // No value for this long is stale
+    @Column({ type: 'int', nullable: true })
+    staleSeconds?: number | null;
+
+    @Column({ default: true })
+    enabled!: boolean;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,30 @@
+import { Column, CreateDateColumn, DeleteDateColumn, Entity, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Device } from "./device.entity";
+import { RegisterDefinition } from "../interface/zone-data.interface";
+
+@Entity('device_models')
+export class DeviceModel {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @Column({ nullable: false })
+    name!: string;
+
+    @Column({ nullable: true })
+    description?: string;
+
+    @Column({ type: 'json', nullable: false, default: [] })
+    registers!: RegisterDefinition[];
+
+    @OneToMany(() => Device, device => device.model)
+    devices!: Device[];
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
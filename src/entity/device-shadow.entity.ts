@@ -0,0 +1,76 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Device } from "./device.entity";
+import { Zone } from "./zone.entity";
+import { ShadowDocument, ShadowStatus } from "../interface/shadow.interface";
+
+// Desired and reported configuration of a device-zone pair, and the delta between them
+@Entity('device_shadows')
+@Index('UQ_device_shadows_zone', ['zoneId'], { unique: true })
+export class DeviceShadow {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Device, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deviceId' })
+    device!: Device;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @ManyToOne(() => Zone, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'zoneId' })
+    zone!: Zone;
+
+    @Column({ type: 'uuid', nullable: false })
+    zoneId!: string;
+
+    // Set through the API
+    @Column({ type: 'json', nullable: false })
+    desired!: ShadowDocument;
+
+    // Updated from incoming telemetry
+    @Column({ type: 'json', nullable: false })
+    reported!: ShadowDocument;
+
+    // Desired fields whose reported value differs, null when in sync
+    @Column({ type: 'json', nullable: true })
+    delta?: ShadowDocument | null;
+
+    // Raised on every change of the desired state
+    @Column({ type: 'int', default: 0 })
+    version!: number;
+
+    @Column({ type: 'varchar', default: 'in_sync' })
+    status!: ShadowStatus;
+
+    @Column({ type: 'timestamp', nullable: true })
+    desiredUpdatedAt?: Date | null;
+
+    @Column({ type: 'uuid', nullable: true })
+    desiredUpdatedBy?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    reportedAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    deltaSentAt?: Date | null;
+
+    // Sends of the current delta
+    @Column({ type: 'int', default: 0 })
+    deltaAttempts!: number;
+
+    @Column({ type: 'uuid', nullable: true })
+    lastCommandId?: string | null;
+
+    @Column({ type: 'text', nullable: true })
+    lastError?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    convergedAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -2,6 +2,8 @@ import { Column, CreateDateColumn, DeleteDateColumn, Entity, JoinColumn, JoinTab
 import { User } from "./user.entity";
 import { Zone } from "./zone.entity";
 import { Topic } from "./topic.entity";
+import { DeviceModel } from "./device-model.entity";
+import { ConnectionStatus } from "../interface/presence.interface";
 
 @Entity('devices')
 export class Device {
@@ -24,6 +26,22 @@ export class Device {
     @ManyToOne(() => Topic, topic => topic.devices)
     topic!: Topic;
 
+    @ManyToOne(() => DeviceModel, model => model.devices, { nullable: true })
+    @JoinColumn({ name: 'modelId' })
+    model?: DeviceModel;
+
+    @Column({ type: 'uuid', nullable: true })
+    modelId?: string | null;
+
+    @Column({ type: 'varchar', default: ConnectionStatus.UNKNOWN })
+    connectionStatus!: ConnectionStatus;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastSeenAt?: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    statusChangedAt?: Date;
+
     @CreateDateColumn()
     createdAt!: Date;
 
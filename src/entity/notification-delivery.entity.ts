@@ -0,0 +1,55 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Notification } from "./notification.entity";
+import { NotificationPreference } from "./notification-preference.entity";
+import { DeliveryStatus, NotificationChannelType } from "../interface/notification.interface";
+
+// Delivery log entry of a notification through one channel
+@Entity('notification_deliveries')
+@Index('IDX_notification_deliveries_status_next', ['status', 'nextAttemptAt'])
+export class NotificationDelivery {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Notification, notification => notification.deliveries, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'notificationId' })
+    notification!: Notification;
+
+    @Column({ type: 'uuid', nullable: false })
+    notificationId!: string;
+
+    @ManyToOne(() => NotificationPreference, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'preferenceId' })
+    preference?: NotificationPreference | null;
+
+    @Column({ type: 'uuid', nullable: true })
+    preferenceId?: string | null;
+
+    @Column({ type: 'varchar', nullable: false })
+    channel!: NotificationChannelType;
+
+    // Email address or webhook URL the notification was sent to
+    @Column({ type: 'varchar', nullable: true })
+    target?: string | null;
+
+    @Column({ type: 'varchar', default: 'pending' })
+    status!: DeliveryStatus;
+
+    @Column({ type: 'int', default: 0 })
+    attempts!: number;
+
+    // Pushed back by retries and quiet hours
+    @Column({ type: 'timestamp', nullable: false })
+    nextAttemptAt!: Date;
+
+    @Column({ type: 'text', nullable: true })
+    lastError?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    sentAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,60 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { User } from "./user.entity";
+import { Device } from "./device.entity";
+import { AlertSeverity } from "../interface/alert.interface";
+import { NotificationChannelType } from "../interface/notification.interface";
+
+// Subscription of a user to notifications of one device, or of all their devices when no device is set
+@Entity('notification_preferences')
+export class NotificationPreference {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user!: User;
+
+    @Column({ type: 'uuid', nullable: false })
+    userId!: string;
+
+    @ManyToOne(() => Device, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deviceId' })
+    device?: Device;
+
+    @Column({ type: 'uuid', nullable: true })
+    deviceId?: string | null;
+
+    @Column({ type: 'varchar', nullable: false })
+    channel!: NotificationChannelType;
+
+    // Notifications below this severity are not delivered
+    @Column({ type: 'varchar', default: 'warning' })
+    minSeverity!: AlertSeverity;
+
+    // Email address or webhook URL, the email address of the user when not set
+    @Column({ type: 'varchar', nullable: true })
+    target?: string | null;
+
+    // Key webhook payloads are signed with
+    @Column({ type: 'varchar', nullable: true })
+    secret?: string | null;
+
+    // Local "HH:mm" window in which only critical notifications go out right away
+    @Column({ type: 'varchar', length: 5, nullable: true })
+    quietHoursStart?: string | null;
+
+    @Column({ type: 'varchar', length: 5, nullable: true })
+    quietHoursEnd?: string | null;
+
+    @Column({ default: 'UTC' })
+    timeZone!: string;
+
+    @Column({ default: true })
+    enabled!: boolean;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
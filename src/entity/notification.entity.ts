@@ -0,0 +1,54 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./user.entity";
+import { NotificationDelivery } from "./notification-delivery.entity";
+import { AlertSeverity } from "../interface/alert.interface";
+import { NotificationSource } from "../interface/notification.interface";
+
+// A notification for one user, which doubles as their in-app inbox entry
+@Entity('notifications')
+@Index('IDX_notifications_user_created', ['userId', 'createdAt'])
+export class Notification {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user!: User;
+
+    @Column({ type: 'uuid', nullable: false })
+    userId!: string;
+
+    @Column({ type: 'uuid', nullable: true })
+    deviceId?: string | null;
+
+    @Column({ type: 'uuid', nullable: true })
+    zoneId?: string | null;
+
+    @Column({ type: 'varchar', nullable: false })
+    severity!: AlertSeverity;
+
+    @Column({ nullable: false })
+    title!: string;
+
+    @Column({ type: 'text', nullable: false })
+    message!: string;
+
+    @Column({ type: 'varchar', nullable: false })
+    source!: NotificationSource;
+
+    // ID of the alert or data-quality event the notification is about
+    @Column({ type: 'uuid', nullable: true })
+    sourceId?: string | null;
+
+    @Column({ type: 'json', nullable: true })
+    data?: object | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    readAt?: Date | null;
+
+    @OneToMany(() => NotificationDelivery, delivery => delivery.notification)
+    deliveries!: NotificationDelivery[];
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
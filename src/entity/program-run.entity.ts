@@ -0,0 +1,57 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Program } from "./program.entity";
+import { ProgramRunStatus } from "../interface/schedule.interface";
+
+// One execution of a program; a run time is recorded once, so it is never fired twice
+@Entity('program_runs')
+@Index('UQ_program_runs_program_scheduled', ['programId', 'scheduledFor'], { unique: true })
+@Index('IDX_program_runs_device_scheduled', ['deviceId', 'scheduledFor'])
+@Index('IDX_program_runs_status_stop', ['status', 'stopAt'])
+export class ProgramRun {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Program, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'programId' })
+    program!: Program;
+
+    @Column({ type: 'uuid', nullable: false })
+    programId!: string;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @Column({ type: 'uuid', nullable: false })
+    zoneId!: string;
+
+    @Column({ type: 'timestamp', nullable: false })
+    scheduledFor!: Date;
+
+    @Column({ type: 'varchar', default: 'pending' })
+    status!: ProgramRunStatus;
+
+    @Column({ type: 'uuid', nullable: true })
+    startCommandId?: string | null;
+
+    @Column({ type: 'uuid', nullable: true })
+    stopCommandId?: string | null;
+
+    // When the stop command is due
+    @Column({ type: 'timestamp', nullable: true })
+    stopAt?: Date | null;
+
+    @Column({ type: 'text', nullable: true })
+    error?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    startedAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    finishedAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,93 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { User } from "./user.entity";
+import { Device } from "./device.entity";
+import { Zone } from "./zone.entity";
+import { ScheduleType } from "../interface/schedule.interface";
+
+// Command sent to a zone on a timetable, optionally followed by a stop command after a duration
+@Entity('programs')
+@Index('IDX_programs_enabled_next', ['enabled', 'nextRunAt'])
+export class Program {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    // Commands of the program are issued as this user
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user!: User;
+
+    @Column({ type: 'uuid', nullable: false })
+    userId!: string;
+
+    @ManyToOne(() => Device, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deviceId' })
+    device!: Device;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @ManyToOne(() => Zone, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'zoneId' })
+    zone!: Zone;
+
+    @Column({ type: 'uuid', nullable: false })
+    zoneId!: string;
+
+    @Column({ nullable: false })
+    name!: string;
+
+    @Column({ nullable: false })
+    command!: string;
+
+    @Column({ type: 'json', nullable: true })
+    payload?: Record<string, any> | null;
+
+    // Sends stopCommand this long after the start command, e.g. to close a valve again
+    @Column({ type: 'int', nullable: true })
+    durationSeconds?: number | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    stopCommand?: string | null;
+
+    @Column({ type: 'json', nullable: true })
+    stopPayload?: Record<string, any> | null;
+
+    @Column({ type: 'varchar', nullable: false })
+    scheduleType!: ScheduleType;
+
+    @Column({ type: 'varchar', nullable: true })
+    cronExpression?: string | null;
+
+    @Column({ type: 'int', nullable: true })
+    intervalSeconds?: number | null;
+
+    // No runs before startAt or after endAt; interval runs are counted from startAt
+    @Column({ type: 'timestamp', nullable: true })
+    startAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    endAt?: Date | null;
+
+    @Column({ default: 'UTC' })
+    timeZone!: string;
+
+    // Local dates ("YYYY-MM-DD") on which runs are skipped
+    @Column({ type: 'json', nullable: true })
+    blackoutDates?: string[] | null;
+
+    @Column({ default: true })
+    enabled!: boolean;
+
+    // Null when disabled or when the schedule has ended
+    @Column({ type: 'timestamp', nullable: true })
+    nextRunAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastRunAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,53 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+import { Topic } from "./topic.entity";
+import { BucketInterval } from "../interface/reading.interface";
+
+// Statistics of the readings of one field channel over a time bucket, kept after the readings are purged
+@Entity('reading_rollups')
+@Index('IDX_reading_rollups_topic_bucket_start', ['topicId', 'bucketStart'])
+@Unique('UQ_reading_rollups_topic_field_channel_bucket', ['topicId', 'field', 'channel', 'bucket', 'bucketStart'])
+export class ReadingRollup {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Topic, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'topicId' })
+    topic!: Topic;
+
+    @Column({ type: 'uuid', nullable: false })
+    topicId!: string;
+
+    @Column({ nullable: false })
+    field!: string;
+
+    @Column({ type: 'int', default: 0 })
+    channel!: number;
+
+    @Column({ type: 'varchar', nullable: false })
+    bucket!: BucketInterval;
+
+    @Column({ type: 'timestamp', nullable: false })
+    bucketStart!: Date;
+
+    @Column({ type: 'double precision', nullable: true })
+    min?: number | null;
+
+    @Column({ type: 'double precision', nullable: true })
+    max?: number | null;
+
+    @Column({ type: 'double precision', nullable: true })
+    avg?: number | null;
+
+    @Column({ type: 'double precision', nullable: true })
+    last?: number | null;
+
+    // Time of the last value, rollups written before it was tracked have none
+    @Column({ type: 'timestamp', nullable: true })
+    lastAt?: Date | null;
+
+    @Column({ type: 'int', default: 0 })
+    count!: number;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
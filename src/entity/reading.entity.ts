@@ -0,0 +1,50 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+import { Topic } from "./topic.entity";
+import { DataQuality } from "../interface/data-quality.interface";
+
+// One row per value of a payload field, e.g. d200[3] of a message is field d200, channel 3
+@Entity('readings')
+@Index('IDX_readings_topic_recorded', ['topicId', 'recordedAt'])
+@Unique('UQ_readings_topic_field_channel_recorded_sequence', ['topicId', 'field', 'channel', 'recordedAt', 'sequence'])
+export class Reading {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Topic, topic => topic.readings, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'topicId' })
+    topic!: Topic;
+
+    @Column({ type: 'uuid', nullable: false })
+    topicId!: string;
+
+    @Column({ nullable: false })
+    field!: string;
+
+    @Column({ type: 'int', default: 0 })
+    channel!: number;
+
+    // Value as received from the PLC, the unscaled number for 32-bit values spanning two words
+    @Column({ type: 'double precision', nullable: true })
+    rawValue?: number | null;
+
+    // Engineering value after conversion
+    @Column({ type: 'double precision', nullable: true })
+    value?: number | null;
+
+    // Converted values that are not numbers, such as bitstrings of digital registers
+    @Column({ type: 'varchar', nullable: true })
+    text?: string | null;
+
+    @Column({ type: 'varchar', default: 'good' })
+    quality!: DataQuality;
+
+    @Column({ type: 'timestamp', nullable: false })
+    recordedAt!: Date;
+
+    // Tells apart messages of a topic received within the same millisecond, 0 for the first one
+    @Column({ type: 'int', default: 0 })
+    sequence!: number;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
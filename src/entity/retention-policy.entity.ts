@@ -0,0 +1,46 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, Unique, UpdateDateColumn } from "typeorm";
+import { Device } from "./device.entity";
+import { Zone } from "./zone.entity";
+import { BucketInterval } from "../interface/reading.interface";
+
+// Applies to a zone, to every zone of a device, or to everything when neither is set
+@Entity('retention_policies')
+@Unique('UQ_retention_policies_device_zone', ['deviceId', 'zoneId'])
+export class RetentionPolicy {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Device, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deviceId' })
+    device?: Device;
+
+    @Column({ type: 'uuid', nullable: true })
+    deviceId?: string | null;
+
+    @ManyToOne(() => Zone, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'zoneId' })
+    zone?: Zone;
+
+    @Column({ type: 'uuid', nullable: true })
+    zoneId?: string | null;
+
+    // Raw readings older than this are rolled up and removed
+    @Column({ type: 'int', nullable: false })
+    rawRetentionDays!: number;
+
+    // Rollups are kept forever when not set
+    @Column({ type: 'int', nullable: true })
+    rollupRetentionDays?: number | null;
+
+    @Column({ type: 'varchar', default: '1h' })
+    rollupBucket!: BucketInterval;
+
+    @Column({ default: true })
+    enabled!: boolean;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
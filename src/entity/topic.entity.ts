@@ -1,8 +1,11 @@
-import { Column, CreateDateColumn, DeleteDateColumn, Entity, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Column, CreateDateColumn, DeleteDateColumn, Entity, Index, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 import { Device } from "./device.entity";
 import { Zone } from "./zone.entity";
+import { Reading } from "./reading.entity";
 
+// One row per topic holding the latest message, the history lives in readings
 @Entity('topics')
+@Index('UQ_topics_name', ['name'], { unique: true })
 export class Topic {
     @PrimaryGeneratedColumn('uuid')
     id!: string;
@@ -24,12 +27,23 @@ export class Topic {
     @Column({ nullable: true })
     zoneId?: string;
     
+    @OneToMany(() => Reading, reading => reading.topic)
+    readings!: Reading[];
+    
     @Column({ type: 'json', nullable: true })
     data?: object;
+
+    // Engineering values, converted the same way as the live WebSocket updates
+    @Column({ type: 'json', nullable: true })
+    processedData?: object;
     
+    // Always true since topics are no longer stored per message, kept for existing clients
     @Column({ default: false })
     isLatest!: boolean;
 
+    @Column({ type: 'timestamp', nullable: true })
+    lastReceivedAt?: Date;
+
     @CreateDateColumn()
     createdAt!: Date;
 
@@ -0,0 +1,46 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Zone } from "./zone.entity";
+import { ZoneControlAction, ZoneControlMode } from "../interface/zone-control.interface";
+
+// History entry of who held control of a zone and when
+@Entity('zone_control_events')
+@Index('IDX_zone_control_events_zone_created', ['zoneId', 'createdAt'])
+export class ZoneControlEvent {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => Zone, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'zoneId' })
+    zone!: Zone;
+
+    @Column({ type: 'uuid', nullable: false })
+    zoneId!: string;
+
+    @Column({ type: 'uuid', nullable: false })
+    deviceId!: string;
+
+    @Column({ type: 'varchar', nullable: false })
+    action!: ZoneControlAction;
+
+    @Column({ type: 'varchar', nullable: false })
+    mode!: ZoneControlMode;
+
+    @Column({ type: 'varchar', nullable: false })
+    previousMode!: ZoneControlMode;
+
+    @Column({ type: 'uuid', nullable: true })
+    ownerId?: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    reason?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    expiresAt?: Date | null;
+
+    // User who made the change, null when the override expired
+    @Column({ type: 'uuid', nullable: true })
+    changedBy?: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -1,6 +1,8 @@
 import { Column, CreateDateColumn, DeleteDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 import { Device } from "./device.entity";
 import { Topic } from "./topic.entity";
+import { ConnectionStatus } from "../interface/presence.interface";
+import { ZoneControlMode } from "../interface/zone-control.interface";
 
 @Entity('zones')
 export class Zone {
@@ -21,6 +23,32 @@ export class Zone {
     @JoinColumn({ name: 'topicId' })
     topic!: Topic;
 
+    @Column({ type: 'varchar', default: ConnectionStatus.UNKNOWN })
+    connectionStatus!: ConnectionStatus;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastSeenAt?: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    statusChangedAt?: Date;
+
+    // Manual override or lockout, enforced on every command sent to the zone
+    @Column({ type: 'varchar', default: 'auto' })
+    controlMode!: ZoneControlMode;
+
+    @Column({ type: 'uuid', nullable: true })
+    controlOwnerId?: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    controlReason?: string | null;
+
+    // The zone goes back to auto at this time
+    @Column({ type: 'timestamp', nullable: true })
+    controlExpiresAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    controlChangedAt?: Date | null;
+
     @CreateDateColumn()
     createdAt!: Date;
 
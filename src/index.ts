@@ -5,14 +5,40 @@ import dotenv from 'dotenv';
 import cors from 'cors';
 import { getCorsOptions } from './config/cors.config';
 import { initializeDatabase } from './config/database.config';
+import { validateMqttConfig } from './config/mqtt.config';
 // Routes
 import authRoutes from './route/auth.route';
 import deviceRoutes from './route/device.route';
 import zoneRoutes from './route/zone.route';
 import topicRoutes from './route/topic.route';
+import mqttRoutes from './route/mqtt.route';
+import commandRoutes from './route/command.route';
+import deadLetterRoutes from './route/dead-letter.route';
+import deviceModelRoutes from './route/device-model.route';
+import retentionRoutes from './route/retention.route';
+import exportRoutes from './route/export.route';
+import importRoutes from './route/import.route';
+import alertRoutes from './route/alert.route';
+import dataQualityRoutes from './route/data-quality.route';
+import notificationRoutes from './route/notification.route';
+import programRoutes from './route/program.route';
+import automationRoutes from './route/automation.route';
+import zoneControlRoutes from './route/zone-control.route';
+import shadowRoutes from './route/shadow.route';
 // Services
 import { mqttService } from './service/mqtt.service';
 import { webSocketService } from './service/websocket.service';
+import { commandService } from './service/command.service';
+import { ingestionService } from './service/ingestion.service';
+import { presenceService } from './service/presence.service';
+import { retentionService } from './service/retention.service';
+import { alertService } from './service/alert.service';
+import { dataQualityService } from './service/data-quality.service';
+import { notificationService } from './service/notification.service';
+import { programService } from './service/program.service';
+import { automationService } from './service/automation.service';
+import { zoneControlService } from './service/zone-control.service';
+import { shadowService } from './service/shadow.service';
 
 // Load environment variables
 dotenv.config();
@@ -31,6 +57,15 @@ class App {
     this.initializeRoutes();
   }
 
+  private validateConfig() {
+    try {
+      validateMqttConfig();
+    } catch (error) {
+      console.error('Invalid configuration:', error);
+      process.exit(1);
+    }
+  }
+
   private async initializeDatabase() {
     try {
       await initializeDatabase();
@@ -54,14 +89,62 @@ class App {
     this.app.use('/api/devices', deviceRoutes);
     this.app.use('/api/zones', zoneRoutes);
     this.app.use('/api/topics', topicRoutes);
+    this.app.use('/api/mqtt', mqttRoutes);
+    this.app.use('/api/commands', commandRoutes);
+    this.app.use('/api/dead-letters', deadLetterRoutes);
+    this.app.use('/api/device-models', deviceModelRoutes);
+    this.app.use('/api/retention', retentionRoutes);
+    this.app.use('/api/exports', exportRoutes);
+    this.app.use('/api/imports', importRoutes);
+    this.app.use('/api/alerts', alertRoutes);
+    this.app.use('/api/data-quality', dataQualityRoutes);
+    this.app.use('/api/notifications', notificationRoutes);
+    this.app.use('/api/programs', programRoutes);
+    this.app.use('/api/automations', automationRoutes);
+    this.app.use('/api/zone-control', zoneControlRoutes);
+    this.app.use('/api/shadows', shadowRoutes);
   }
 
   public async start() {
+    this.validateConfig();
     await this.initializeDatabase();
     
+    // Start writing buffered telemetry
+    ingestionService.start();
+    
     // Initialize MQTT service after database is ready
     await mqttService.initialize();
     
+    // Track device commands and their acknowledgements
+    await commandService.initialize();
+    
+    // Release manual overrides and lockouts past their expiry
+    await zoneControlService.initialize();
+    
+    // Track device and zone connectivity
+    await presenceService.initialize();
+    
+    // Evaluate alert rules on incoming telemetry
+    await alertService.initialize();
+    
+    // Detect stale, flatlined and out-of-range sensor data
+    await dataQualityService.initialize();
+    
+    // Send queued email, webhook and inbox notifications
+    notificationService.start();
+    
+    // Start scheduled programs, after commands can be published
+    await programService.initialize();
+    
+    // Evaluate automation rules on incoming telemetry
+    await automationService.initialize();
+    
+    // Track desired and reported device configuration
+    await shadowService.initialize();
+    
+    // Roll up and purge readings past their retention
+    retentionService.start();
+    
     // Start the HTTP server
     this.server.listen(this.port, () => {
       console.log(`Server running on port ${this.port}`);
@@ -85,11 +168,23 @@ app.start().catch(err => console.error('Error starting server:', err));
 process.on('SIGINT', () => {
   console.log('Application shutting down...');
   mqttService.disconnect();
-  process.exit(0);
+  retentionService.stop();
+  notificationService.stop();
+  programService.stop();
+  automationService.stop();
+  zoneControlService.stop();
+  shadowService.stop();
+  ingestionService.stop().finally(() => process.exit(0));
 });
 
 process.on('SIGTERM', () => {
   console.log('Application terminated');
   mqttService.disconnect();
-  process.exit(0);
+  retentionService.stop();
+  notificationService.stop();
+  programService.stop();
+  automationService.stop();
+  zoneControlService.stop();
+  shadowService.stop();
+  ingestionService.stop().finally(() => process.exit(0));
 });
@@ -0,0 +1,64 @@
+/**
+ * Interfaces for threshold alerting
+ */
+
+/**
+ * How a value is compared with the threshold of a rule
+ */
+export type AlertComparator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+
+/**
+ * How urgent an alert is
+ */
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * What happened to an alert
+ * - raised/cleared: the rule condition started or stopped holding
+ * - acknowledged/shelved/unshelved/commented: taken by a user, unshelved also when the shelve time passed
+ */
+export type AlertAction = 'raised' | 'acknowledged' | 'shelved' | 'unshelved' | 'commented' | 'cleared';
+
+/**
+ * Evaluation state of a rule between messages
+ */
+export interface AlertRuleState {
+  // When the condition started to hold, while waiting for the rule duration
+  breachedSince?: Date;
+  // Alert raised by the rule that has not cleared yet
+  activeAlertId?: string;
+}
+
+/**
+ * Filters for alert queries
+ */
+export interface AlertFilter {
+  deviceId: string;
+  zoneId?: string;
+  ruleId?: string;
+  statuses?: string[];
+  severity?: string;
+  // Range on the time the alert was raised
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Payload of the alarmState Socket.IO event
+ */
+export interface AlarmStateEvent {
+  alertId: string;
+  ruleId: string;
+  deviceId: string;
+  zoneId: string;
+  action: AlertAction;
+  status: string;
+  previousStatus?: string;
+  userId?: string;
+  comment?: string;
+  severity: AlertSeverity;
+  message: string;
+  value?: number | null;
+  shelvedUntil?: Date | null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Interfaces for condition-based automation rules
+ */
+import { AlertComparator, AlertSeverity } from './alert.interface';
+
+/**
+ * How the conditions of a group are combined
+ */
+export type AutomationOperator = 'and' | 'or';
+
+/**
+ * Comparison of the latest value of a field of a zone
+ * e.g., { zoneId, field: 'd410', comparator: 'lt', value: 30, durationSeconds: 600 } holds once
+ * the value has stayed below 30 for ten minutes
+ */
+export interface AutomationConditionLeaf {
+  zoneId: string;
+  field: string;
+  channel?: number;
+  comparator: AlertComparator;
+  value: number;
+  // How long the comparison must hold without interruption
+  durationSeconds?: number;
+  // Values older than this count as missing
+  maxAgeSeconds?: number;
+}
+
+/**
+ * Conditions combined with AND or OR, groups may be nested
+ */
+export interface AutomationConditionGroup {
+  operator: AutomationOperator;
+  conditions: AutomationCondition[];
+}
+
+export type AutomationCondition = AutomationConditionLeaf | AutomationConditionGroup;
+
+/**
+ * Command sent to a zone when a rule fires, optionally followed by a stop command
+ * e.g. run a pump for five minutes
+ */
+export interface AutomationCommandAction {
+  type: 'command';
+  zoneId: string;
+  command: string;
+  payload?: Record<string, any>;
+  durationSeconds?: number;
+  stopCommand?: string;
+  stopPayload?: Record<string, any>;
+}
+
+/**
+ * Notification to the users of the device when a rule fires
+ */
+export interface AutomationNotifyAction {
+  type: 'notify';
+  severity: AlertSeverity;
+  title?: string;
+  message: string;
+}
+
+export type AutomationAction = AutomationCommandAction | AutomationNotifyAction;
+
+/**
+ * Outcome of one evaluation of a rule
+ * - not_met: the conditions do not hold
+ * - pending: the comparisons hold but not yet for their duration
+ * - still_met: the conditions are met but have been since the rule last fired
+ * - cooldown: the conditions are met but the rule fired too recently
+ * - capped: the conditions are met but the rule reached its maximum runs of the day
+ * - zone_deleted: the conditions are met but a zone the rule commands is deleted
+ * - overridden: the conditions are met but a zone the rule commands is in manual or locked-out mode
+ * - fired: the actions were run
+ * - failed: the actions were run and at least one of them failed
+ */
+export type AutomationOutcome = 'not_met' | 'pending' | 'still_met' | 'cooldown' | 'capped' | 'zone_deleted' | 'overridden' | 'fired' | 'failed';
+
+/**
+ * Status of a stop command waiting for the duration of a command action
+ */
+export type AutomationStopStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Comparison of one condition as evaluated, stored with the evaluation
+ */
+export interface ConditionResult {
+  zoneId: string;
+  field: string;
+  channel: number;
+  comparator: AlertComparator;
+  threshold: number;
+  value: number | null;
+  // The comparison holds right now
+  holds: boolean;
+  // The comparison has held for its duration
+  met: boolean;
+  heldSince?: Date;
+}
+
+/**
+ * Outcome of one action of a fired rule, stored with the evaluation
+ */
+export interface ActionResult {
+  type: 'command' | 'notify';
+  zoneId?: string;
+  command?: string;
+  commandId?: string;
+  stopAt?: Date;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Filters for automation evaluation queries
+ */
+export interface AutomationEvaluationFilter {
+  deviceId: string;
+  ruleId?: string;
+  outcome?: string;
+  // Range on the time of the evaluation
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
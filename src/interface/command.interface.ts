@@ -0,0 +1,34 @@
+/**
+ * Interfaces for device command messages exchanged over MQTT
+ */
+
+/**
+ * What issued a command
+ * - user: a user through the REST API or Socket.IO
+ * - schedule: a scheduled program
+ * - automation: an automation rule
+ * - shadow: the delta between the desired and reported state of a device shadow
+ */
+export type CommandSource = 'user' | 'schedule' | 'automation' | 'shadow';
+
+/**
+ * Message published to a device command topic
+ */
+export interface CommandMessage {
+  id: string;
+  command: string;
+  payload: Record<string, any>;
+  ts: string;
+}
+
+/**
+ * Acknowledgement published by a device on its response topic
+ */
+export interface CommandAcknowledgement {
+  id?: string;
+  correlationId?: string;
+  status?: string;
+  success?: boolean;
+  error?: string;
+  [key: string]: any;
+}
@@ -0,0 +1,44 @@
+/**
+ * Interfaces for stale data and sensor-fault detection
+ */
+
+/**
+ * Quality of a reading
+ * - good: no check failed
+ * - fault: the value is one of the fault sentinels of the field (e.g. 3276.7)
+ * - out_of_range: the value is outside the physical range of the field
+ * - flatline: the value has not changed for longer than the flatline window
+ * - stale: no value arrived within the no-data timeout
+ */
+export type DataQuality = 'good' | 'fault' | 'out_of_range' | 'flatline' | 'stale';
+
+/**
+ * Quality tracking of one channel of a field between messages
+ */
+export interface DataQualityState {
+  ruleId: string;
+  deviceId: string;
+  zoneId?: string;
+  topic: string;
+  field: string;
+  channel: number;
+  quality: DataQuality;
+  lastValue?: number | null;
+  // When the value last changed by more than the flatline tolerance
+  unchangedSince?: Date;
+  lastSeenAt: Date;
+}
+
+/**
+ * Filters for data-quality event queries
+ */
+export interface DataQualityFilter {
+  deviceId: string;
+  zoneId?: string;
+  field?: string;
+  quality?: string;
+  // Range on the time the quality changed
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
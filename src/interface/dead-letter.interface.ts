@@ -0,0 +1,39 @@
+/**
+ * Interfaces for telemetry that failed to be processed or persisted
+ */
+
+/**
+ * Why a message ended up in the dead-letter store
+ * - parse: the payload is not valid JSON
+ * - persist: the database write failed for every attempt
+ * - overflow: the ingestion queue was full and the drop policy discarded the message
+ */
+export type DeadLetterReason = 'parse' | 'persist' | 'overflow';
+
+/**
+ * Message captured in the dead-letter store
+ */
+export interface DeadLetter {
+  id: string;
+  topic: string;
+  payload: string;
+  reason: DeadLetterReason;
+  error: string;
+  deviceId?: string;
+  zoneId?: string;
+  receivedAt: string;
+  createdAt: string;
+  replayCount: number;
+  lastReplayedAt?: string;
+  lastReplayError?: string;
+}
+
+/**
+ * Filters for listing and purging dead letters
+ */
+export interface DeadLetterFilter {
+  reason?: DeadLetterReason;
+  topic?: string;
+  before?: Date;
+  limit?: number;
+}
@@ -0,0 +1,35 @@
+/**
+ * Interfaces for the device and zone lifecycle
+ */
+
+/**
+ * What happened to a device or zone
+ * - updated: renamed, renumbered or moved to another device, so its topic may have changed
+ * - deleted: soft-deleted, it no longer receives telemetry
+ * - restored: brought back after a soft delete
+ */
+export type DeviceChangeAction = 'updated' | 'deleted' | 'restored';
+
+/**
+ * A device or zone changed through the API
+ * Deleting or restoring a device emits one event for the device and one per zone
+ */
+export interface DeviceChangeEvent {
+  scope: 'device' | 'zone';
+  action: DeviceChangeAction;
+  deviceId: string;
+  zoneId?: string;
+  // Device the zone belonged to before the change, differs from deviceId when it was moved
+  previousDeviceId?: string;
+}
+
+/**
+ * Listener notified of device and zone changes
+ */
+export type DeviceChangeListener = (event: DeviceChangeEvent) => Promise<void> | void;
+
+/**
+ * Listener called before zones are soft-deleted, on their own or with their device,
+ * e.g. to send what must reach a zone while it still takes commands
+ */
+export type ZoneDeleteListener = (zoneIds: string[]) => Promise<void> | void;
@@ -0,0 +1,35 @@
+/**
+ * Interfaces for telemetry exports
+ */
+
+/**
+ * File format of an export
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+/**
+ * What to export: a topic, or the topics of a device optionally narrowed to a zone
+ */
+export interface ExportQuery {
+  deviceId?: string;
+  zoneId?: string;
+  topic?: string;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * One value of an exported message
+ */
+export interface ExportRow {
+  timestamp: string;
+  device: string;
+  zone: string;
+  topic: string;
+  field: string;
+  channel: number;
+  label: string;
+  unit: string;
+  value: number | string | null;
+  rawValue: number | null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Interfaces for bulk telemetry imports
+ */
+
+/**
+ * File format of an import
+ */
+export type ImportFormat = 'csv' | 'ndjson';
+
+/**
+ * A message read from an import file
+ */
+export interface ImportRow {
+  line: number;
+  timestamp: Date;
+  // Values per field, indexed by channel
+  fields: { [field: string]: (number | null)[] };
+}
+
+/**
+ * Why a line of an import file was rejected
+ */
+export interface ImportRowError {
+  line: number;
+  error: string;
+}
+
+/**
+ * Rows read from an import file and the lines that could not be read
+ */
+export interface ParsedImport {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportReport {
+  topic: string;
+  rows: number;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  readings: number;
+  latestUpdated: boolean;
+  errors: ImportRowError[];
+}
@@ -0,0 +1,40 @@
+/**
+ * Interfaces for the telemetry ingestion pipeline
+ */
+import { Topic } from '../entity/topic.entity';
+import { Reading } from '../entity/reading.entity';
+
+/**
+ * Message waiting to be written
+ */
+export interface IngestionItem {
+  topic: Topic;
+  readings: Reading[];
+  attempts: number;
+  // Historical entries (e.g. replayed dead letters) never replace the latest data of the topic
+  historical: boolean;
+  // Settled once the message is written or given up on, instead of dead-lettering it
+  completion?: {
+    resolve: () => void;
+    reject: (error: unknown) => void;
+  };
+}
+
+/**
+ * Queue and write metrics of the pipeline
+ */
+export interface IngestionStats {
+  queueDepth: number;
+  maxQueueSize: number;
+  dropPolicy: string;
+  enqueued: number;
+  written: number;
+  dropped: number;
+  deadLettered: number;
+  batches: number;
+  failedBatches: number;
+  lastBatchSize: number;
+  lastWriteLatencyMs: number | null;
+  avgWriteLatencyMs: number | null;
+  lastFlushAt: Date | null;
+}
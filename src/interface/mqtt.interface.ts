@@ -0,0 +1,32 @@
+/**
+ * Interfaces for MQTT subscription management
+ */
+
+/**
+ * Device-zone pair an MQTT topic is subscribed for
+ */
+export interface TopicSubscription {
+  deviceId?: string;
+  zoneId?: string;
+  subscribedAt?: Date;
+}
+
+/**
+ * Entry of the subscription table exposed over the API
+ */
+export interface TopicSubscriptionEntry extends TopicSubscription {
+  topic: string;
+}
+
+/**
+ * Values identifying a device-zone pair inside a topic
+ */
+export interface TopicIdentifiers {
+  deviceNumber: string;
+  zoneName: string;
+}
+
+/**
+ * Handler for messages on topics outside the telemetry subscription table
+ */
+export type TopicMessageHandler = (topic: string, message: Buffer) => Promise<void> | void;
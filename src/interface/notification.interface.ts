@@ -0,0 +1,71 @@
+/**
+ * Interfaces for outbound notifications
+ */
+import { AlertSeverity } from './alert.interface';
+import { Notification } from '../entity/notification.entity';
+import { NotificationDelivery } from '../entity/notification-delivery.entity';
+import { NotificationPreference } from '../entity/notification-preference.entity';
+
+/**
+ * How a notification reaches a user
+ * - email: sent over SMTP to the preference target, or the email address of the user
+ * - webhook: JSON POST to the preference target, signed with the preference secret
+ * - inbox: kept in the in-app inbox and pushed to connected clients
+ */
+export type NotificationChannelType = 'email' | 'webhook' | 'inbox';
+
+/**
+ * What a notification is about
+ */
+export type NotificationSource = 'alarm' | 'data_quality' | 'schedule' | 'automation' | 'shadow' | 'test';
+
+/**
+ * Progress of a delivery
+ * - pending: waiting for its first or next attempt
+ * - sent: accepted by the channel
+ * - failed: gave up after the maximum number of attempts
+ */
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Event to notify the users with access to a device about
+ */
+export interface NotificationRequest {
+  deviceId: string;
+  zoneId?: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  source: NotificationSource;
+  sourceId?: string;
+  data?: object;
+}
+
+/**
+ * A notification preference as returned by the API
+ * The webhook secret is write-only, hasSecret tells whether one is set
+ */
+export type NotificationPreferenceResponse = Omit<NotificationPreference, 'secret'> & { hasSecret: boolean };
+
+/**
+ * Channel a notification can be delivered through
+ * Throwing marks the attempt as failed and schedules a retry
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(
+    notification: Notification,
+    delivery: NotificationDelivery,
+    preference: NotificationPreference | null
+  ): Promise<void>;
+}
+
+/**
+ * Filters for delivery log queries
+ */
+export interface DeliveryFilter {
+  notificationId?: string;
+  channel?: string;
+  status?: string;
+  limit?: number;
+}
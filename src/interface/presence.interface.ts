@@ -0,0 +1,43 @@
+/**
+ * Interfaces for device and zone connectivity tracking
+ */
+
+/**
+ * Connectivity of a device or zone
+ */
+export enum ConnectionStatus {
+  UNKNOWN = 'unknown',
+  ONLINE = 'online',
+  OFFLINE = 'offline'
+}
+
+/**
+ * What caused a connectivity transition
+ * - telemetry: data arrived on a zone topic
+ * - status: the device published on its status topic (including its Last Will)
+ * - timeout: nothing was heard within the offline timeout
+ */
+export type PresenceReason = 'telemetry' | 'status' | 'timeout';
+
+/**
+ * In-memory connectivity state of a device or zone
+ */
+export interface PresenceState {
+  status: ConnectionStatus;
+  lastSeenAt?: Date;
+  // lastSeenAt changed since it was last written to the database
+  dirty: boolean;
+}
+
+/**
+ * Payload of the deviceStatus Socket.IO event
+ */
+export interface DeviceStatusEvent {
+  scope: 'device' | 'zone';
+  deviceId: string;
+  zoneId?: string;
+  status: ConnectionStatus;
+  previousStatus: ConnectionStatus;
+  reason: PresenceReason;
+  lastSeenAt?: Date;
+}
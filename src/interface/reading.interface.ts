@@ -0,0 +1,84 @@
+/**
+ * Interfaces for stored topic readings
+ */
+import { ProcessedZoneData, ZoneData } from './zone-data.interface';
+
+/**
+ * A message rebuilt from the readings recorded at the same time
+ */
+export interface ReadingSnapshot {
+  timestamp: Date;
+  data: ZoneData;
+  processedData: ProcessedZoneData | Record<string, any>;
+}
+
+/**
+ * Order of readings by time
+ */
+export type ReadingSort = 'ASC' | 'DESC';
+
+/**
+ * Filters for reading queries
+ */
+export interface ReadingQuery {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  sort?: ReadingSort;
+  // Continue after this message in the sort direction
+  after?: ReadingCursor;
+}
+
+/**
+ * Position of a message in the history of a topic
+ * Messages received within the same millisecond are told apart by their sequence
+ */
+export interface ReadingCursor {
+  recordedAt: Date;
+  sequence: number;
+}
+
+/**
+ * A page of messages and where the next page starts
+ */
+export interface ReadingHistoryPage {
+  snapshots: ReadingSnapshot[];
+  nextCursor: ReadingCursor | null;
+}
+
+/**
+ * Width of the time buckets of aggregated history
+ */
+export type BucketInterval = '1m' | '15m' | '1h' | '1d';
+
+/**
+ * Filters for aggregated history
+ */
+export interface ReadingAggregateQuery {
+  from: Date;
+  to: Date;
+  bucket: BucketInterval;
+  // All fields when omitted
+  fields?: string[];
+}
+
+/**
+ * Statistics of the values of one bucket
+ */
+export interface ReadingBucket {
+  time: Date;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  last: number | null;
+  count: number;
+}
+
+/**
+ * Aggregated values of one field channel
+ */
+export interface ReadingSeries {
+  field: string;
+  channel: number;
+  buckets: ReadingBucket[];
+}
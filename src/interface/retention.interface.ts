@@ -0,0 +1,30 @@
+/**
+ * Interfaces for data retention
+ */
+
+/**
+ * What the retention job did, or would do in a dry run, for one topic
+ */
+export interface RetentionTopicReport {
+  topicId: string;
+  topicName: string;
+  policyId: string;
+  rawCutoff: Date;
+  rollupCutoff: Date | null;
+  readingsDeleted: number;
+  rollupsWritten: number;
+  rollupsDeleted: number;
+}
+
+/**
+ * Outcome of a retention run
+ */
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  readingsDeleted: number;
+  rollupsWritten: number;
+  rollupsDeleted: number;
+  topics: RetentionTopicReport[];
+}
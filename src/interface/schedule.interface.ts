@@ -0,0 +1,59 @@
+/**
+ * Interfaces for scheduled irrigation and climate programs
+ */
+
+/**
+ * How the run times of a program are defined
+ * - cron: a cron expression evaluated in the time zone of the program
+ * - interval: every intervalSeconds, counted from startAt
+ */
+export type ScheduleType = 'cron' | 'interval';
+
+/**
+ * Status of one run of a program
+ * - pending: recorded, start command not sent yet
+ * - running: start command sent, stop command due at stopAt
+ * - completed: every command was sent
+ * - failed: a command could not be sent
+ * - skipped: not started, on a blackout date, while the zone was under manual override or locked out,
+ *   or missed while the service was down
+ */
+export type ProgramRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Fields that define when a program runs
+ */
+export interface ProgramSchedule {
+  scheduleType: ScheduleType;
+  cronExpression?: string | null;
+  intervalSeconds?: number | null;
+  startAt?: Date | null;
+  endAt?: Date | null;
+  timeZone: string;
+  createdAt?: Date;
+}
+
+/**
+ * A future run of a program
+ */
+export interface UpcomingRun {
+  scheduledFor: Date;
+  // Local date in the time zone of the program
+  localDate: string;
+  // Falls on a blackout date and will be skipped
+  blackout: boolean;
+}
+
+/**
+ * Filters for program run queries
+ */
+export interface ProgramRunFilter {
+  deviceId: string;
+  zoneId?: string;
+  programId?: string;
+  status?: string;
+  // Range on the time the run was scheduled for
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
@@ -0,0 +1,42 @@
+/**
+ * Interfaces for device shadows
+ */
+
+/**
+ * Value of a field in a shadow document
+ * A single number sets channel 0, an array sets one value per channel; null channels are left as they are
+ */
+export type ShadowValue = number | (number | null)[];
+
+/**
+ * Fields of a shadow section, e.g. { m550: 120, m551: [null, 35] }
+ */
+export type ShadowDocument = { [field: string]: ShadowValue };
+
+/**
+ * Convergence of the reported state towards the desired state
+ * - in_sync: every desired field is reported with its desired value
+ * - pending: the delta was sent and is waiting to be confirmed by telemetry
+ * - diverged: the delta was not confirmed after the maximum number of sends
+ */
+export type ShadowStatus = 'in_sync' | 'pending' | 'diverged';
+
+/**
+ * Payload of the command a delta is published with
+ */
+export interface ShadowDeltaMessage {
+  version: number;
+  state: ShadowDocument;
+}
+
+/**
+ * Payload of the shadowState Socket.IO event
+ */
+export interface ShadowStateEvent {
+  zoneId: string;
+  deviceId: string;
+  status: ShadowStatus;
+  previousStatus: ShadowStatus;
+  version: number;
+  delta: ShadowDocument | null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Interfaces for telemetry flowing through the MQTT pipeline
+ */
+import { ProcessedZoneData, ZoneData } from './zone-data.interface';
+
+/**
+ * Message received on a telemetry topic after conversion
+ */
+export interface TelemetryEvent {
+  topicName: string;
+  deviceId?: string;
+  zoneId?: string;
+  data: ZoneData | Record<string, any>;
+  processedData: ProcessedZoneData | Record<string, any>;
+  receivedAt: Date;
+}
+
+/**
+ * Listener notified of every telemetry message
+ */
+export type TelemetryListener = (event: TelemetryEvent) => Promise<void> | void;
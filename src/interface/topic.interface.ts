@@ -0,0 +1,19 @@
+/**
+ * Interfaces for topic data served over the REST API
+ */
+
+/**
+ * Which representation of topic data to return
+ * - raw: the payload as received from the PLC
+ * - processed: engineering values, as sent over WebSocket
+ * - both: raw and processed side by side
+ */
+export type TopicDataFormat = 'raw' | 'processed' | 'both';
+
+/**
+ * Topic data in the requested format
+ */
+export interface FormattedTopicData {
+  data?: object;
+  processedData?: object;
+}
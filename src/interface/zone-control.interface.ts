@@ -0,0 +1,45 @@
+/**
+ * Interfaces for manual override and lockout of zones
+ */
+
+/**
+ * Who may command a zone
+ * - auto: every user with access, schedules and automation rules
+ * - manual: only the owner, from the dashboard; schedules, automation rules and shadow deltas are held off
+ * - locked_out: nobody, e.g. while a technician works on the equipment
+ */
+export type ZoneControlMode = 'auto' | 'manual' | 'locked_out';
+
+/**
+ * What happened to the control of a zone
+ * - set: a user took manual control or locked the zone out, or changed the reason or expiry
+ * - released: the owner handed the zone back to auto
+ * - expired: the override passed its expiry and the zone went back to auto
+ */
+export type ZoneControlAction = 'set' | 'released' | 'expired';
+
+/**
+ * Payload of the zoneControl Socket.IO event
+ */
+export interface ZoneControlStateEvent {
+  zoneId: string;
+  deviceId: string;
+  action: ZoneControlAction;
+  mode: ZoneControlMode;
+  previousMode: ZoneControlMode;
+  ownerId?: string | null;
+  reason?: string | null;
+  expiresAt?: Date | null;
+  changedBy?: string | null;
+}
+
+/**
+ * Filters for zone control history queries
+ */
+export interface ZoneControlFilter {
+  zoneId: string;
+  // Range on the time of the change
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
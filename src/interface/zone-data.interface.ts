@@ -3,12 +3,58 @@
  */
 
 /**
- * Configuration for data field pattern matching
+ * How a register value is decoded
+ * - decimal: integer scaled to an engineering value, formatted as fixed-point string
+ * - binary: bitstring of a digital I/O register
+ * - raw: passed through as is
+ * - int16/uint16: one 16-bit word, scaled to a number
+ * - int32/uint32/float32: two consecutive 16-bit words, scaled to a number
  */
-export interface ZoneConfig {
-  decimalFields: RegExp[];
-  binaryFields: RegExp[];
-  asIsFields: RegExp[];
+export type RegisterDataType = 
+  'decimal' | 'binary' | 'raw' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32';
+
+/**
+ * Order of the words of 32-bit values
+ * - big: high word first (ABCD)
+ * - little: low word first (CDAB)
+ */
+export type WordOrder = 'big' | 'little';
+
+/**
+ * Named signal carried by a single bit of a digital register
+ * Bit 0 is the least significant bit; activeLow signals are true when the bit is 0
+ */
+export interface BitDefinition {
+  bit: number;
+  name: string;
+  label?: string;
+  activeLow?: boolean;
+}
+
+/**
+ * Register of a device model
+ * Matches the payload field with the same name, or every field matching pattern
+ */
+export interface RegisterDefinition {
+  name: string;
+  pattern?: string;
+  label?: string;
+  unit?: string;
+  dataType: RegisterDataType;
+  scale?: number;
+  offset?: number;
+  decimals?: number;
+  wordOrder?: WordOrder;
+  bitLength?: number;
+  bits?: BitDefinition[];
+}
+
+/**
+ * Label and unit of a decoded field
+ */
+export interface RegisterMeta {
+  label?: string;
+  unit?: string;
 }
 
 /**
@@ -39,4 +85,10 @@ export interface ProcessedZoneFieldData {
 export interface ProcessedZoneData {
   d: ProcessedZoneFieldData;
   ts: string;
+  // Present when decoded with a device model
+  fields?: { [key: string]: RegisterMeta };
+  // Named bits of digital registers, one object per value of the field
+  signals?: { [key: string]: { [signal: string]: boolean }[] };
+  // Quality of the fields with data-quality rules, one flag per value of the field
+  quality?: { [key: string]: string[] };
 }
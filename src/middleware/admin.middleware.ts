@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from "express";
+import dotenv from "dotenv";
+import { UserService } from "../service/user.service";
+import { ApiResponse } from "../dto/response/api.response";
+import { Singleton } from "../decorator/singleton.decorator";
+import { User } from "../entity/user.entity";
+
+dotenv.config();
+
+@Singleton
+export class AdminMiddleware {
+  private readonly userService: UserService;
+  
+  // Comma separated emails of users allowed to use admin endpoints
+  private readonly adminEmails: string[] = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email: string) => email.trim().toLowerCase())
+    .filter((email: string) => email.length > 0);
+
+  constructor() {
+    this.userService = new UserService();
+  }
+
+  /**
+   * Allow only administrators, must run after the auth middleware
+   * @param req Request
+   * @param res Response
+   * @param next Next function
+   */
+  public async authorize(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json(ApiResponse.error("Authentication required", "User not authenticated"));
+        return;
+      }
+
+      const user: User | null = await this.userService.getUserById(req.userId);
+      
+      if (!user || !this.adminEmails.includes(user.email.toLowerCase())) {
+        res.status(403).json(ApiResponse.error("Access denied", "Administrator privileges required"));
+        return;
+      }
+      
+      next();
+    } catch (error) {
+      console.error("Authorization error:", error);
+      res.status(500).json(ApiResponse.error(
+        "Authorization failed",
+        error instanceof Error ? error.message : "Unknown error"
+      ));
+    }
+  }
+}
+
+// Export a singleton instance
+const adminMiddlewareInstance = new AdminMiddleware();
+export const adminMiddleware = (req: Request, res: Response, next: NextFunction) => 
+  adminMiddlewareInstance.authorize(req, res, next);
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddCommands1792380614387 implements MigrationInterface {
+    name = 'AddCommands1792380614387';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "commands" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid NOT NULL,
+                "topic" character varying NOT NULL,
+                "name" character varying NOT NULL,
+                "payload" json,
+                "status" character varying NOT NULL DEFAULT 'pending',
+                "issuedBy" character varying,
+                "response" json,
+                "error" character varying,
+                "completedAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_commands_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_commands_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id"),
+                CONSTRAINT "FK_commands_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id")
+            )
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "commands"`);
+    }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddDevicePresence1792380869142 implements MigrationInterface {
+    name = 'AddDevicePresence1792380869142';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ['devices', 'zones']) {
+            await queryRunner.query(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "connectionStatus" character varying NOT NULL DEFAULT 'unknown'`);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "lastSeenAt" TIMESTAMP`);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "statusChangedAt" TIMESTAMP`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ['devices', 'zones']) {
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "statusChangedAt"`);
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "lastSeenAt"`);
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "connectionStatus"`);
+        }
+    }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddDeviceModels1792380995718 implements MigrationInterface {
+    name = 'AddDeviceModels1792380995718';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "device_models" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "name" character varying NOT NULL,
+                "description" character varying,
+                "registers" json NOT NULL DEFAULT '[]',
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "deletedAt" TIMESTAMP,
+                CONSTRAINT "PK_device_models_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        await queryRunner.query(`ALTER TABLE "devices" ADD COLUMN IF NOT EXISTS "modelId" uuid CONSTRAINT "FK_devices_model" REFERENCES "device_models"("id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "devices" DROP CONSTRAINT IF EXISTS "FK_devices_model"`);
+        await queryRunner.query(`ALTER TABLE "devices" DROP COLUMN IF EXISTS "modelId"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "device_models"`);
+    }
+}
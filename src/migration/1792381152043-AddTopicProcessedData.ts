@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTopicProcessedData1792381152043 implements MigrationInterface {
+    name = 'AddTopicProcessedData1792381152043';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "topics" ADD COLUMN IF NOT EXISTS "processedData" json`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "topics" DROP COLUMN IF EXISTS "processedData"`);
+    }
+}
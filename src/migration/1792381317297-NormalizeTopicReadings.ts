@@ -0,0 +1,145 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { ProcessedZoneData, RegisterDefinition } from "../interface/zone-data.interface";
+import { processDataForWebsocket } from "../utils/data-convert.util";
+
+// Rows converted per round when filling in processed values
+const CONVERT_BATCH_SIZE = 1000;
+
+/**
+ * Moves topic history out of the topics table
+ * Every stored message becomes one reading per numeric field value, then only the
+ * latest row of each topic name is kept as the topic itself
+ */
+export class NormalizeTopicReadings1792381317297 implements MigrationInterface {
+    name = 'NormalizeTopicReadings1792381317297';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+        await queryRunner.query(`ALTER TABLE "topics" ADD COLUMN IF NOT EXISTS "processedData" json`);
+        await queryRunner.query(`ALTER TABLE "topics" ADD COLUMN IF NOT EXISTS "lastReceivedAt" TIMESTAMP`);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "readings" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "topicId" uuid NOT NULL,
+                "field" character varying NOT NULL,
+                "channel" integer NOT NULL DEFAULT 0,
+                "rawValue" double precision,
+                "value" double precision,
+                "text" character varying,
+                "recordedAt" TIMESTAMP NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_readings_id" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_readings_topic_field_channel_recorded" UNIQUE ("topicId", "field", "channel", "recordedAt"),
+                CONSTRAINT "FK_readings_topic" FOREIGN KEY ("topicId") REFERENCES "topics"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_readings_topic_recorded" ON "readings" ("topicId", "recordedAt")`);
+
+        await this.fillProcessedData(queryRunner);
+
+        // The most recent row of each topic name becomes the topic
+        await queryRunner.query(`
+            CREATE TEMPORARY TABLE "topic_definitions" AS
+            SELECT DISTINCT ON ("name") "id", "name"
+            FROM "topics"
+            ORDER BY "name", "isLatest" DESC, "createdAt" DESC
+        `);
+
+        // Explode the fields under "d" (or the top level for other payloads) into readings.
+        // Converted strings with a decimal point are engineering values, other strings such as bitstrings are kept as text
+        await queryRunner.query(`
+            INSERT INTO "readings" ("topicId", "field", "channel", "rawValue", "value", "text", "recordedAt")
+            SELECT
+                definition."id",
+                field."key",
+                (raw."ordinality" - 1)::integer,
+                (raw."value" #>> '{}')::double precision,
+                CASE
+                    WHEN processed."value" IS NULL OR json_typeof(processed."value") = 'null' THEN (raw."value" #>> '{}')::double precision
+                    WHEN json_typeof(processed."value") = 'number' THEN (processed."value" #>> '{}')::double precision
+                    WHEN (processed."value" #>> '{}') ~ '^-?[0-9]+\\.[0-9]+$' THEN (processed."value" #>> '{}')::double precision
+                    ELSE NULL
+                END,
+                CASE
+                    WHEN json_typeof(processed."value") = 'string' AND (processed."value" #>> '{}') !~ '^-?[0-9]+\\.[0-9]+$'
+                    THEN processed."value" #>> '{}'
+                END,
+                topic."createdAt"
+            FROM "topics" topic
+            JOIN "topic_definitions" definition ON definition."name" = topic."name"
+            CROSS JOIN LATERAL json_each(
+                CASE
+                    WHEN json_typeof(topic."data"->'d') = 'object' THEN topic."data"->'d'
+                    WHEN json_typeof(topic."data") = 'object' THEN topic."data"
+                    ELSE '{}'::json
+                END
+            ) field
+            CROSS JOIN LATERAL json_array_elements(
+                CASE WHEN json_typeof(field."value") = 'array' THEN field."value" ELSE json_build_array(field."value") END
+            ) WITH ORDINALITY raw("value", "ordinality")
+            LEFT JOIN LATERAL (
+                SELECT CASE
+                    WHEN json_typeof(COALESCE(topic."processedData"->'d', topic."processedData")->field."key") = 'array'
+                    THEN COALESCE(topic."processedData"->'d', topic."processedData")->field."key"->((raw."ordinality" - 1)::integer)
+                    ELSE COALESCE(topic."processedData"->'d', topic."processedData")->field."key"
+                END AS "value"
+            ) processed ON true
+            WHERE json_typeof(raw."value") = 'number'
+            ON CONFLICT DO NOTHING
+        `);
+
+        // Point devices and zones linked to a history row at the topic
+        for (const table of ['devices', 'zones']) {
+            await queryRunner.query(`
+                UPDATE "${table}" target SET "topicId" = definition."id"
+                FROM "topics" topic
+                JOIN "topic_definitions" definition ON definition."name" = topic."name"
+                WHERE target."topicId" = topic."id" AND topic."id" <> definition."id"
+            `);
+        }
+
+        await queryRunner.query(`DELETE FROM "topics" WHERE "id" NOT IN (SELECT "id" FROM "topic_definitions")`);
+        await queryRunner.query(`UPDATE "topics" SET "isLatest" = true, "lastReceivedAt" = COALESCE("lastReceivedAt", "createdAt")`);
+        await queryRunner.query(`DROP TABLE "topic_definitions"`);
+
+        await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "UQ_topics_name" ON "topics" ("name")`);
+    }
+
+    /**
+     * Converts rows stored before processed values were kept, which hold raw register values only
+     * They are converted like live messages, with the register map of their device or the built-in conversions
+     */
+    private async fillProcessedData(queryRunner: QueryRunner): Promise<void> {
+        let lastId: string | null = null;
+
+        while (true) {
+            const rows: { id: string, name: string, data: Record<string, any>, registers: RegisterDefinition[] | null }[] = await queryRunner.query(`
+                SELECT topic."id", topic."name", topic."data", model."registers"
+                FROM "topics" topic
+                LEFT JOIN "devices" device ON device."id"::text = topic."deviceId"
+                LEFT JOIN "device_models" model ON model."id" = device."modelId" AND model."deletedAt" IS NULL
+                WHERE topic."processedData" IS NULL AND json_typeof(topic."data") = 'object'
+                    AND ($1::uuid IS NULL OR topic."id" > $1::uuid)
+                ORDER BY topic."id"
+                LIMIT ${CONVERT_BATCH_SIZE}
+            `, [lastId]);
+
+            for (const row of rows) {
+                const processedData: ProcessedZoneData | Record<string, any> = processDataForWebsocket(row.name, row.data, row.registers);
+                await queryRunner.query(`UPDATE "topics" SET "processedData" = $1 WHERE "id" = $2`, [JSON.stringify(processedData), row.id]);
+            }
+
+            if (rows.length < CONVERT_BATCH_SIZE) return;
+            lastId = rows[rows.length - 1].id;
+        }
+    }
+
+    /**
+     * Drops the readings table, the history it holds is not moved back into topics
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "UQ_topics_name"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "readings"`);
+        await queryRunner.query(`ALTER TABLE "topics" DROP COLUMN IF EXISTS "lastReceivedAt"`);
+    }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddRetentionPoliciesAndRollups1792381728551 implements MigrationInterface {
+    name = 'AddRetentionPoliciesAndRollups1792381728551';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "reading_rollups" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "topicId" uuid NOT NULL,
+                "field" character varying NOT NULL,
+                "channel" integer NOT NULL DEFAULT 0,
+                "bucket" character varying NOT NULL,
+                "bucketStart" TIMESTAMP NOT NULL,
+                "min" double precision,
+                "max" double precision,
+                "avg" double precision,
+                "last" double precision,
+                "count" integer NOT NULL DEFAULT 0,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_reading_rollups_id" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_reading_rollups_topic_field_channel_bucket" UNIQUE ("topicId", "field", "channel", "bucket", "bucketStart"),
+                CONSTRAINT "FK_reading_rollups_topic" FOREIGN KEY ("topicId") REFERENCES "topics"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_reading_rollups_topic_bucket_start" ON "reading_rollups" ("topicId", "bucketStart")`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "retention_policies" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "deviceId" uuid,
+                "zoneId" uuid,
+                "rawRetentionDays" integer NOT NULL,
+                "rollupRetentionDays" integer,
+                "rollupBucket" character varying NOT NULL DEFAULT '1h',
+                "enabled" boolean NOT NULL DEFAULT true,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_retention_policies_id" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_retention_policies_device_zone" UNIQUE ("deviceId", "zoneId"),
+                CONSTRAINT "FK_retention_policies_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_retention_policies_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id") ON DELETE CASCADE
+            )
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "retention_policies"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "reading_rollups"`);
+    }
+}
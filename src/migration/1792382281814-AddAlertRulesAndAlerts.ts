@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAlertRulesAndAlerts1792382281814 implements MigrationInterface {
+    name = 'AddAlertRulesAndAlerts1792382281814';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "alert_rules" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "zoneId" uuid NOT NULL,
+                "deviceId" character varying NOT NULL,
+                "name" character varying,
+                "field" character varying NOT NULL,
+                "channel" integer NOT NULL DEFAULT 0,
+                "comparator" character varying NOT NULL,
+                "threshold" double precision NOT NULL,
+                "durationSeconds" integer NOT NULL DEFAULT 0,
+                "hysteresis" double precision NOT NULL DEFAULT 0,
+                "severity" character varying NOT NULL DEFAULT 'warning',
+                "enabled" boolean NOT NULL DEFAULT true,
+                "createdBy" character varying,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "deletedAt" TIMESTAMP,
+                CONSTRAINT "PK_alert_rules_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_alert_rules_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id")
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "alerts" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "ruleId" uuid NOT NULL,
+                "deviceId" character varying NOT NULL,
+                "zoneId" character varying NOT NULL,
+                "topic" character varying NOT NULL,
+                "field" character varying NOT NULL,
+                "channel" integer NOT NULL DEFAULT 0,
+                "comparator" character varying NOT NULL,
+                "threshold" double precision NOT NULL,
+                "severity" character varying NOT NULL,
+                "status" character varying NOT NULL DEFAULT 'active',
+                "value" double precision,
+                "resolvedValue" double precision,
+                "message" character varying NOT NULL,
+                "triggeredAt" TIMESTAMP NOT NULL,
+                "resolvedAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_alerts_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_alerts_rule" FOREIGN KEY ("ruleId") REFERENCES "alert_rules"("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_alerts_zone_triggered" ON "alerts" ("zoneId", "triggeredAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "alerts"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "alert_rules"`);
+    }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAlarmLifecycle1792382452503 implements MigrationInterface {
+    name = 'AddAlarmLifecycle1792382452503';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Resolved alerts become cleared alarms
+        await queryRunner.query(`
+            DO $$
+            BEGIN
+                IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'alerts' AND column_name = 'resolvedValue') THEN
+                    ALTER TABLE "alerts" RENAME COLUMN "resolvedValue" TO "clearedValue";
+                END IF;
+                IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'alerts' AND column_name = 'resolvedAt') THEN
+                    ALTER TABLE "alerts" RENAME COLUMN "resolvedAt" TO "clearedAt";
+                END IF;
+            END $$
+        `);
+        await queryRunner.query(`UPDATE "alerts" SET "status" = 'cleared' WHERE "status" = 'resolved'`);
+
+        await queryRunner.query(`ALTER TABLE "alerts" ADD COLUMN IF NOT EXISTS "acknowledgedBy" character varying`);
+        await queryRunner.query(`ALTER TABLE "alerts" ADD COLUMN IF NOT EXISTS "acknowledgedAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "alerts" ADD COLUMN IF NOT EXISTS "shelvedBy" character varying`);
+        await queryRunner.query(`ALTER TABLE "alerts" ADD COLUMN IF NOT EXISTS "shelvedUntil" TIMESTAMP`);
+        await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "UQ_alerts_open_rule" ON "alerts" ("ruleId") WHERE "status" <> 'cleared'`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "alert_events" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "alertId" uuid NOT NULL,
+                "action" character varying NOT NULL,
+                "status" character varying NOT NULL,
+                "userId" character varying,
+                "comment" text,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_alert_events_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_alert_events_alert" FOREIGN KEY ("alertId") REFERENCES "alerts"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_alert_events_alert_created" ON "alert_events" ("alertId", "createdAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "alert_events"`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "UQ_alerts_open_rule"`);
+        await queryRunner.query(`ALTER TABLE "alerts" DROP COLUMN IF EXISTS "shelvedUntil"`);
+        await queryRunner.query(`ALTER TABLE "alerts" DROP COLUMN IF EXISTS "shelvedBy"`);
+        await queryRunner.query(`ALTER TABLE "alerts" DROP COLUMN IF EXISTS "acknowledgedAt"`);
+        await queryRunner.query(`ALTER TABLE "alerts" DROP COLUMN IF EXISTS "acknowledgedBy"`);
+        await queryRunner.query(`UPDATE "alerts" SET "status" = 'resolved' WHERE "status" <> 'active'`);
+        await queryRunner.query(`ALTER TABLE "alerts" RENAME COLUMN "clearedAt" TO "resolvedAt"`);
+        await queryRunner.query(`ALTER TABLE "alerts" RENAME COLUMN "clearedValue" TO "resolvedValue"`);
+    }
+}
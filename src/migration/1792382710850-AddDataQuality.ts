@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddDataQuality1792382710850 implements MigrationInterface {
+    name = 'AddDataQuality1792382710850';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "readings" ADD COLUMN IF NOT EXISTS "quality" character varying NOT NULL DEFAULT 'good'`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "data_quality_rules" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid,
+                "field" character varying NOT NULL,
+                "channel" integer,
+                "minValue" double precision,
+                "maxValue" double precision,
+                "faultValues" json,
+                "flatlineSeconds" integer,
+                "flatlineTolerance" double precision NOT NULL DEFAULT 0,
+                "staleSeconds" integer,
+                "enabled" boolean NOT NULL DEFAULT true,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_data_quality_rules_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_data_quality_rules_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_data_quality_rules_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "data_quality_events" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "ruleId" uuid,
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid,
+                "topic" character varying NOT NULL,
+                "field" character varying NOT NULL,
+                "channel" integer NOT NULL DEFAULT 0,
+                "quality" character varying NOT NULL,
+                "previousQuality" character varying NOT NULL,
+                "value" double precision,
+                "occurredAt" TIMESTAMP NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_data_quality_events_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_data_quality_events_device_occurred" ON "data_quality_events" ("deviceId", "occurredAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "data_quality_events"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "data_quality_rules"`);
+        await queryRunner.query(`ALTER TABLE "readings" DROP COLUMN IF EXISTS "quality"`);
+    }
+}
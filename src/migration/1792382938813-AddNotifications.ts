@@ -0,0 +1,75 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddNotifications1792382938813 implements MigrationInterface {
+    name = 'AddNotifications1792382938813';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notification_preferences" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "userId" uuid NOT NULL,
+                "deviceId" uuid,
+                "channel" character varying NOT NULL,
+                "minSeverity" character varying NOT NULL DEFAULT 'warning',
+                "target" character varying,
+                "secret" character varying,
+                "quietHoursStart" character varying(5),
+                "quietHoursEnd" character varying(5),
+                "timeZone" character varying NOT NULL DEFAULT 'UTC',
+                "enabled" boolean NOT NULL DEFAULT true,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_notification_preferences_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_notification_preferences_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_notification_preferences_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifications" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "userId" uuid NOT NULL,
+                "deviceId" uuid,
+                "zoneId" uuid,
+                "severity" character varying NOT NULL,
+                "title" character varying NOT NULL,
+                "message" text NOT NULL,
+                "source" character varying NOT NULL,
+                "sourceId" uuid,
+                "data" json,
+                "readAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_notifications_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_notifications_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_notifications_user_created" ON "notifications" ("userId", "createdAt")`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notification_deliveries" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "notificationId" uuid NOT NULL,
+                "preferenceId" uuid,
+                "channel" character varying NOT NULL,
+                "target" character varying,
+                "status" character varying NOT NULL DEFAULT 'pending',
+                "attempts" integer NOT NULL DEFAULT 0,
+                "nextAttemptAt" TIMESTAMP NOT NULL,
+                "lastError" text,
+                "sentAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_notification_deliveries_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_notification_deliveries_notification" FOREIGN KEY ("notificationId") REFERENCES "notifications"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_notification_deliveries_preference" FOREIGN KEY ("preferenceId") REFERENCES "notification_preferences"("id") ON DELETE SET NULL
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_notification_deliveries_status_next" ON "notification_deliveries" ("status", "nextAttemptAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "notification_deliveries"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifications"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "notification_preferences"`);
+    }
+}
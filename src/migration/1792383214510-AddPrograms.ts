@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPrograms1792383214510 implements MigrationInterface {
+    name = 'AddPrograms1792383214510';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "programs" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "userId" uuid NOT NULL,
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid NOT NULL,
+                "name" character varying NOT NULL,
+                "command" character varying NOT NULL,
+                "payload" json,
+                "durationSeconds" integer,
+                "stopCommand" character varying,
+                "stopPayload" json,
+                "scheduleType" character varying NOT NULL,
+                "cronExpression" character varying,
+                "intervalSeconds" integer,
+                "startAt" TIMESTAMP,
+                "endAt" TIMESTAMP,
+                "timeZone" character varying NOT NULL DEFAULT 'UTC',
+                "blackoutDates" json,
+                "enabled" boolean NOT NULL DEFAULT true,
+                "nextRunAt" TIMESTAMP,
+                "lastRunAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_programs_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_programs_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_programs_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_programs_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_programs_enabled_next" ON "programs" ("enabled", "nextRunAt")`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "program_runs" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "programId" uuid NOT NULL,
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid NOT NULL,
+                "scheduledFor" TIMESTAMP NOT NULL,
+                "status" character varying NOT NULL DEFAULT 'pending',
+                "startCommandId" uuid,
+                "stopCommandId" uuid,
+                "stopAt" TIMESTAMP,
+                "error" text,
+                "startedAt" TIMESTAMP,
+                "finishedAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_program_runs_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_program_runs_program" FOREIGN KEY ("programId") REFERENCES "programs"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "UQ_program_runs_program_scheduled" ON "program_runs" ("programId", "scheduledFor")`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_program_runs_device_scheduled" ON "program_runs" ("deviceId", "scheduledFor")`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_program_runs_status_stop" ON "program_runs" ("status", "stopAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "program_runs"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "programs"`);
+    }
+}
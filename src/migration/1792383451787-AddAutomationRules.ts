@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAutomationRules1792383451787 implements MigrationInterface {
+    name = 'AddAutomationRules1792383451787';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "automation_rules" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "userId" uuid NOT NULL,
+                "deviceId" uuid NOT NULL,
+                "name" character varying NOT NULL,
+                "condition" json NOT NULL,
+                "actions" json NOT NULL,
+                "cooldownSeconds" integer NOT NULL DEFAULT 0,
+                "maxRunsPerDay" integer,
+                "timeZone" character varying NOT NULL DEFAULT 'UTC',
+                "enabled" boolean NOT NULL DEFAULT true,
+                "lastFiredAt" TIMESTAMP,
+                "runsToday" integer NOT NULL DEFAULT 0,
+                "runsOn" character varying(10),
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_automation_rules_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_automation_rules_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_automation_rules_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE
+            )
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "automation_evaluations" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "ruleId" uuid NOT NULL,
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid NOT NULL,
+                "outcome" character varying NOT NULL,
+                "conditions" json NOT NULL,
+                "actions" json,
+                "evaluatedAt" TIMESTAMP NOT NULL,
+                CONSTRAINT "PK_automation_evaluations_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_automation_evaluations_rule" FOREIGN KEY ("ruleId") REFERENCES "automation_rules"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_automation_evaluations_rule_evaluated" ON "automation_evaluations" ("ruleId", "evaluatedAt")`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_automation_evaluations_device_evaluated" ON "automation_evaluations" ("deviceId", "evaluatedAt")`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "automation_stops" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "ruleId" uuid NOT NULL,
+                "evaluationId" uuid NOT NULL,
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid NOT NULL,
+                "command" character varying NOT NULL,
+                "payload" json,
+                "dueAt" TIMESTAMP NOT NULL,
+                "status" character varying NOT NULL DEFAULT 'pending',
+                "commandId" uuid,
+                "error" text,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_automation_stops_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_automation_stops_rule" FOREIGN KEY ("ruleId") REFERENCES "automation_rules"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_automation_stops_status_due" ON "automation_stops" ("status", "dueAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "automation_stops"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "automation_evaluations"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "automation_rules"`);
+    }
+}
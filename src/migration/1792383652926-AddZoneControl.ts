@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddZoneControl1792383652926 implements MigrationInterface {
+    name = 'AddZoneControl1792383652926';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "zones" ADD COLUMN IF NOT EXISTS "controlMode" character varying NOT NULL DEFAULT 'auto'`);
+        await queryRunner.query(`ALTER TABLE "zones" ADD COLUMN IF NOT EXISTS "controlOwnerId" uuid`);
+        await queryRunner.query(`ALTER TABLE "zones" ADD COLUMN IF NOT EXISTS "controlReason" character varying`);
+        await queryRunner.query(`ALTER TABLE "zones" ADD COLUMN IF NOT EXISTS "controlExpiresAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "zones" ADD COLUMN IF NOT EXISTS "controlChangedAt" TIMESTAMP`);
+
+        await queryRunner.query(`ALTER TABLE "commands" ADD COLUMN IF NOT EXISTS "source" character varying NOT NULL DEFAULT 'user'`);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "zone_control_events" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "zoneId" uuid NOT NULL,
+                "deviceId" uuid NOT NULL,
+                "action" character varying NOT NULL,
+                "mode" character varying NOT NULL,
+                "previousMode" character varying NOT NULL,
+                "ownerId" uuid,
+                "reason" character varying,
+                "expiresAt" TIMESTAMP,
+                "changedBy" uuid,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_zone_control_events_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_zone_control_events_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_zone_control_events_zone_created" ON "zone_control_events" ("zoneId", "createdAt")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "zone_control_events"`);
+        await queryRunner.query(`ALTER TABLE "commands" DROP COLUMN IF EXISTS "source"`);
+        await queryRunner.query(`ALTER TABLE "zones" DROP COLUMN IF EXISTS "controlChangedAt"`);
+        await queryRunner.query(`ALTER TABLE "zones" DROP COLUMN IF EXISTS "controlExpiresAt"`);
+        await queryRunner.query(`ALTER TABLE "zones" DROP COLUMN IF EXISTS "controlReason"`);
+        await queryRunner.query(`ALTER TABLE "zones" DROP COLUMN IF EXISTS "controlOwnerId"`);
+        await queryRunner.query(`ALTER TABLE "zones" DROP COLUMN IF EXISTS "controlMode"`);
+    }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddDeviceShadows1792383827367 implements MigrationInterface {
+    name = 'AddDeviceShadows1792383827367';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "device_shadows" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "deviceId" uuid NOT NULL,
+                "zoneId" uuid NOT NULL,
+                "desired" json NOT NULL,
+                "reported" json NOT NULL,
+                "delta" json,
+                "version" integer NOT NULL DEFAULT 0,
+                "status" character varying NOT NULL DEFAULT 'in_sync',
+                "desiredUpdatedAt" TIMESTAMP,
+                "desiredUpdatedBy" uuid,
+                "reportedAt" TIMESTAMP,
+                "deltaSentAt" TIMESTAMP,
+                "deltaAttempts" integer NOT NULL DEFAULT 0,
+                "lastCommandId" uuid,
+                "lastError" text,
+                "convergedAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_device_shadows_id" PRIMARY KEY ("id"),
+                CONSTRAINT "FK_device_shadows_device" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE,
+                CONSTRAINT "FK_device_shadows_zone" FOREIGN KEY ("zoneId") REFERENCES "zones"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "UQ_device_shadows_zone" ON "device_shadows" ("zoneId")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "device_shadows"`);
+    }
+}
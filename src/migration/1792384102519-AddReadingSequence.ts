@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Adds a sequence to readings so messages of a topic received within the same millisecond
+ * are stored side by side instead of the later one being dropped as a duplicate
+ */
+export class AddReadingSequence1792384102519 implements MigrationInterface {
+    name = 'AddReadingSequence1792384102519';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "readings" ADD COLUMN IF NOT EXISTS "sequence" integer NOT NULL DEFAULT 0`);
+        await queryRunner.query(`ALTER TABLE "readings" DROP CONSTRAINT IF EXISTS "UQ_readings_topic_field_channel_recorded"`);
+        await queryRunner.query(`ALTER TABLE "readings" DROP CONSTRAINT IF EXISTS "UQ_readings_topic_field_channel_recorded_sequence"`);
+        await queryRunner.query(`
+            ALTER TABLE "readings" ADD CONSTRAINT "UQ_readings_topic_field_channel_recorded_sequence" 
+            UNIQUE ("topicId", "field", "channel", "recordedAt", "sequence")
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "readings" WHERE "sequence" > 0`);
+        await queryRunner.query(`ALTER TABLE "readings" DROP CONSTRAINT IF EXISTS "UQ_readings_topic_field_channel_recorded_sequence"`);
+        await queryRunner.query(`
+            ALTER TABLE "readings" ADD CONSTRAINT "UQ_readings_topic_field_channel_recorded" 
+            UNIQUE ("topicId", "field", "channel", "recordedAt")
+        `);
+        await queryRunner.query(`ALTER TABLE "readings" DROP COLUMN IF EXISTS "sequence"`);
+    }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Adds the time of the last value of a rollup, so merging readings imported later
+ * into an existing rollup only replaces its last value with a newer one
+ */
+export class AddRollupLastAt1792384309862 implements MigrationInterface {
+    name = 'AddRollupLastAt1792384309862';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "reading_rollups" ADD COLUMN IF NOT EXISTS "lastAt" TIMESTAMP`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "reading_rollups" DROP COLUMN IF EXISTS "lastAt"`);
+    }
+}
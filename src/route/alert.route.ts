@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { AlertController } from '../controller/alert.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const alertController: AlertController = new AlertController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Alert rule routes
+router.post('/create-rule', (req, res) => alertController.createRule(req, res));
+router.get('/get-rules', (req, res) => alertController.getRules(req, res));
+router.put('/update-rule/:id', (req, res) => alertController.updateRule(req, res));
+router.delete('/delete-rule/:id', (req, res) => alertController.deleteRule(req, res));
+
+// Alarm history and lifecycle routes
+router.get('/get-alerts', (req, res) => alertController.getAlerts(req, res));
+router.get('/get-alert/:id', (req, res) => alertController.getAlert(req, res));
+router.post('/acknowledge-alert/:id', (req, res) => alertController.acknowledgeAlert(req, res));
+router.post('/shelve-alert/:id', (req, res) => alertController.shelveAlert(req, res));
+router.post('/unshelve-alert/:id', (req, res) => alertController.unshelveAlert(req, res));
+router.post('/comment-alert/:id', (req, res) => alertController.commentAlert(req, res));
+
+export default router;
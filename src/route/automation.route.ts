@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { AutomationController } from '../controller/automation.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const automationController: AutomationController = new AutomationController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Automation rule routes
+router.post('/create-rule', (req, res) => automationController.createRule(req, res));
+router.get('/get-rules', (req, res) => automationController.getRules(req, res));
+router.get('/get-rule/:id', (req, res) => automationController.getRule(req, res));
+router.put('/update-rule/:id', (req, res) => automationController.updateRule(req, res));
+router.delete('/delete-rule/:id', (req, res) => automationController.deleteRule(req, res));
+
+// Evaluation log routes
+router.get('/get-evaluations', (req, res) => automationController.getEvaluations(req, res));
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { CommandController } from '../controller/command.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const commandController: CommandController = new CommandController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Command routes
+router.post('/send-command', (req, res) => commandController.sendCommand(req, res));
+router.get('/get-commands', (req, res) => commandController.getCommands(req, res));
+router.get('/get-command/:id', (req, res) => commandController.getCommand(req, res));
+
+export default router;
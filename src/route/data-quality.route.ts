@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { DataQualityController } from '../controller/data-quality.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const dataQualityController: DataQualityController = new DataQualityController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Data-quality rule routes
+router.post('/create-rule', (req, res) => dataQualityController.createRule(req, res));
+router.get('/get-rules', (req, res) => dataQualityController.getRules(req, res));
+router.put('/update-rule/:id', (req, res) => dataQualityController.updateRule(req, res));
+router.delete('/delete-rule/:id', (req, res) => dataQualityController.deleteRule(req, res));
+
+// Data-quality event routes
+router.get('/get-events', (req, res) => dataQualityController.getEvents(req, res));
+
+export default router;
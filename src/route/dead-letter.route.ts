@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { DeadLetterController } from '../controller/dead-letter.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router: Router = Router();
+const deadLetterController: DeadLetterController = new DeadLetterController();
+
+// All routes require an administrator
+router.use(authMiddleware);
+router.use(adminMiddleware);
+
+// Dead letter routes
+router.get('/get-dead-letters', (req, res) => deadLetterController.getDeadLetters(req, res));
+router.get('/get-dead-letter/:id', (req, res) => deadLetterController.getDeadLetter(req, res));
+router.post('/replay-dead-letter/:id', (req, res) => deadLetterController.replayDeadLetter(req, res));
+router.post('/replay-dead-letters', (req, res) => deadLetterController.replayDeadLetters(req, res));
+router.delete('/delete-dead-letter/:id', (req, res) => deadLetterController.deleteDeadLetter(req, res));
+router.delete('/purge-dead-letters', (req, res) => deadLetterController.purgeDeadLetters(req, res));
+
+export default router;
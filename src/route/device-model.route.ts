@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { DeviceModelController } from '../controller/device-model.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router: Router = Router();
+const deviceModelController: DeviceModelController = new DeviceModelController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Device model routes, models are shared by all users so changes require an administrator
+router.get('/get-models', (req, res) => deviceModelController.getAllModels(req, res));
+router.get('/get-model/:id', (req, res) => deviceModelController.getModel(req, res));
+router.post('/create-model', adminMiddleware, (req, res) => deviceModelController.createModel(req, res));
+router.put('/update-model/:id', adminMiddleware, (req, res) => deviceModelController.updateModel(req, res));
+router.delete('/delete-model/:id', adminMiddleware, (req, res) => deviceModelController.deleteModel(req, res));
+
+export default router;
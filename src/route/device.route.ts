@@ -17,4 +17,20 @@ router.get('/get-device/:id', (req, res) => deviceController.getDevice(req, res)
 // Get all devices
 router.get('/get-devices', (req, res) => deviceController.getAllDevices(req, res));
 
+// Assign a device model to a device
+router.put('/assign-model/:id', (req, res) => deviceController.assignModel(req, res));
+
+// Replace or change the number and name of a device
+router.put('/update-device/:id', (req, res) => deviceController.updateDevice(req, res));
+router.patch('/update-device/:id', (req, res) => deviceController.patchDevice(req, res));
+
+// Soft-delete a device and its zones
+router.delete('/delete-device/:id', (req, res) => deviceController.deleteDevice(req, res));
+
+// Restore a soft-deleted device
+router.post('/restore-device/:id', (req, res) => deviceController.restoreDevice(req, res));
+
+// Get the soft-deleted devices
+router.get('/get-deleted-devices', (req, res) => deviceController.getDeletedDevices(req, res));
+
 export default router;
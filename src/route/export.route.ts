@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ExportController } from '../controller/export.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const exportController: ExportController = new ExportController();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+// Export routes
+router.get('/export-readings', (req, res) => exportController.exportReadings(req, res));
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ImportController } from '../controller/import.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const importController: ImportController = new ImportController();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+// Import routes
+router.post('/import-readings', (req, res) => importController.importReadings(req, res));
+
+export default router;
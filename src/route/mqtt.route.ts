@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { MqttController } from '../controller/mqtt.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router: Router = Router();
+const mqttController: MqttController = new MqttController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Subscription routes
+router.get('/get-subscriptions', adminMiddleware, (req, res) => mqttController.getSubscriptions(req, res));
+router.post('/sync-subscriptions', adminMiddleware, (req, res) => mqttController.syncSubscriptions(req, res));
+
+// Ingestion routes
+router.get('/get-ingestion-stats', (req, res) => mqttController.getIngestionStats(req, res));
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { NotificationController } from '../controller/notification.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const notificationController: NotificationController = new NotificationController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Inbox routes
+router.get('/get-inbox', (req, res) => notificationController.getInbox(req, res));
+router.post('/mark-read/:id', (req, res) => notificationController.markRead(req, res));
+router.post('/mark-all-read', (req, res) => notificationController.markAllRead(req, res));
+
+// Preference routes
+router.post('/create-preference', (req, res) => notificationController.createPreference(req, res));
+router.get('/get-preferences', (req, res) => notificationController.getPreferences(req, res));
+router.put('/update-preference/:id', (req, res) => notificationController.updatePreference(req, res));
+router.delete('/delete-preference/:id', (req, res) => notificationController.deletePreference(req, res));
+router.post('/test-preference/:id', (req, res) => notificationController.testPreference(req, res));
+
+// Delivery log routes
+router.get('/get-deliveries', (req, res) => notificationController.getDeliveries(req, res));
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { ProgramController } from '../controller/program.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const programController: ProgramController = new ProgramController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Program routes
+router.post('/create-program', (req, res) => programController.createProgram(req, res));
+router.get('/get-programs', (req, res) => programController.getPrograms(req, res));
+router.get('/get-program/:id', (req, res) => programController.getProgram(req, res));
+router.put('/update-program/:id', (req, res) => programController.updateProgram(req, res));
+router.delete('/delete-program/:id', (req, res) => programController.deleteProgram(req, res));
+
+// Program run routes
+router.get('/get-upcoming-runs/:id', (req, res) => programController.getUpcomingRuns(req, res));
+router.get('/get-runs', (req, res) => programController.getRuns(req, res));
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { RetentionController } from '../controller/retention.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+
+const router: Router = Router();
+const retentionController: RetentionController = new RetentionController();
+
+// All routes require an administrator
+router.use(authMiddleware);
+router.use(adminMiddleware);
+
+// Retention routes
+router.get('/get-policies', (req, res) => retentionController.getPolicies(req, res));
+router.post('/create-policy', (req, res) => retentionController.createPolicy(req, res));
+router.put('/update-policy/:id', (req, res) => retentionController.updatePolicy(req, res));
+router.delete('/delete-policy/:id', (req, res) => retentionController.deletePolicy(req, res));
+router.post('/run-retention', (req, res) => retentionController.runRetention(req, res));
+
+export default router;
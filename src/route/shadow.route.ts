@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ShadowController } from '../controller/shadow.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const shadowController: ShadowController = new ShadowController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Device shadow routes
+router.get('/get-shadow/:zoneId', (req, res) => shadowController.getShadow(req, res));
+router.get('/get-shadows', (req, res) => shadowController.getShadows(req, res));
+router.put('/update-desired/:zoneId', (req, res) => shadowController.updateDesired(req, res));
+router.post('/resync/:zoneId', (req, res) => shadowController.resync(req, res));
+
+export default router;
@@ -9,15 +9,18 @@ const topicController = new TopicController();
 router.use(authMiddleware);
 
 // Get all topics
-router.get('/fetch-topics', topicController.getAllTopics);
+router.get('/fetch-topics', (req, res) => topicController.getAllTopics(req, res));
 
 // Get specific topic by ID
-router.get('/fetch-topic/:id', topicController.getTopicById);
+router.get('/fetch-topic/:id', (req, res) => topicController.getTopicById(req, res));
 
 // Get latest data for a specific topic
-router.get('/:id/data', topicController.getTopicLatestData);
+router.get('/:id/data', (req, res) => topicController.getTopicLatestData(req, res));
 
 // Get historical data for a specific topic by name
-router.get('/name/:name/history', topicController.getTopicHistoricalData);
+router.get('/name/:name/history', (req, res) => topicController.getTopicHistoricalData(req, res));
+
+// Get bucketed statistics of a topic over a time range
+router.get('/name/:name/aggregate', (req, res) => topicController.getTopicAggregatedData(req, res));
 
 export default router;
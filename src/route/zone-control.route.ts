@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { ZoneControlController } from '../controller/zone-control.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const zoneControlController: ZoneControlController = new ZoneControlController();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Zone control routes
+router.put('/set-control/:zoneId', (req, res) => zoneControlController.setControl(req, res));
+router.get('/get-control/:zoneId', (req, res) => zoneControlController.getControl(req, res));
+router.get('/get-history/:zoneId', (req, res) => zoneControlController.getHistory(req, res));
+
+export default router;
@@ -12,5 +12,10 @@ router.use(authMiddleware);
 router.post('/create-zone', (req, res) => zoneController.createZone(req, res));
 router.get('/get-zone/:id', (req, res) => zoneController.getZoneById(req, res));
 router.get('/get-zones', (req, res) => zoneController.getAllZones(req, res));
+router.put('/update-zone/:id', (req, res) => zoneController.updateZone(req, res));
+router.patch('/update-zone/:id', (req, res) => zoneController.patchZone(req, res));
+router.delete('/delete-zone/:id', (req, res) => zoneController.deleteZone(req, res));
+router.post('/restore-zone/:id', (req, res) => zoneController.restoreZone(req, res));
+router.get('/get-deleted-zones', (req, res) => zoneController.getDeletedZones(req, res));
 
 export default router;
@@ -0,0 +1,551 @@
+import { Between, FindOptionsWhere, In, LessThanOrEqual, MoreThanOrEqual, Not, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { AlertRule } from '../entity/alert-rule.entity';
+import { Alert, AlertStatus } from '../entity/alert.entity';
+import { AlertEvent } from '../entity/alert-event.entity';
+import { Zone } from '../entity/zone.entity';
+import { createAlertRuleRequest, updateAlertRuleRequest } from '../dto/request/alert.request';
+import { AlarmStateEvent, AlertAction, AlertComparator, AlertFilter, AlertRuleState } from '../interface/alert.interface';
+import { TelemetryEvent } from '../interface/telemetry.interface';
+import { compareValue, readFieldValue } from '../utils/data-convert.util';
+import { DeviceService } from './device.service';
+import { mqttService } from './mqtt.service';
+import { notificationService } from './notification.service';
+import { webSocketService } from './websocket.service';
+
+const COMPARATOR_SYMBOLS: { [comparator in AlertComparator]: string } = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+  neq: '!='
+};
+
+// How often shelved alarms are checked for an expired shelve time
+const SHELVE_CHECK_INTERVAL_MS = 60 * 1000;
+
+@Singleton
+export class AlertService {
+  private readonly ruleRepository: Repository<AlertRule>;
+  private readonly alertRepository: Repository<Alert>;
+  private readonly eventRepository: Repository<AlertEvent>;
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly deviceService: DeviceService;
+
+  // Enabled rules per zone ID, loaded on first use
+  private rulesByZone: Map<string, AlertRule[]> | null = null;
+  private readonly states: Map<string, AlertRuleState> = new Map();
+  // Evaluations run one after another so a breach never raises two alarms
+  private evaluating: Promise<void> = Promise.resolve();
+  private shelveTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.ruleRepository = AppDataSource.getRepository(AlertRule);
+    this.alertRepository = AppDataSource.getRepository(Alert);
+    this.eventRepository = AppDataSource.getRepository(AlertEvent);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Initialize alerting - should be called after database is ready
+   * Picks up alarms left open by a previous run, evaluates every telemetry message
+   * and starts the check for expired shelve times
+   */
+  public async initialize(): Promise<void> {
+    const openAlerts: Alert[] = await this.alertRepository.find({ where: { status: Not(AlertStatus.CLEARED) } });
+    for (const alert of openAlerts) {
+      this.states.set(alert.ruleId, { activeAlertId: alert.id });
+    }
+
+    mqttService.addTelemetryListener((event: TelemetryEvent) => {
+      this.evaluating = this.evaluating
+        .then(() => this.evaluate(event))
+        .catch((error: unknown) => console.error(`Failed to evaluate alert rules for topic ${event.topicName}:`, error));
+      return this.evaluating;
+    });
+
+    // Deleting, restoring or moving a zone changes which rules apply and the device they belong to
+    this.deviceService.addChangeListener(() => {
+      this.rulesByZone = null;
+    });
+
+    if (!this.shelveTimer) {
+      this.shelveTimer = setInterval(() => {
+        this.unshelveExpired();
+      }, SHELVE_CHECK_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Create an alert rule on a zone of a device the user has access to
+   * @param request Alert rule creation request
+   * @param userId Authenticated user ID
+   * @returns Created alert rule
+   */
+  public async createRule(request: createAlertRuleRequest, userId: string): Promise<AlertRule> {
+    const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: request.zoneId } });
+    if (!zone) {
+      throw new Error('Zone not found');
+    }
+
+    // Throws if the device does not exist or the user has no access to it
+    await this.deviceService.getDeviceById(zone.deviceId, userId);
+
+    const rule: AlertRule = new AlertRule();
+    rule.zoneId = zone.id;
+    rule.deviceId = zone.deviceId;
+    rule.name = request.name;
+    rule.field = request.field;
+    rule.channel = request.channel ?? 0;
+    rule.comparator = request.comparator;
+    rule.threshold = request.threshold;
+    rule.durationSeconds = request.durationSeconds ?? 0;
+    rule.hysteresis = request.hysteresis ?? 0;
+    rule.severity = request.severity ?? 'warning';
+    rule.enabled = request.enabled ?? true;
+    rule.createdBy = userId;
+
+    const savedRule: AlertRule = await this.ruleRepository.save(rule);
+    this.rulesByZone = null;
+
+    return savedRule;
+  }
+
+  /**
+   * Update an alert rule
+   * An open alarm of the rule stays open until the updated condition clears it
+   * @param id Alert rule ID
+   * @param request Alert rule update request
+   * @param userId Authenticated user ID
+   * @returns Updated alert rule
+   */
+  public async updateRule(id: string, request: updateAlertRuleRequest, userId: string): Promise<AlertRule> {
+    const rule: AlertRule = await this.getRuleById(id, userId);
+
+    if (request.name !== undefined) rule.name = request.name;
+    if (request.field !== undefined) rule.field = request.field;
+    if (request.channel !== undefined) rule.channel = request.channel;
+    if (request.comparator !== undefined) rule.comparator = request.comparator;
+    if (request.threshold !== undefined) rule.threshold = request.threshold;
+    if (request.durationSeconds !== undefined) rule.durationSeconds = request.durationSeconds;
+    if (request.hysteresis !== undefined) rule.hysteresis = request.hysteresis;
+    if (request.severity !== undefined) rule.severity = request.severity;
+    if (request.enabled !== undefined) rule.enabled = request.enabled;
+
+    const savedRule: AlertRule = await this.ruleRepository.save(rule);
+    this.rulesByZone = null;
+
+    // The pending duration restarts under the new condition
+    const state: AlertRuleState | undefined = this.states.get(rule.id);
+    if (state) state.breachedSince = undefined;
+
+    return savedRule;
+  }
+
+  /**
+   * Delete an alert rule and clear its open alarm
+   * @param id Alert rule ID
+   * @param userId Authenticated user ID
+   */
+  public async deleteRule(id: string, userId: string): Promise<void> {
+    const rule: AlertRule = await this.getRuleById(id, userId);
+
+    const activeAlertId: string | undefined = this.states.get(rule.id)?.activeAlertId;
+    if (activeAlertId) {
+      await this.clearAlert(activeAlertId, null, new Date(), userId, 'Alert rule deleted');
+    }
+
+    await this.ruleRepository.softDelete(rule.id);
+    this.states.delete(rule.id);
+    this.rulesByZone = null;
+  }
+
+  /**
+   * Get an alert rule of a device the user has access to
+   * @param id Alert rule ID
+   * @param userId Authenticated user ID
+   * @returns The alert rule
+   */
+  public async getRuleById(id: string, userId: string): Promise<AlertRule> {
+    const rule: AlertRule | null = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new Error('Alert rule not found');
+    }
+
+    await this.deviceService.getDeviceById(rule.deviceId, userId);
+    return rule;
+  }
+
+  /**
+   * Get the alert rules of a device
+   * @param deviceId Device ID
+   * @param userId Authenticated user ID
+   * @param zoneId Optional zone to filter on
+   * @returns Alert rules
+   */
+  public async getRules(deviceId: string, userId: string, zoneId?: string): Promise<AlertRule[]> {
+    await this.deviceService.getDeviceById(deviceId, userId);
+
+    return await this.ruleRepository.find({
+      where: zoneId ? { deviceId, zoneId } : { deviceId },
+      order: { createdAt: 'ASC' }
+    });
+  }
+
+  /**
+   * Get the alarm history of a device
+   * @param filter Device with optional zone, rule, status, severity, time range and limit
+   * @param userId Authenticated user ID
+   * @returns Alerts, newest first
+   */
+  public async getAlerts(filter: AlertFilter, userId: string): Promise<Alert[]> {
+    await this.deviceService.getDeviceById(filter.deviceId, userId);
+
+    const where: FindOptionsWhere<Alert> = { deviceId: filter.deviceId };
+    if (filter.zoneId) where.zoneId = filter.zoneId;
+    if (filter.ruleId) where.ruleId = filter.ruleId;
+    if (filter.statuses?.length) where.status = In(filter.statuses as AlertStatus[]);
+    if (filter.severity) where.severity = filter.severity as Alert['severity'];
+    if (filter.from && filter.to) where.triggeredAt = Between(filter.from, filter.to);
+    else if (filter.from) where.triggeredAt = MoreThanOrEqual(filter.from);
+    else if (filter.to) where.triggeredAt = LessThanOrEqual(filter.to);
+
+    return await this.alertRepository.find({
+      where,
+      order: { triggeredAt: 'DESC' },
+      take: filter.limit ?? 100
+    });
+  }
+
+  /**
+   * Get an alert with its acknowledgements, shelves and comments
+   * @param id Alert ID
+   * @param userId Authenticated user ID
+   * @returns The alert with its events, oldest first
+   */
+  public async getAlertById(id: string, userId: string): Promise<Alert> {
+    const alert: Alert | null = await this.alertRepository.findOne({
+      where: { id },
+      relations: ['events'],
+      order: { events: { createdAt: 'ASC' } }
+    });
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+
+    await this.deviceService.getDeviceById(alert.deviceId, userId);
+    return alert;
+  }
+
+  /**
+   * Acknowledge an alarm
+   * A shelved alarm stays shelved and returns as acknowledged once the shelve time passes
+   * @param id Alert ID
+   * @param userId Authenticated user ID
+   * @param comment Optional comment
+   * @returns The updated alert
+   */
+  public async acknowledgeAlert(id: string, userId: string, comment?: string): Promise<Alert> {
+    const alert: Alert = await this.getOpenAlert(id, userId);
+    if (alert.acknowledgedAt) {
+      throw new Error('Alarm is already acknowledged');
+    }
+
+    alert.acknowledgedBy = userId;
+    alert.acknowledgedAt = new Date();
+    const status: AlertStatus = alert.status === AlertStatus.SHELVED ? AlertStatus.SHELVED : AlertStatus.ACKNOWLEDGED;
+
+    return await this.transition(alert, status, 'acknowledged', userId, comment);
+  }
+
+  /**
+   * Shelve an alarm until the given time
+   * @param id Alert ID
+   * @param userId Authenticated user ID
+   * @param until When the alarm returns
+   * @param comment Optional comment
+   * @returns The updated alert
+   */
+  public async shelveAlert(id: string, userId: string, until: Date, comment?: string): Promise<Alert> {
+    const alert: Alert = await this.getOpenAlert(id, userId);
+
+    alert.shelvedBy = userId;
+    alert.shelvedUntil = until;
+
+    return await this.transition(alert, AlertStatus.SHELVED, 'shelved', userId, comment);
+  }
+
+  /**
+   * Return a shelved alarm before its shelve time passed
+   * @param id Alert ID
+   * @param userId Authenticated user ID
+   * @param comment Optional comment
+   * @returns The updated alert
+   */
+  public async unshelveAlert(id: string, userId: string, comment?: string): Promise<Alert> {
+    const alert: Alert = await this.getOpenAlert(id, userId);
+    if (alert.status !== AlertStatus.SHELVED) {
+      throw new Error('Alarm is not shelved');
+    }
+
+    return await this.unshelve(alert, userId, comment);
+  }
+
+  /**
+   * Add a comment to an alarm, cleared alarms included
+   * @param id Alert ID
+   * @param userId Authenticated user ID
+   * @param comment The comment
+   * @returns The alert
+   */
+  public async commentAlert(id: string, userId: string, comment: string): Promise<Alert> {
+    const alert: Alert = await this.getAlertById(id, userId);
+    return await this.transition(alert, alert.status, 'commented', userId, comment);
+  }
+
+  /**
+   * Evaluates the rules of the zone of a telemetry message
+   * A rule raises an alarm once its condition held for its duration and clears it once
+   * the value moved back past the threshold by the hysteresis, whatever the alarm state
+   * @param event The telemetry event
+   */
+  private async evaluate(event: TelemetryEvent): Promise<void> {
+    if (!event.zoneId) return;
+
+    const rules: AlertRule[] = (await this.getRulesByZone()).get(event.zoneId) || [];
+    for (const rule of rules) {
+      const value: number | null = readFieldValue(event.processedData, rule.field, rule.channel);
+      if (value === null) continue;
+
+      let state: AlertRuleState | undefined = this.states.get(rule.id);
+      if (!state) {
+        state = {};
+        this.states.set(rule.id, state);
+      }
+
+      if (state.activeAlertId) {
+        if (this.isCleared(rule, value)) {
+          await this.clearAlert(state.activeAlertId, value, event.receivedAt);
+          state.activeAlertId = undefined;
+          state.breachedSince = undefined;
+        }
+        continue;
+      }
+
+      if (!compareValue(rule.comparator, value, rule.threshold)) {
+        state.breachedSince = undefined;
+        continue;
+      }
+
+      state.breachedSince = state.breachedSince ?? event.receivedAt;
+      if (event.receivedAt.getTime() - state.breachedSince.getTime() >= rule.durationSeconds * 1000) {
+        const alert: Alert = await this.raiseAlert(rule, event, value);
+        state.activeAlertId = alert.id;
+        state.breachedSince = undefined;
+      }
+    }
+  }
+
+  /**
+   * Stores a new alarm and notifies the users of its device
+   */
+  private async raiseAlert(rule: AlertRule, event: TelemetryEvent, value: number): Promise<Alert> {
+    const alert: Alert = new Alert();
+    alert.ruleId = rule.id;
+    alert.deviceId = rule.deviceId;
+    alert.zoneId = rule.zoneId;
+    alert.topic = event.topicName;
+    alert.field = rule.field;
+    alert.channel = rule.channel;
+    alert.comparator = rule.comparator;
+    alert.threshold = rule.threshold;
+    alert.severity = rule.severity;
+    alert.value = value;
+    alert.message = `${rule.name || rule.field}: ${rule.field}[${rule.channel}] is ${value}, ` +
+      `${COMPARATOR_SYMBOLS[rule.comparator]} ${rule.threshold}`;
+    alert.triggeredAt = event.receivedAt;
+
+    const savedAlert: Alert = await this.transition(alert, AlertStatus.ACTIVE, 'raised');
+    console.log(`Alarm raised for zone ${rule.zoneId}: ${savedAlert.message}`);
+
+    return savedAlert;
+  }
+
+  /**
+   * Marks an open alarm as cleared
+   * @param alertId Alert ID
+   * @param value Value that cleared the alarm, null when its rule was removed
+   * @param clearedAt When the alarm cleared
+   * @param userId User who removed the rule, if any
+   * @param comment Why the alarm cleared, if not by its condition
+   */
+  private async clearAlert(
+    alertId: string,
+    value: number | null,
+    clearedAt: Date,
+    userId?: string,
+    comment?: string
+  ): Promise<void> {
+    const alert: Alert | null = await this.alertRepository.findOne({ where: { id: alertId } });
+    if (!alert || alert.status === AlertStatus.CLEARED) return;
+
+    alert.clearedValue = value;
+    alert.clearedAt = clearedAt;
+
+    await this.transition(alert, AlertStatus.CLEARED, 'cleared', userId, comment);
+  }
+
+  /**
+   * Returns shelved alarms whose shelve time passed
+   */
+  private async unshelveExpired(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      const expired: Alert[] = await this.alertRepository.find({
+        where: { status: AlertStatus.SHELVED, shelvedUntil: LessThanOrEqual(new Date()) }
+      });
+      for (const alert of expired) {
+        await this.unshelve(alert);
+      }
+    } catch (error) {
+      console.error('Failed to unshelve expired alarms:', error);
+    }
+  }
+
+  /**
+   * Returns a shelved alarm to acknowledged if it was acknowledged before, otherwise to active
+   */
+  private async unshelve(alert: Alert, userId?: string, comment?: string): Promise<Alert> {
+    alert.shelvedBy = null;
+    alert.shelvedUntil = null;
+    const status: AlertStatus = alert.acknowledgedAt ? AlertStatus.ACKNOWLEDGED : AlertStatus.ACTIVE;
+
+    return await this.transition(alert, status, 'unshelved', userId, comment);
+  }
+
+  /**
+   * Persists an alarm state change with its event and notifies the users of the device
+   * @param alert The alert with its changes applied
+   * @param status Status after the action
+   * @param action What happened
+   * @param userId User who took the action, if any
+   * @param comment Optional comment
+   * @returns The saved alert
+   */
+  private async transition(
+    alert: Alert,
+    status: AlertStatus,
+    action: AlertAction,
+    userId?: string,
+    comment?: string
+  ): Promise<Alert> {
+    const previousStatus: AlertStatus | undefined = alert.id ? alert.status : undefined;
+    alert.status = status;
+
+    const savedAlert: Alert = await this.alertRepository.save(alert);
+
+    const event: AlertEvent = new AlertEvent();
+    event.alertId = savedAlert.id;
+    event.action = action;
+    event.status = status;
+    event.userId = userId ?? null;
+    event.comment = comment ?? null;
+    await this.eventRepository.save(event);
+
+    await this.broadcastAlarmState(savedAlert, {
+      alertId: savedAlert.id,
+      ruleId: savedAlert.ruleId,
+      deviceId: savedAlert.deviceId,
+      zoneId: savedAlert.zoneId,
+      action,
+      status,
+      previousStatus,
+      userId,
+      comment,
+      severity: savedAlert.severity,
+      message: savedAlert.message,
+      value: action === 'cleared' ? savedAlert.clearedValue : savedAlert.value,
+      shelvedUntil: savedAlert.shelvedUntil
+    });
+
+    if (action === 'raised' || action === 'cleared') {
+      await notificationService.notify({
+        deviceId: savedAlert.deviceId,
+        zoneId: savedAlert.zoneId,
+        severity: savedAlert.severity,
+        title: action === 'raised' ? 'Alarm raised' : 'Alarm cleared',
+        message: savedAlert.message,
+        source: 'alarm',
+        sourceId: savedAlert.id,
+        data: { ruleId: savedAlert.ruleId, status, value: action === 'cleared' ? savedAlert.clearedValue : savedAlert.value }
+      });
+    }
+
+    return savedAlert;
+  }
+
+  /**
+   * Get an alarm that has not cleared yet
+   */
+  private async getOpenAlert(id: string, userId: string): Promise<Alert> {
+    const alert: Alert = await this.getAlertById(id, userId);
+    if (alert.status === AlertStatus.CLEARED) {
+      throw new Error('Alarm is already cleared');
+    }
+    return alert;
+  }
+
+  /**
+   * The condition no longer holds once the value is past the threshold shifted by the hysteresis
+   */
+  private isCleared(rule: AlertRule, value: number): boolean {
+    switch (rule.comparator) {
+      case 'gt':
+      case 'gte':
+        return !compareValue(rule.comparator, value, rule.threshold - rule.hysteresis);
+      case 'lt':
+      case 'lte':
+        return !compareValue(rule.comparator, value, rule.threshold + rule.hysteresis);
+      default:
+        return !compareValue(rule.comparator, value, rule.threshold);
+    }
+  }
+
+  private async getRulesByZone(): Promise<Map<string, AlertRule[]>> {
+    if (!this.rulesByZone) {
+      const rulesByZone: Map<string, AlertRule[]> = new Map();
+      // Rules of deleted zones are left out, the join skips soft-deleted zones
+      const rules: AlertRule[] = await this.ruleRepository.createQueryBuilder('rule')
+        .innerJoin('rule.zone', 'zone')
+        .where({ enabled: true })
+        .getMany();
+      for (const rule of rules) {
+        rulesByZone.set(rule.zoneId, [...(rulesByZone.get(rule.zoneId) || []), rule]);
+      }
+      this.rulesByZone = rulesByZone;
+    }
+    return this.rulesByZone;
+  }
+
+  /**
+   * Pushes an alarm to the zone room it belongs to and its state change to the users with access to its device
+   */
+  private async broadcastAlarmState(alert: Alert, event: AlarmStateEvent): Promise<void> {
+    if (!webSocketService.isInitialized()) return;
+
+    webSocketService.broadcastToZoneRoom(alert.topic, 'alert', alert);
+    try {
+      const userIds: string[] = await this.deviceService.getDeviceUserIds(event.deviceId);
+      webSocketService.broadcastToUsers(userIds, 'alarmState', event);
+    } catch (error) {
+      console.error(`Failed to broadcast state of alarm ${event.alertId}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const alertService = new AlertService();
@@ -0,0 +1,733 @@
+import { Between, FindOptionsWhere, In, LessThan, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { automationConfig } from '../config/automation.config';
+import { AutomationRule } from '../entity/automation-rule.entity';
+import { AutomationEvaluation } from '../entity/automation-evaluation.entity';
+import { AutomationStop } from '../entity/automation-stop.entity';
+import { Command, CommandStatus } from '../entity/command.entity';
+import { Topic } from '../entity/topic.entity';
+import { Zone } from '../entity/zone.entity';
+import { createAutomationRuleRequest, updateAutomationRuleRequest } from '../dto/request/automation.request';
+import { AlertComparator, AlertSeverity } from '../interface/alert.interface';
+import {
+  ActionResult,
+  AutomationAction,
+  AutomationCommandAction,
+  AutomationCondition,
+  AutomationConditionLeaf,
+  AutomationEvaluationFilter,
+  AutomationOutcome,
+  ConditionResult
+} from '../interface/automation.interface';
+import { TelemetryEvent } from '../interface/telemetry.interface';
+import { compareValue, readFieldValue } from '../utils/data-convert.util';
+import { isValidTimeZone } from '../utils/quiet-hours.util';
+import { getLocalDate } from '../utils/schedule.util';
+import { commandService } from './command.service';
+import { DeviceService } from './device.service';
+import { mqttService } from './mqtt.service';
+import { notificationService } from './notification.service';
+import { zoneControlService } from './zone-control.service';
+
+const COMPARATORS: AlertComparator[] = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+// Most comparisons in the condition tree of one rule
+const MAX_CONDITIONS = 20;
+// Due stops sent per query
+const STOP_BATCH_SIZE = 100;
+
+@Singleton
+export class AutomationService {
+  private readonly ruleRepository: Repository<AutomationRule>;
+  private readonly evaluationRepository: Repository<AutomationEvaluation>;
+  private readonly stopRepository: Repository<AutomationStop>;
+  private readonly topicRepository: Repository<Topic>;
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly deviceService: DeviceService;
+
+  // Enabled rules per zone ID they have a condition on, loaded on first use
+  private rulesByZone: Map<string, AutomationRule[]> | null = null;
+  // Latest processed telemetry per zone ID
+  private readonly latest: Map<string, { data: Record<string, any>, receivedAt: Date }> = new Map();
+  // Since when each comparison holds, keyed by rule ID and position in the condition tree
+  private readonly heldSince: Map<string, Date> = new Map();
+  // Rules that fired and whose conditions have stayed met since, they fire again once the conditions clear
+  private readonly firedWhileMet: Set<string> = new Set();
+  // Evaluations run one after another so a rule never fires twice for one condition
+  private evaluating: Promise<void> = Promise.resolve();
+  private stopTimer: NodeJS.Timeout | null = null;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private sendingStops: Promise<void> | null = null;
+
+  constructor() {
+    this.ruleRepository = AppDataSource.getRepository(AutomationRule);
+    this.evaluationRepository = AppDataSource.getRepository(AutomationEvaluation);
+    this.stopRepository = AppDataSource.getRepository(AutomationStop);
+    this.topicRepository = AppDataSource.getRepository(Topic);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Initialize automation - should be called after database and MQTT are ready
+   * Seeds the latest values from the stored topics, evaluates rules on every telemetry message
+   * and starts sending stop commands, including those that fell due while the service was down
+   */
+  public async initialize(): Promise<void> {
+    const rulesByZone: Map<string, AutomationRule[]> = await this.getRulesByZone();
+    if (rulesByZone.size > 0) {
+      const topics: Topic[] = await this.topicRepository.find({ where: { zoneId: In(Array.from(rulesByZone.keys())) } });
+      for (const topic of topics) {
+        if (topic.zoneId && topic.processedData && topic.lastReceivedAt) {
+          this.latest.set(topic.zoneId, { data: topic.processedData, receivedAt: topic.lastReceivedAt });
+        }
+      }
+    }
+
+    this.deviceService.addDeleteListener((zoneIds: string[]) => this.sendZoneStops(zoneIds));
+
+    mqttService.addTelemetryListener((event: TelemetryEvent) => {
+      this.evaluating = this.evaluating
+        .then(() => this.evaluate(event))
+        .catch((error: unknown) => console.error(`Failed to evaluate automation rules for topic ${event.topicName}:`, error));
+      return this.evaluating;
+    });
+
+    if (!this.stopTimer) {
+      this.stopTimer = setInterval(() => {
+        this.sendDueStops();
+      }, automationConfig.stopCheckIntervalMs);
+    }
+    if (!this.purgeTimer) {
+      this.purgeTimer = setInterval(() => {
+        this.purgeEvaluations();
+      }, automationConfig.purgeIntervalMs);
+    }
+    await this.sendDueStops();
+  }
+
+  /**
+   * Stop the stop-command and purge timers, due stops are sent after the next initialize
+   */
+  public stop(): void {
+    if (this.stopTimer) {
+      clearInterval(this.stopTimer);
+      this.stopTimer = null;
+    }
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  /**
+   * Create an automation rule on the zones of a device the user has access to
+   * @param request Automation rule creation request
+   * @param userId Authenticated user ID, commands of the rule are issued as this user
+   * @returns Created rule
+   */
+  public async createRule(request: createAutomationRuleRequest, userId: string): Promise<AutomationRule> {
+    // Throws if the device does not exist or the user has no access to it
+    await this.deviceService.getDeviceById(request.deviceId, userId);
+
+    const rule: AutomationRule = new AutomationRule();
+    rule.userId = userId;
+    rule.deviceId = request.deviceId;
+    rule.name = request.name;
+    rule.condition = request.condition;
+    rule.actions = request.actions;
+    rule.cooldownSeconds = request.cooldownSeconds ?? 0;
+    rule.maxRunsPerDay = request.maxRunsPerDay ?? null;
+    rule.timeZone = request.timeZone ?? 'UTC';
+    rule.enabled = request.enabled ?? true;
+    rule.runsToday = 0;
+    await this.validateRule(rule);
+
+    const savedRule: AutomationRule = await this.ruleRepository.save(rule);
+    this.rulesByZone = null;
+
+    return savedRule;
+  }
+
+  /**
+   * Update an automation rule, the durations of its conditions start over
+   * @param id Rule ID
+   * @param request Automation rule update request
+   * @param userId Authenticated user ID
+   * @returns Updated rule
+   */
+  public async updateRule(id: string, request: updateAutomationRuleRequest, userId: string): Promise<AutomationRule> {
+    const rule: AutomationRule = await this.getRuleById(id, userId);
+
+    if (request.name !== undefined) rule.name = request.name;
+    if (request.condition !== undefined) rule.condition = request.condition;
+    if (request.actions !== undefined) rule.actions = request.actions;
+    if (request.cooldownSeconds !== undefined) rule.cooldownSeconds = request.cooldownSeconds;
+    if (request.maxRunsPerDay !== undefined) rule.maxRunsPerDay = request.maxRunsPerDay;
+    if (request.timeZone !== undefined) rule.timeZone = request.timeZone;
+    if (request.enabled !== undefined) rule.enabled = request.enabled;
+    await this.validateRule(rule);
+
+    const savedRule: AutomationRule = await this.ruleRepository.save(rule);
+    this.rulesByZone = null;
+    this.forgetHolds(rule.id);
+
+    return savedRule;
+  }
+
+  /**
+   * Delete an automation rule and its evaluation log
+   * Pending stop commands are sent first, so a zone is not left e.g. with a running pump
+   * @param id Rule ID
+   * @param userId Authenticated user ID
+   */
+  public async deleteRule(id: string, userId: string): Promise<void> {
+    const rule: AutomationRule = await this.getRuleById(id, userId);
+
+    const pending: AutomationStop[] = await this.stopRepository.find({ where: { ruleId: rule.id, status: 'pending' } });
+    for (const stop of pending) {
+      await this.sendStop(stop, rule);
+    }
+
+    await this.ruleRepository.delete(rule.id);
+    this.rulesByZone = null;
+    this.forgetHolds(rule.id);
+  }
+
+  /**
+   * Get an automation rule of a device the user has access to
+   * @param id Rule ID
+   * @param userId Authenticated user ID
+   * @returns The rule
+   */
+  public async getRuleById(id: string, userId: string): Promise<AutomationRule> {
+    const rule: AutomationRule | null = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new Error('Automation rule not found');
+    }
+
+    await this.deviceService.getDeviceById(rule.deviceId, userId);
+    return rule;
+  }
+
+  /**
+   * Get the automation rules of a device
+   * @param deviceId Device ID
+   * @param userId Authenticated user ID
+   * @returns Rules
+   */
+  public async getRules(deviceId: string, userId: string): Promise<AutomationRule[]> {
+    await this.deviceService.getDeviceById(deviceId, userId);
+
+    return await this.ruleRepository.find({
+      where: { deviceId },
+      order: { name: 'ASC', createdAt: 'ASC' }
+    });
+  }
+
+  /**
+   * Get the evaluation log of the automation rules of a device
+   * @param filter Device with optional rule, outcome, time range and limit
+   * @param userId Authenticated user ID
+   * @returns Evaluations, newest first
+   */
+  public async getEvaluations(filter: AutomationEvaluationFilter, userId: string): Promise<AutomationEvaluation[]> {
+    await this.deviceService.getDeviceById(filter.deviceId, userId);
+
+    const where: FindOptionsWhere<AutomationEvaluation> = { deviceId: filter.deviceId };
+    if (filter.ruleId) where.ruleId = filter.ruleId;
+    if (filter.outcome) where.outcome = filter.outcome as AutomationOutcome;
+    if (filter.from && filter.to) where.evaluatedAt = Between(filter.from, filter.to);
+    else if (filter.from) where.evaluatedAt = MoreThanOrEqual(filter.from);
+    else if (filter.to) where.evaluatedAt = LessThanOrEqual(filter.to);
+
+    return await this.evaluationRepository.find({
+      where,
+      order: { evaluatedAt: 'DESC' },
+      take: filter.limit ?? 100
+    });
+  }
+
+  /**
+   * Evaluates the rules with a condition on the zone of a telemetry message
+   * @param event Telemetry event
+   */
+  private async evaluate(event: TelemetryEvent): Promise<void> {
+    if (!event.zoneId) return;
+
+    this.latest.set(event.zoneId, { data: event.processedData, receivedAt: event.receivedAt });
+
+    const rules: AutomationRule[] = (await this.getRulesByZone()).get(event.zoneId) || [];
+    for (const rule of rules) {
+      try {
+        await this.evaluateRule(rule, event.zoneId, event.receivedAt);
+      } catch (error) {
+        console.error(`Failed to evaluate automation rule ${rule.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Evaluates the conditions of a rule, runs its actions when they become met and the cooldown
+   * and daily cap allow it, and logs the outcome
+   * A rule fires once per stretch the conditions stay met, it fires again after they cleared
+   */
+  private async evaluateRule(rule: AutomationRule, zoneId: string, now: Date): Promise<void> {
+    const conditions: ConditionResult[] = [];
+    const { holds, met } = this.check(rule, rule.condition, 'c', now, conditions);
+
+    const evaluation: AutomationEvaluation = this.evaluationRepository.create({
+      ruleId: rule.id,
+      deviceId: rule.deviceId,
+      zoneId,
+      conditions,
+      evaluatedAt: now
+    });
+
+    const today: string = getLocalDate(now, rule.timeZone);
+    const runsToday: number = rule.runsOn === today ? rule.runsToday : 0;
+
+    if (!met) {
+      this.firedWhileMet.delete(rule.id);
+      evaluation.outcome = holds ? 'pending' : 'not_met';
+    } else if (this.firedWhileMet.has(rule.id)) {
+      // Fires on the conditions becoming met, not on every message while they stay met
+      evaluation.outcome = 'still_met';
+    } else if (rule.lastFiredAt && now.getTime() - rule.lastFiredAt.getTime() < rule.cooldownSeconds * 1000) {
+      evaluation.outcome = 'cooldown';
+    } else if (rule.maxRunsPerDay && runsToday >= rule.maxRunsPerDay) {
+      evaluation.outcome = 'capped';
+    } else if (await this.commandsDeletedZone(rule)) {
+      // Held off until the zone is restored, commands to it would only fail
+      evaluation.outcome = 'zone_deleted';
+    } else if (await this.isOverridden(rule)) {
+      // Held off without counting as a run, the rule fires once the zone is back in auto
+      evaluation.outcome = 'overridden';
+    } else {
+      // Counted before the actions run, so a failure halfway never fires the rule twice
+      rule.lastFiredAt = now;
+      rule.runsToday = runsToday + 1;
+      rule.runsOn = today;
+      this.firedWhileMet.add(rule.id);
+      await this.ruleRepository.update(rule.id, {
+        lastFiredAt: rule.lastFiredAt,
+        runsToday: rule.runsToday,
+        runsOn: rule.runsOn
+      });
+
+      evaluation.outcome = 'fired';
+      const savedEvaluation: AutomationEvaluation = await this.evaluationRepository.save(evaluation);
+
+      const actions: ActionResult[] = await this.runActions(rule, savedEvaluation);
+      await this.evaluationRepository.update(savedEvaluation.id, {
+        actions,
+        outcome: actions.every((action: ActionResult) => action.success) ? 'fired' : 'failed'
+      });
+      return;
+    }
+
+    await this.evaluationRepository.save(evaluation);
+  }
+
+  /**
+   * Evaluates a node of a condition tree
+   * Every child of a group is checked, so the durations of all comparisons keep being tracked
+   * @returns Whether the comparisons hold right now and whether they have held for their durations
+   */
+  private check(
+    rule: AutomationRule,
+    condition: AutomationCondition,
+    path: string,
+    now: Date,
+    results: ConditionResult[]
+  ): { holds: boolean, met: boolean } {
+    if ('operator' in condition) {
+      const children: { holds: boolean, met: boolean }[] = condition.conditions.map(
+        (child: AutomationCondition, index: number) => this.check(rule, child, `${path}.${index}`, now, results)
+      );
+      return condition.operator === 'and'
+        ? { holds: children.every(child => child.holds), met: children.every(child => child.met) }
+        : { holds: children.some(child => child.holds), met: children.some(child => child.met) };
+    }
+
+    const key: string = `${rule.id}:${path}`;
+    const channel: number = condition.channel ?? 0;
+    const value: number | null = this.readLatest(condition, now);
+    const holds: boolean = value !== null && compareValue(condition.comparator, value, condition.value);
+
+    let heldSince: Date | undefined;
+    if (holds) {
+      heldSince = this.heldSince.get(key) ?? now;
+      this.heldSince.set(key, heldSince);
+    } else {
+      this.heldSince.delete(key);
+    }
+    const met: boolean = !!heldSince && now.getTime() - heldSince.getTime() >= (condition.durationSeconds ?? 0) * 1000;
+
+    results.push({
+      zoneId: condition.zoneId,
+      field: condition.field,
+      channel,
+      comparator: condition.comparator,
+      threshold: condition.value,
+      value,
+      holds,
+      met,
+      heldSince
+    });
+    return { holds, met };
+  }
+
+  /**
+   * Latest value of the field of a condition
+   * Values flagged by data-quality checks or older than the maximum age count as missing
+   */
+  private readLatest(condition: AutomationConditionLeaf, now: Date): number | null {
+    const latest: { data: Record<string, any>, receivedAt: Date } | undefined = this.latest.get(condition.zoneId);
+    if (!latest) return null;
+
+    if (condition.maxAgeSeconds && now.getTime() - latest.receivedAt.getTime() > condition.maxAgeSeconds * 1000) {
+      return null;
+    }
+
+    const channel: number = condition.channel ?? 0;
+    const quality: string | undefined = latest.data.quality?.[condition.field]?.[channel];
+    if (quality && quality !== 'good') return null;
+
+    return readFieldValue(latest.data, condition.field, channel);
+  }
+
+  /**
+   * Runs the actions of a fired rule, a failing action does not stop the others
+   */
+  private async runActions(rule: AutomationRule, evaluation: AutomationEvaluation): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+
+    for (const action of rule.actions) {
+      if (action.type === 'notify') {
+        await notificationService.notify({
+          deviceId: rule.deviceId,
+          zoneId: evaluation.zoneId,
+          severity: action.severity,
+          title: action.title || rule.name,
+          message: action.message,
+          source: 'automation',
+          sourceId: evaluation.id,
+          data: { ruleId: rule.id }
+        });
+        results.push({ type: 'notify', success: true });
+        continue;
+      }
+
+      const result: ActionResult = { type: 'command', zoneId: action.zoneId, command: action.command, success: false };
+      try {
+        const command: Command = await commandService.sendCommand(
+          { deviceId: rule.deviceId, zoneId: action.zoneId, command: action.command, payload: action.payload ?? {} },
+          rule.userId,
+          'automation'
+        );
+        result.commandId = command.id;
+        if (command.status === CommandStatus.FAILED) {
+          throw new Error(command.error || 'Command could not be published');
+        }
+
+        if (action.durationSeconds && action.stopCommand) {
+          const stop: AutomationStop = await this.stopRepository.save(this.stopRepository.create({
+            ruleId: rule.id,
+            evaluationId: evaluation.id,
+            deviceId: rule.deviceId,
+            zoneId: action.zoneId,
+            command: action.stopCommand,
+            payload: action.stopPayload ?? null,
+            dueAt: new Date(Date.now() + action.durationSeconds * 1000),
+            status: 'pending'
+          }));
+          result.stopAt = stop.dueAt;
+        }
+        result.success = true;
+      } catch (error: any) {
+        result.error = error.message || String(error);
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Sends the stop commands that are due
+   * Only one round runs at a time so a stop is never sent twice
+   */
+  private sendDueStops(): Promise<void> {
+    if (!this.sendingStops) {
+      this.sendingStops = this.drainStops().finally(() => {
+        this.sendingStops = null;
+      });
+    }
+    return this.sendingStops;
+  }
+
+  private async drainStops(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      while (true) {
+        const due: AutomationStop[] = await this.stopRepository.find({
+          where: { status: 'pending', dueAt: LessThanOrEqual(new Date()) },
+          relations: ['rule'],
+          order: { dueAt: 'ASC' },
+          take: STOP_BATCH_SIZE
+        });
+        for (const stop of due) {
+          await this.sendStop(stop, stop.rule);
+        }
+        if (due.length < STOP_BATCH_SIZE) return;
+      }
+    } catch (error) {
+      console.error('Failed to send automation stop commands:', error);
+    }
+  }
+
+  /**
+   * Sends the pending stop commands of zones about to be deleted, a deleted zone takes no stop command
+   */
+  private async sendZoneStops(zoneIds: string[]): Promise<void> {
+    // A round in progress may be sending the same stops
+    await this.sendingStops;
+
+    const pending: AutomationStop[] = await this.stopRepository.find({
+      where: { zoneId: In(zoneIds), status: 'pending' },
+      relations: ['rule']
+    });
+    for (const stop of pending) {
+      await this.sendStop(stop, stop.rule);
+    }
+  }
+
+  private async sendStop(stop: AutomationStop, rule: AutomationRule): Promise<void> {
+    try {
+      const command: Command = await commandService.sendCommand(
+        { deviceId: stop.deviceId, zoneId: stop.zoneId, command: stop.command, payload: stop.payload ?? {} },
+        rule.userId,
+        'automation'
+      );
+      stop.commandId = command.id;
+      if (command.status === CommandStatus.FAILED) {
+        throw new Error(command.error || 'Stop command could not be published');
+      }
+      stop.status = 'sent';
+    } catch (error: any) {
+      stop.status = 'failed';
+      stop.error = error.message || String(error);
+
+      await notificationService.notify({
+        deviceId: stop.deviceId,
+        zoneId: stop.zoneId,
+        severity: 'critical',
+        title: 'Automation stop command failed',
+        message: `Stop command "${stop.command}" of rule "${rule.name}" could not be sent: ${stop.error}`,
+        source: 'automation',
+        sourceId: stop.evaluationId,
+        data: { ruleId: rule.id, stopId: stop.id }
+      });
+    }
+
+    await this.stopRepository.update(stop.id, { status: stop.status, commandId: stop.commandId, error: stop.error });
+  }
+
+  /**
+   * Whether a zone the rule sends commands to is deleted, together with its device or on its own
+   */
+  private async commandsDeletedZone(rule: AutomationRule): Promise<boolean> {
+    const zoneIds: string[] = Array.from(new Set(rule.actions
+      .filter((action: AutomationAction): action is AutomationCommandAction => action.type === 'command')
+      .map((action: AutomationCommandAction) => action.zoneId)));
+    if (zoneIds.length === 0) return false;
+
+    return await this.zoneRepository.count({ where: { id: In(zoneIds) } }) < zoneIds.length;
+  }
+
+  /**
+   * Whether a zone the rule sends commands to does not take automation commands right now
+   */
+  private async isOverridden(rule: AutomationRule): Promise<boolean> {
+    const zoneIds: string[] = rule.actions
+      .filter((action: AutomationAction): action is AutomationCommandAction => action.type === 'command')
+      .map((action: AutomationCommandAction) => action.zoneId);
+    if (zoneIds.length === 0) return false;
+
+    const zones: Zone[] = await this.zoneRepository.find({ where: { id: In(zoneIds) } });
+    return zones.some((zone: Zone) => {
+      try {
+        zoneControlService.assertCommandAllowed(zone, 'automation', rule.userId);
+        return false;
+      } catch (error) {
+        return true;
+      }
+    });
+  }
+
+  private async purgeEvaluations(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      const cutoff: Date = new Date(Date.now() - automationConfig.evaluationRetentionDays * 24 * 60 * 60 * 1000);
+      await this.evaluationRepository.delete({ evaluatedAt: LessThan(cutoff) });
+    } catch (error) {
+      console.error('Failed to purge automation evaluations:', error);
+    }
+  }
+
+  private forgetHolds(ruleId: string): void {
+    this.firedWhileMet.delete(ruleId);
+    for (const key of this.heldSince.keys()) {
+      if (key.startsWith(`${ruleId}:`)) this.heldSince.delete(key);
+    }
+  }
+
+  private async getRulesByZone(): Promise<Map<string, AutomationRule[]>> {
+    if (!this.rulesByZone) {
+      const rulesByZone: Map<string, AutomationRule[]> = new Map();
+      const rules: AutomationRule[] = await this.ruleRepository.find({ where: { enabled: true } });
+      for (const rule of rules) {
+        for (const zoneId of new Set(this.listZoneIds(rule.condition))) {
+          rulesByZone.set(zoneId, [...(rulesByZone.get(zoneId) || []), rule]);
+        }
+      }
+      this.rulesByZone = rulesByZone;
+    }
+    return this.rulesByZone;
+  }
+
+  private listZoneIds(condition: AutomationCondition): string[] {
+    return 'operator' in condition
+      ? condition.conditions.flatMap((child: AutomationCondition) => this.listZoneIds(child))
+      : [condition.zoneId];
+  }
+
+  /**
+   * Reject rules whose conditions or actions are malformed or refer to zones of another device,
+   * and store them without unknown properties
+   */
+  private async validateRule(rule: AutomationRule): Promise<void> {
+    if (!isValidTimeZone(rule.timeZone)) {
+      throw new Error(`Invalid automation rule: unknown time zone ${rule.timeZone}`);
+    }
+
+    const zones: Zone[] = await this.zoneRepository.find({ where: { deviceId: rule.deviceId } });
+    const zoneIds: Set<string> = new Set(zones.map((zone: Zone) => zone.id));
+
+    const counter: { conditions: number } = { conditions: 0 };
+    rule.condition = this.parseCondition(rule.condition, zoneIds, counter);
+
+    if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+      throw new Error('Invalid automation rule: at least one action is required');
+    }
+    rule.actions = rule.actions.map((action: AutomationAction) => this.parseAction(action, zoneIds));
+  }
+
+  private parseCondition(condition: any, zoneIds: Set<string>, counter: { conditions: number }): AutomationCondition {
+    if (!condition || typeof condition !== 'object') {
+      throw new Error('Invalid automation rule: every condition must be an object');
+    }
+
+    if ('operator' in condition) {
+      if (condition.operator !== 'and' && condition.operator !== 'or') {
+        throw new Error('Invalid automation rule: operator must be and or or');
+      }
+      if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        throw new Error('Invalid automation rule: a condition group needs at least one condition');
+      }
+      return {
+        operator: condition.operator,
+        conditions: condition.conditions.map((child: any) => this.parseCondition(child, zoneIds, counter))
+      };
+    }
+
+    if (++counter.conditions > MAX_CONDITIONS) {
+      throw new Error(`Invalid automation rule: at most ${MAX_CONDITIONS} conditions are allowed`);
+    }
+    if (typeof condition.zoneId !== 'string' || !zoneIds.has(condition.zoneId)) {
+      throw new Error('Invalid automation rule: every condition needs a zoneId of the device');
+    }
+    if (typeof condition.field !== 'string' || condition.field === '') {
+      throw new Error('Invalid automation rule: every condition needs a field');
+    }
+    if (!COMPARATORS.includes(condition.comparator)) {
+      throw new Error(`Invalid automation rule: comparator must be one of ${COMPARATORS.join(', ')}`);
+    }
+    if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+      throw new Error('Invalid automation rule: every condition needs a numeric value');
+    }
+    for (const key of ['channel', 'durationSeconds', 'maxAgeSeconds']) {
+      if (condition[key] !== undefined && (!Number.isInteger(condition[key]) || condition[key] < 0)) {
+        throw new Error(`Invalid automation rule: ${key} must be a non-negative integer`);
+      }
+    }
+
+    return {
+      zoneId: condition.zoneId,
+      field: condition.field,
+      channel: condition.channel,
+      comparator: condition.comparator,
+      value: condition.value,
+      durationSeconds: condition.durationSeconds,
+      maxAgeSeconds: condition.maxAgeSeconds
+    };
+  }
+
+  private parseAction(action: any, zoneIds: Set<string>): AutomationAction {
+    if (action?.type === 'notify') {
+      if (!SEVERITIES.includes(action.severity)) {
+        throw new Error(`Invalid automation rule: severity must be one of ${SEVERITIES.join(', ')}`);
+      }
+      if (typeof action.message !== 'string' || action.message === '') {
+        throw new Error('Invalid automation rule: notify actions need a message');
+      }
+      return {
+        type: 'notify',
+        severity: action.severity,
+        title: typeof action.title === 'string' ? action.title : undefined,
+        message: action.message
+      };
+    }
+
+    if (action?.type !== 'command') {
+      throw new Error('Invalid automation rule: action type must be command or notify');
+    }
+    if (typeof action.zoneId !== 'string' || !zoneIds.has(action.zoneId)) {
+      throw new Error('Invalid automation rule: command actions need a zoneId of the device');
+    }
+    if (typeof action.command !== 'string' || action.command === '') {
+      throw new Error('Invalid automation rule: command actions need a command');
+    }
+    for (const key of ['payload', 'stopPayload']) {
+      if (action[key] !== undefined && (typeof action[key] !== 'object' || action[key] === null || Array.isArray(action[key]))) {
+        throw new Error(`Invalid automation rule: ${key} must be an object`);
+      }
+    }
+    if (action.durationSeconds !== undefined && (!Number.isInteger(action.durationSeconds) || action.durationSeconds < 1)) {
+      throw new Error('Invalid automation rule: durationSeconds must be a positive integer');
+    }
+    if (action.stopCommand !== undefined && typeof action.stopCommand !== 'string') {
+      throw new Error('Invalid automation rule: stopCommand must be a string');
+    }
+    if (!!action.durationSeconds !== !!action.stopCommand) {
+      throw new Error('Invalid automation rule: durationSeconds and stopCommand must be set together');
+    }
+
+    return {
+      type: 'command',
+      zoneId: action.zoneId,
+      command: action.command,
+      payload: action.payload,
+      durationSeconds: action.durationSeconds,
+      stopCommand: action.stopCommand,
+      stopPayload: action.stopPayload
+    };
+  }
+}
+
+// Export singleton instance
+export const automationService = new AutomationService();
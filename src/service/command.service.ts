@@ -0,0 +1,309 @@
+import { LessThan, Repository } from "typeorm";
+import { plainToInstance } from "class-transformer";
+import { validate, ValidationError } from "class-validator";
+import { Singleton } from "../decorator/singleton.decorator";
+import { AppDataSource } from "../config/database.config";
+import { mqttConfig } from "../config/mqtt.config";
+import { Command, CommandStatus } from "../entity/command.entity";
+import { Device } from "../entity/device.entity";
+import { Zone } from "../entity/zone.entity";
+import { sendCommandRequest } from "../dto/request/command.request";
+import { CommandAcknowledgement, CommandMessage, CommandSource } from "../interface/command.interface";
+import { buildTopicFromTemplate, toSubscriptionFilter } from "../utils/topic-template.util";
+import { DeviceService } from "./device.service";
+import { mqttService } from "./mqtt.service";
+import { webSocketService } from "./websocket.service";
+import { zoneControlService } from "./zone-control.service";
+
+@Singleton
+export class CommandService {
+    private readonly commandRepository: Repository<Command>;
+    private readonly zoneRepository: Repository<Zone>;
+    private readonly deviceService: DeviceService;
+    private readonly pendingTimeouts: Map<string, NodeJS.Timeout> = new Map();
+
+    constructor() {
+        this.commandRepository = AppDataSource.getRepository(Command);
+        this.zoneRepository = AppDataSource.getRepository(Zone);
+        this.deviceService = new DeviceService();
+    }
+
+    /**
+     * Initialize command handling - should be called after database is ready
+     * Listens for acknowledgements and times out commands left pending by a previous run
+     */
+    public async initialize(): Promise<void> {
+        await mqttService.registerTopicHandler(
+            toSubscriptionFilter(mqttConfig.responseTopicTemplate),
+            (topic: string, message: Buffer) => this.handleAcknowledgement(topic, message)
+        );
+
+        webSocketService.registerEventHandler('send-command', async (_socket, data, userId) => {
+            if (!userId) {
+                throw new Error('Authentication required');
+            }
+
+            // Validated like the REST endpoint, socket clients send whatever they like
+            if (!data || typeof data !== 'object' || Array.isArray(data)) {
+                throw new Error('Validation failed: command request must be an object');
+            }
+            const request: sendCommandRequest = plainToInstance(sendCommandRequest, data);
+            const errors: ValidationError[] = await validate(request);
+            if (errors.length > 0) {
+                const messages: string[] = errors.flatMap((error: ValidationError) => Object.values(error.constraints ?? {}));
+                throw new Error(`Validation failed: ${messages.join(', ')}`);
+            }
+
+            return this.sendCommand(request, userId);
+        });
+
+        // Nothing will acknowledge commands published before a restart
+        const expired = await this.commandRepository.update(
+            {
+                status: CommandStatus.PENDING,
+                createdAt: LessThan(new Date(Date.now() - mqttConfig.commandTimeoutMs))
+            },
+            { status: CommandStatus.TIMED_OUT, error: 'Service restarted before acknowledgement', completedAt: new Date() }
+        );
+        if (expired.affected) {
+            console.log(`Marked ${expired.affected} stale commands as timed out`);
+        }
+    }
+
+    /**
+     * Publish a command to a device-zone pair and track it until acknowledged
+     * Every command goes through here, so the manual override and lockout of the zone are enforced
+     * @param request Command request
+     * @param userId Authenticated user ID, or the user a program or rule issues commands as
+     * @param source What issued the command
+     * @returns The persisted command
+     */
+    public async sendCommand(request: sendCommandRequest, userId: string, source: CommandSource = 'user'): Promise<Command> {
+        // Throws if the device does not exist or the user has no access to it
+        const device: Device = await this.deviceService.getDeviceById(request.deviceId, userId);
+
+        const zone: Zone | null = await this.zoneRepository.findOne({
+            where: { id: request.zoneId, deviceId: device.id }
+        });
+        if (!zone) {
+            throw new Error('Zone not found for this device');
+        }
+
+        // Throws if the zone is locked out or under manual control of someone else
+        zoneControlService.assertCommandAllowed(zone, source, userId);
+
+        const command: Command = new Command();
+        command.deviceId = device.id;
+        command.zoneId = zone.id;
+        command.topic = buildTopicFromTemplate(mqttConfig.commandTopicTemplate, {
+            deviceNumber: device.deviceNumber,
+            zoneName: zone.name
+        });
+        command.name = request.command;
+        command.payload = request.payload || {};
+        command.status = CommandStatus.PENDING;
+        command.issuedBy = userId;
+        command.source = source;
+
+        const savedCommand: Command = await this.commandRepository.save(command);
+
+        const message: CommandMessage = {
+            id: savedCommand.id,
+            command: savedCommand.name,
+            payload: request.payload || {},
+            ts: savedCommand.createdAt.toISOString()
+        };
+
+        try {
+            await mqttService.publish(savedCommand.topic, message);
+        } catch (err: any) {
+            return await this.completeCommand(savedCommand, CommandStatus.FAILED, { error: err.message || String(err) });
+        }
+
+        this.scheduleTimeout(savedCommand);
+        this.broadcastStatus(savedCommand, device, zone);
+
+        return savedCommand;
+    }
+
+    /**
+     * Fetch commands of a device the user has access to
+     * @param deviceId Device ID
+     * @param userId Authenticated user ID
+     * @param zoneId Optional zone to filter on
+     * @param limit Maximum number of commands
+     * @returns Commands, newest first
+     */
+    public async getCommands(deviceId: string, userId: string, zoneId?: string, limit: number = 50): Promise<Command[]> {
+        await this.deviceService.getDeviceById(deviceId, userId);
+
+        return await this.commandRepository.find({
+            where: zoneId ? { deviceId, zoneId } : { deviceId },
+            order: { createdAt: 'DESC' },
+            take: limit
+        });
+    }
+
+    /**
+     * Fetch a single command
+     * @param commandId Command ID
+     * @param userId Authenticated user ID
+     * @returns The command
+     */
+    public async getCommandById(commandId: string, userId: string): Promise<Command> {
+        const command: Command | null = await this.commandRepository.findOne({ where: { id: commandId } });
+        if (!command) {
+            throw new Error('Command not found');
+        }
+
+        await this.deviceService.getDeviceById(command.deviceId, userId);
+        return command;
+    }
+
+    /**
+     * Correlates an acknowledgement from a device with its pending command
+     * @param topic The response topic
+     * @param message The raw acknowledgement
+     */
+    private async handleAcknowledgement(topic: string, message: Buffer): Promise<void> {
+        let ack: CommandAcknowledgement;
+        try {
+            ack = JSON.parse(message.toString());
+        } catch (error) {
+            console.warn(`Ignoring unparseable acknowledgement on topic ${topic}`);
+            return;
+        }
+
+        const commandId: string | undefined = ack.correlationId || ack.id;
+        if (!commandId) {
+            console.warn(`Ignoring acknowledgement without correlation id on topic ${topic}`);
+            return;
+        }
+
+        const command: Command | null = await this.commandRepository.findOne({
+            where: { id: commandId },
+            relations: ['device', 'zone']
+        });
+        if (!command || command.status !== CommandStatus.PENDING) {
+            console.warn(`No pending command ${commandId} for acknowledgement on topic ${topic}`);
+            return;
+        }
+
+        // Only the device-zone pair the command was sent to may acknowledge it
+        const expectedTopic: string = buildTopicFromTemplate(mqttConfig.responseTopicTemplate, {
+            deviceNumber: command.device.deviceNumber,
+            zoneName: command.zone.name
+        });
+        if (expectedTopic !== topic) {
+            console.warn(`Acknowledgement for command ${commandId} received on unexpected topic ${topic}`);
+            return;
+        }
+
+        const failed: boolean = ack.success === false || ['error', 'failed', 'nack'].includes(String(ack.status).toLowerCase());
+        await this.completeCommand(
+            command,
+            failed ? CommandStatus.FAILED : CommandStatus.ACKED,
+            { response: ack, error: failed ? ack.error || 'Rejected by device' : undefined }
+        );
+    }
+
+    /**
+     * Marks a pending command as timed out
+     * @param commandId Command ID
+     */
+    private async timeoutCommand(commandId: string): Promise<void> {
+        try {
+            const command: Command | null = await this.commandRepository.findOne({ where: { id: commandId } });
+            if (command?.status === CommandStatus.PENDING) {
+                await this.completeCommand(command, CommandStatus.TIMED_OUT, { error: 'No acknowledgement received' });
+            }
+        } catch (error) {
+            console.error(`Failed to time out command ${commandId}:`, error);
+        }
+    }
+
+    /**
+     * Moves a command to a final status and notifies the zone room
+     * @param command The command
+     * @param status The final status
+     * @param details Response and error to record
+     * @returns The updated command
+     */
+    private async completeCommand(
+        command: Command,
+        status: CommandStatus,
+        details: { response?: object, error?: string }
+    ): Promise<Command> {
+        const timeout: NodeJS.Timeout | undefined = this.pendingTimeouts.get(command.id);
+        if (timeout) {
+            clearTimeout(timeout);
+            this.pendingTimeouts.delete(command.id);
+        }
+
+        command.status = status;
+        command.response = details.response;
+        command.error = details.error;
+        command.completedAt = new Date();
+
+        const savedCommand: Command = await this.commandRepository.save(command);
+        this.broadcastStatus(savedCommand, command.device, command.zone);
+
+        return savedCommand;
+    }
+
+    /**
+     * Starts the acknowledgement timer of a pending command
+     * @param command The command
+     */
+    private scheduleTimeout(command: Command): void {
+        const timeout: NodeJS.Timeout = setTimeout(() => {
+            this.pendingTimeouts.delete(command.id);
+            this.timeoutCommand(command.id);
+        }, mqttConfig.commandTimeoutMs);
+
+        this.pendingTimeouts.set(command.id, timeout);
+    }
+
+    /**
+     * Pushes the command status to the zone room
+     * @param command The command
+     * @param device Device the command was sent to, loaded if missing
+     * @param zone Zone the command was sent to, loaded if missing
+     */
+    private async broadcastStatus(command: Command, device?: Device, zone?: Zone): Promise<void> {
+        if (!webSocketService.isInitialized()) return;
+
+        try {
+            let deviceNumber: string | undefined = device?.deviceNumber;
+            let zoneName: string | undefined = zone?.name;
+
+            if (!deviceNumber || !zoneName) {
+                const target: Zone | null = await this.zoneRepository.findOne({
+                    where: { id: command.zoneId },
+                    relations: ['device']
+                });
+                if (!target?.device) return;
+
+                deviceNumber = target.device.deviceNumber;
+                zoneName = target.name;
+            }
+
+            const roomName: string = mqttService.buildTopic(deviceNumber, zoneName);
+            webSocketService.broadcastToZoneRoom(roomName, 'commandStatus', {
+                id: command.id,
+                deviceId: command.deviceId,
+                zoneId: command.zoneId,
+                command: command.name,
+                payload: command.payload,
+                status: command.status,
+                error: command.error,
+                completedAt: command.completedAt
+            });
+        } catch (error) {
+            console.error(`Failed to broadcast status of command ${command.id}:`, error);
+        }
+    }
+}
+
+// Export singleton instance
+export const commandService = new CommandService();
@@ -0,0 +1,494 @@
+import { Between, FindOptionsWhere, In, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { dataQualityConfig } from '../config/data-quality.config';
+import { DataQualityRule } from '../entity/data-quality-rule.entity';
+import { DataQualityEvent } from '../entity/data-quality-event.entity';
+import { Reading } from '../entity/reading.entity';
+import { Topic } from '../entity/topic.entity';
+import { Zone } from '../entity/zone.entity';
+import { createDataQualityRuleRequest, updateDataQualityRuleRequest } from '../dto/request/data-quality.request';
+import { DataQuality, DataQualityFilter, DataQualityState } from '../interface/data-quality.interface';
+import { DeviceChangeEvent } from '../interface/device.interface';
+import { ProcessedZoneData } from '../interface/zone-data.interface';
+import { DeviceService } from './device.service';
+import { notificationService } from './notification.service';
+import { webSocketService } from './websocket.service';
+
+// Fault values are compared after conversion, which rounds to a few decimals
+const FAULT_VALUE_EPSILON = 1e-6;
+
+@Singleton
+export class DataQualityService {
+  private readonly ruleRepository: Repository<DataQualityRule>;
+  private readonly eventRepository: Repository<DataQualityEvent>;
+  private readonly topicRepository: Repository<Topic>;
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly deviceService: DeviceService;
+
+  // Enabled rules per device ID, loaded on first use
+  private rulesByDevice: Map<string, DataQualityRule[]> | null = null;
+  // Tracking per channel of a field, keyed by topic, field and channel
+  private readonly states: Map<string, DataQualityState> = new Map();
+  private staleTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.ruleRepository = AppDataSource.getRepository(DataQualityRule);
+    this.eventRepository = AppDataSource.getRepository(DataQualityEvent);
+    this.topicRepository = AppDataSource.getRepository(Topic);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Initialize data-quality tracking - should be called after database is ready
+   * Restores the last known quality of every field with a rule, so fields that stay silent
+   * after a restart still go stale, and starts the no-data check
+   */
+  public async initialize(): Promise<void> {
+    const rulesByDevice: Map<string, DataQualityRule[]> = await this.getRulesByDevice();
+
+    if (rulesByDevice.size > 0) {
+      const lastEvents: DataQualityEvent[] = await this.eventRepository.createQueryBuilder('event')
+        .distinctOn(['event.topic', 'event.field', 'event.channel'])
+        .where({ deviceId: In(Array.from(rulesByDevice.keys())) })
+        .orderBy('event.topic')
+        .addOrderBy('event.field')
+        .addOrderBy('event.channel')
+        .addOrderBy('event.occurredAt', 'DESC')
+        .getMany();
+      const lastQuality: Map<string, DataQuality> = new Map(
+        lastEvents.map((event: DataQualityEvent) => [this.stateKey(event.topic, event.field, event.channel), event.quality])
+      );
+
+      const topics: Topic[] = await this.topicRepository.find({ where: { deviceId: In(Array.from(rulesByDevice.keys())) } });
+      for (const topic of topics) {
+        if (!topic.lastReceivedAt) continue;
+
+        for (const [field, channel] of this.listChannels(topic.data)) {
+          const rule: DataQualityRule | undefined = this.findRule(rulesByDevice.get(topic.deviceId!) || [], topic.zoneId, field, channel);
+          if (!rule) continue;
+
+          const state: DataQualityState = this.getState(rule, topic, field, channel, topic.lastReceivedAt);
+          state.quality = lastQuality.get(this.stateKey(topic.name, field, channel)) ?? 'good';
+        }
+      }
+    }
+
+    this.deviceService.addChangeListener((event: DeviceChangeEvent) => this.handleDeviceChange(event));
+
+    if (!this.staleTimer) {
+      this.staleTimer = setInterval(() => {
+        this.checkStale();
+      }, dataQualityConfig.staleCheckIntervalMs);
+    }
+  }
+
+  /**
+   * Flag the readings of a message and add their quality to its processed data
+   * Live messages also update flatline and no-data tracking and raise data-quality events,
+   * historical ones only get the range and fault checks
+   * @param topic Topic entry with the message, its processed data is replaced when flagged
+   * @param readings Readings of the message
+   * @param live Whether the message was just received
+   * @returns The processed data of the topic entry, with quality flags if any field has a rule
+   */
+  public async assess(
+    topic: Topic,
+    readings: Reading[],
+    live: boolean = true
+  ): Promise<ProcessedZoneData | Record<string, any>> {
+    const processedData: ProcessedZoneData | Record<string, any> = topic.processedData ?? {};
+    if (!topic.deviceId) return processedData;
+
+    const rules: DataQualityRule[] = (await this.getRulesByDevice()).get(topic.deviceId) || [];
+    if (rules.length === 0) return processedData;
+
+    const qualityByField: { [field: string]: DataQuality[] } = {};
+    for (const reading of readings) {
+      const rule: DataQualityRule | undefined = this.findRule(rules, topic.zoneId, reading.field, reading.channel);
+      if (!rule) continue;
+
+      // Bitstrings carry no engineering value to check
+      const value: number | null = reading.text === null || reading.text === undefined ? reading.value ?? null : null;
+      let quality: DataQuality = this.checkValue(rule, value);
+
+      if (live) {
+        const state: DataQualityState = this.getState(rule, topic, reading.field, reading.channel, reading.recordedAt);
+        if (this.isFlatlined(rule, state, value, reading.recordedAt) && quality === 'good') {
+          quality = 'flatline';
+        }
+        state.lastSeenAt = reading.recordedAt;
+
+        if (state.quality !== quality) {
+          await this.recordChange(state, quality, value, reading.recordedAt);
+        }
+      }
+
+      reading.quality = quality;
+      (qualityByField[reading.field] = qualityByField[reading.field] || [])[reading.channel] = quality;
+    }
+
+    if (Object.keys(qualityByField).length === 0) return processedData;
+
+    // Copied, payloads passed through unconverted are the raw data itself
+    topic.processedData = { ...processedData, quality: qualityByField };
+    return topic.processedData;
+  }
+
+  /**
+   * Create a data-quality rule for a field of a device the user has access to
+   * @param request Data-quality rule creation request
+   * @param userId Authenticated user ID
+   * @returns Created rule
+   */
+  public async createRule(request: createDataQualityRuleRequest, userId: string): Promise<DataQualityRule> {
+    // Throws if the device does not exist or the user has no access to it
+    await this.deviceService.getDeviceById(request.deviceId, userId);
+    if (request.zoneId) {
+      await this.getZone(request.deviceId, request.zoneId);
+    }
+
+    const rule: DataQualityRule = new DataQualityRule();
+    rule.deviceId = request.deviceId;
+    rule.zoneId = request.zoneId ?? null;
+    rule.field = request.field;
+    rule.channel = request.channel ?? null;
+    rule.minValue = request.minValue ?? null;
+    rule.maxValue = request.maxValue ?? null;
+    rule.faultValues = request.faultValues ?? null;
+    rule.flatlineSeconds = request.flatlineSeconds ?? null;
+    rule.flatlineTolerance = request.flatlineTolerance ?? 0;
+    rule.staleSeconds = request.staleSeconds ?? null;
+    rule.enabled = request.enabled ?? true;
+    this.validateRule(rule);
+
+    const savedRule: DataQualityRule = await this.ruleRepository.save(rule);
+    this.rulesByDevice = null;
+
+    return savedRule;
+  }
+
+  /**
+   * Update the checks of a data-quality rule
+   * @param id Rule ID
+   * @param request Data-quality rule update request
+   * @param userId Authenticated user ID
+   * @returns Updated rule
+   */
+  public async updateRule(id: string, request: updateDataQualityRuleRequest, userId: string): Promise<DataQualityRule> {
+    const rule: DataQualityRule = await this.getRuleById(id, userId);
+
+    if (request.minValue !== undefined) rule.minValue = request.minValue;
+    if (request.maxValue !== undefined) rule.maxValue = request.maxValue;
+    if (request.faultValues !== undefined) rule.faultValues = request.faultValues;
+    if (request.flatlineSeconds !== undefined) rule.flatlineSeconds = request.flatlineSeconds;
+    if (request.flatlineTolerance !== undefined) rule.flatlineTolerance = request.flatlineTolerance;
+    if (request.staleSeconds !== undefined) rule.staleSeconds = request.staleSeconds;
+    if (request.enabled !== undefined) rule.enabled = request.enabled;
+    this.validateRule(rule);
+
+    const savedRule: DataQualityRule = await this.ruleRepository.save(rule);
+    this.rulesByDevice = null;
+
+    return savedRule;
+  }
+
+  /**
+   * Delete a data-quality rule, its fields are no longer tracked
+   * @param id Rule ID
+   * @param userId Authenticated user ID
+   */
+  public async deleteRule(id: string, userId: string): Promise<void> {
+    const rule: DataQualityRule = await this.getRuleById(id, userId);
+
+    await this.ruleRepository.delete(rule.id);
+    this.rulesByDevice = null;
+
+    for (const [key, state] of this.states) {
+      if (state.ruleId === rule.id) this.states.delete(key);
+    }
+  }
+
+  /**
+   * Get a data-quality rule of a device the user has access to
+   * @param id Rule ID
+   * @param userId Authenticated user ID
+   * @returns The rule
+   */
+  public async getRuleById(id: string, userId: string): Promise<DataQualityRule> {
+    const rule: DataQualityRule | null = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new Error('Data-quality rule not found');
+    }
+
+    await this.deviceService.getDeviceById(rule.deviceId, userId);
+    return rule;
+  }
+
+  /**
+   * Get the data-quality rules of a device
+   * @param deviceId Device ID
+   * @param userId Authenticated user ID
+   * @param zoneId Optional zone to filter on, rules for every zone included
+   * @returns Rules
+   */
+  public async getRules(deviceId: string, userId: string, zoneId?: string): Promise<DataQualityRule[]> {
+    await this.deviceService.getDeviceById(deviceId, userId);
+
+    const rules: DataQualityRule[] = await this.ruleRepository.find({
+      where: { deviceId },
+      order: { field: 'ASC', createdAt: 'ASC' }
+    });
+    return zoneId ? rules.filter((rule: DataQualityRule) => !rule.zoneId || rule.zoneId === zoneId) : rules;
+  }
+
+  /**
+   * Get the quality changes of the fields of a device
+   * @param filter Device with optional zone, field, quality, time range and limit
+   * @param userId Authenticated user ID
+   * @returns Events, newest first
+   */
+  public async getEvents(filter: DataQualityFilter, userId: string): Promise<DataQualityEvent[]> {
+    await this.deviceService.getDeviceById(filter.deviceId, userId);
+
+    const where: FindOptionsWhere<DataQualityEvent> = { deviceId: filter.deviceId };
+    if (filter.zoneId) where.zoneId = filter.zoneId;
+    if (filter.field) where.field = filter.field;
+    if (filter.quality) where.quality = filter.quality as DataQuality;
+    if (filter.from && filter.to) where.occurredAt = Between(filter.from, filter.to);
+    else if (filter.from) where.occurredAt = MoreThanOrEqual(filter.from);
+    else if (filter.to) where.occurredAt = LessThanOrEqual(filter.to);
+
+    return await this.eventRepository.find({
+      where,
+      order: { occurredAt: 'DESC' },
+      take: filter.limit ?? 100
+    });
+  }
+
+  /**
+   * Range and fault checks, which only depend on the value itself
+   */
+  private checkValue(rule: DataQualityRule, value: number | null): DataQuality {
+    if (value === null) return 'good';
+
+    if (rule.faultValues?.some((faultValue: number) => Math.abs(value - faultValue) < FAULT_VALUE_EPSILON)) {
+      return 'fault';
+    }
+    if ((rule.minValue !== null && rule.minValue !== undefined && value < rule.minValue) ||
+        (rule.maxValue !== null && rule.maxValue !== undefined && value > rule.maxValue)) {
+      return 'out_of_range';
+    }
+    return 'good';
+  }
+
+  /**
+   * Whether the value stayed within the tolerance of the value it last changed to for longer
+   * than the flatline window; moves the reference value when it changed
+   */
+  private isFlatlined(rule: DataQualityRule, state: DataQualityState, value: number | null, recordedAt: Date): boolean {
+    if (!rule.flatlineSeconds || value === null) return false;
+
+    if (state.lastValue === null || state.lastValue === undefined || !state.unchangedSince ||
+        Math.abs(value - state.lastValue) > rule.flatlineTolerance) {
+      state.lastValue = value;
+      state.unchangedSince = recordedAt;
+      return false;
+    }
+
+    return recordedAt.getTime() - state.unchangedSince.getTime() >= rule.flatlineSeconds * 1000;
+  }
+
+  /**
+   * Marks fields without a value for longer than their no-data timeout as stale
+   */
+  private async checkStale(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      const rules: Map<string, DataQualityRule> = new Map(
+        Array.from((await this.getRulesByDevice()).values()).flat().map((rule: DataQualityRule) => [rule.id, rule])
+      );
+      const now: Date = new Date();
+
+      for (const state of this.states.values()) {
+        const staleSeconds: number | null | undefined = rules.get(state.ruleId)?.staleSeconds;
+        if (!staleSeconds || state.quality === 'stale') continue;
+
+        if (now.getTime() - state.lastSeenAt.getTime() > staleSeconds * 1000) {
+          // Flatline tracking restarts with the next value
+          state.lastValue = null;
+          state.unchangedSince = undefined;
+          await this.recordChange(state, 'stale', null, now);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to check for stale data:', error);
+    }
+  }
+
+  /**
+   * Persists a quality change and pushes it to the users with access to the device
+   */
+  private async recordChange(state: DataQualityState, quality: DataQuality, value: number | null, occurredAt: Date): Promise<void> {
+    const event: DataQualityEvent = new DataQualityEvent();
+    event.ruleId = state.ruleId;
+    event.deviceId = state.deviceId;
+    event.zoneId = state.zoneId ?? null;
+    event.topic = state.topic;
+    event.field = state.field;
+    event.channel = state.channel;
+    event.quality = quality;
+    event.previousQuality = state.quality;
+    event.value = value;
+    event.occurredAt = occurredAt;
+
+    state.quality = quality;
+
+    const savedEvent: DataQualityEvent = await this.eventRepository.save(event);
+    console.log(`Data quality of ${state.field}[${state.channel}] on topic ${state.topic} is now ${quality}`);
+
+    if (webSocketService.isInitialized()) {
+      const userIds: string[] = await this.deviceService.getDeviceUserIds(state.deviceId);
+      webSocketService.broadcastToUsers(userIds, 'dataQuality', savedEvent);
+    }
+
+    await notificationService.notify({
+      deviceId: state.deviceId,
+      zoneId: state.zoneId,
+      severity: quality === 'good' ? 'info' : 'warning',
+      title: quality === 'good' ? 'Sensor data recovered' : 'Sensor data quality issue',
+      message: `${state.field}[${state.channel}] on ${state.topic} is ${quality.replace('_', ' ')}` +
+        (value !== null ? ` (value ${value})` : ''),
+      source: 'data_quality',
+      sourceId: savedEvent.id,
+      data: { field: state.field, channel: state.channel, quality, previousQuality: event.previousQuality }
+    });
+  }
+
+  /**
+   * Most specific enabled rule of a field: zone and channel, then zone, then channel, then device-wide
+   */
+  private findRule(rules: DataQualityRule[], zoneId: string | undefined, field: string, channel: number): DataQualityRule | undefined {
+    let best: DataQualityRule | undefined;
+    let bestScore: number = -1;
+
+    for (const rule of rules) {
+      if (rule.field !== field) continue;
+      if (rule.zoneId && rule.zoneId !== zoneId) continue;
+      if (rule.channel !== null && rule.channel !== undefined && rule.channel !== channel) continue;
+
+      const score: number = (rule.zoneId ? 2 : 0) + (rule.channel !== null && rule.channel !== undefined ? 1 : 0);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Get the tracking of a channel, creating it on its first value
+   */
+  private getState(rule: DataQualityRule, topic: Topic, field: string, channel: number, seenAt: Date): DataQualityState {
+    const key: string = this.stateKey(topic.name, field, channel);
+    let state: DataQualityState | undefined = this.states.get(key);
+    if (!state) {
+      state = {
+        ruleId: rule.id,
+        deviceId: topic.deviceId!,
+        zoneId: topic.zoneId,
+        topic: topic.name,
+        field,
+        channel,
+        quality: 'good',
+        lastSeenAt: seenAt
+      };
+      this.states.set(key, state);
+    }
+
+    // The rule of a channel changes when a more specific rule is added
+    state.ruleId = rule.id;
+    return state;
+  }
+
+  private stateKey(topic: string, field: string, channel: number): string {
+    return `${topic}|${field}|${channel}`;
+  }
+
+  /**
+   * Numeric channels of a raw payload as field and channel pairs
+   */
+  private listChannels(data: any): [string, number][] {
+    const fields: Record<string, any> = data?.d && typeof data.d === 'object' ? data.d : data ?? {};
+    const channels: [string, number][] = [];
+
+    for (const [field, fieldValue] of Object.entries(fields)) {
+      const values: any[] = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+      values.forEach((value: any, channel: number) => {
+        if (typeof value === 'number') channels.push([field, channel]);
+      });
+    }
+    return channels;
+  }
+
+  /**
+   * Keeps tracking in line with device and zone changes
+   * Fields of deleted devices and zones are no longer tracked, so they do not go stale,
+   * the fields of a moved zone follow it to its new device
+   * @param event The device or zone change
+   */
+  private handleDeviceChange(event: DeviceChangeEvent): void {
+    this.rulesByDevice = null;
+    if (event.scope === 'zone' && !event.zoneId) return;
+
+    for (const [key, state] of this.states) {
+      const affected: boolean = event.scope === 'device' ? state.deviceId === event.deviceId : state.zoneId === event.zoneId;
+      if (!affected) continue;
+
+      if (event.action === 'deleted') {
+        this.states.delete(key);
+      } else {
+        state.deviceId = event.deviceId;
+      }
+    }
+  }
+
+  private async getRulesByDevice(): Promise<Map<string, DataQualityRule[]>> {
+    if (!this.rulesByDevice) {
+      const rulesByDevice: Map<string, DataQualityRule[]> = new Map();
+      const rules: DataQualityRule[] = await this.ruleRepository.find({ where: { enabled: true } });
+      for (const rule of rules) {
+        rulesByDevice.set(rule.deviceId, [...(rulesByDevice.get(rule.deviceId) || []), rule]);
+      }
+      this.rulesByDevice = rulesByDevice;
+    }
+    return this.rulesByDevice;
+  }
+
+  private async getZone(deviceId: string, zoneId: string): Promise<Zone> {
+    const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: zoneId, deviceId } });
+    if (!zone) {
+      throw new Error('Zone not found for this device');
+    }
+    return zone;
+  }
+
+  /**
+   * Reject rules that check nothing or have an empty physical range
+   */
+  private validateRule(rule: DataQualityRule): void {
+    const hasRange: boolean = (rule.minValue ?? null) !== null || (rule.maxValue ?? null) !== null;
+    if (!hasRange && !rule.faultValues?.length && !rule.flatlineSeconds && !rule.staleSeconds) {
+      throw new Error('Invalid data-quality rule: set a range, fault values, a flatline window or a no-data timeout');
+    }
+    if (rule.minValue !== null && rule.minValue !== undefined &&
+        rule.maxValue !== null && rule.maxValue !== undefined && rule.minValue > rule.maxValue) {
+      throw new Error('Invalid data-quality rule: minValue exceeds maxValue');
+    }
+  }
+}
+
+// Export singleton instance
+export const dataQualityService = new DataQualityService();
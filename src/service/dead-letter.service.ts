@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Singleton } from '../decorator/singleton.decorator';
+import { deadLetterConfig } from '../config/dead-letter.config';
+import { DeadLetter, DeadLetterFilter, DeadLetterReason } from '../interface/dead-letter.interface';
+
+@Singleton
+export class DeadLetterService {
+  private readonly directory: string = deadLetterConfig.directory;
+
+  /**
+   * Capture a message that could not be processed or persisted
+   * Never throws, a failing dead-letter write is only logged
+   * @param entry Topic, raw payload, reason and error of the message
+   * @returns The stored dead letter, or null if it could not be written
+   */
+  public async record(entry: {
+    topic: string,
+    payload: string,
+    reason: DeadLetterReason,
+    error: unknown,
+    deviceId?: string,
+    zoneId?: string,
+    receivedAt?: Date
+  }): Promise<DeadLetter | null> {
+    const now: Date = new Date();
+    const deadLetter: DeadLetter = {
+      id: randomUUID(),
+      topic: entry.topic,
+      payload: entry.payload,
+      reason: entry.reason,
+      error: entry.error instanceof Error ? entry.error.message : String(entry.error),
+      deviceId: entry.deviceId,
+      zoneId: entry.zoneId,
+      receivedAt: (entry.receivedAt || now).toISOString(),
+      createdAt: now.toISOString(),
+      replayCount: 0
+    };
+
+    try {
+      await this.write(deadLetter);
+      console.warn(`Dead-lettered message on topic ${entry.topic} (${entry.reason}): ${deadLetter.error}`);
+      return deadLetter;
+    } catch (error) {
+      console.error(`Failed to dead-letter message on topic ${entry.topic}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List dead letters, oldest first
+   * @param filter Optional reason, topic, age and limit filters
+   * @returns Matching dead letters
+   */
+  public async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    const deadLetters: DeadLetter[] = [];
+
+    for (const fileName of await this.listFiles()) {
+      const deadLetter: DeadLetter | null = await this.read(fileName);
+      if (!deadLetter || !this.matches(deadLetter, filter)) continue;
+
+      deadLetters.push(deadLetter);
+      if (filter.limit && deadLetters.length >= filter.limit) break;
+    }
+
+    return deadLetters;
+  }
+
+  /**
+   * Fetch a single dead letter
+   * @param id Dead letter ID
+   * @returns The dead letter
+   */
+  public async get(id: string): Promise<DeadLetter> {
+    const fileName: string | undefined = (await this.listFiles()).find((name: string) => name.endsWith(`-${id}.json`));
+    const deadLetter: DeadLetter | null = fileName ? await this.read(fileName) : null;
+
+    if (!deadLetter) {
+      throw new Error('Dead letter not found');
+    }
+    return deadLetter;
+  }
+
+  /**
+   * Record a failed replay attempt on a dead letter
+   * @param deadLetter The dead letter
+   * @param error Why the replay failed
+   * @returns The updated dead letter
+   */
+  public async markReplayFailed(deadLetter: DeadLetter, error: unknown): Promise<DeadLetter> {
+    deadLetter.replayCount++;
+    deadLetter.lastReplayedAt = new Date().toISOString();
+    deadLetter.lastReplayError = error instanceof Error ? error.message : String(error);
+
+    await this.write(deadLetter);
+    return deadLetter;
+  }
+
+  /**
+   * Delete a single dead letter
+   * @param id Dead letter ID
+   */
+  public async remove(id: string): Promise<void> {
+    const deadLetter: DeadLetter = await this.get(id);
+    await fs.rm(this.filePath(deadLetter), { force: true });
+  }
+
+  /**
+   * Delete every dead letter matching the filter
+   * @param filter Optional reason, topic and age filters
+   * @returns Number of deleted dead letters
+   */
+  public async purge(filter: DeadLetterFilter = {}): Promise<number> {
+    const deadLetters: DeadLetter[] = await this.list({ ...filter, limit: undefined });
+
+    for (const deadLetter of deadLetters) {
+      await fs.rm(this.filePath(deadLetter), { force: true });
+    }
+    return deadLetters.length;
+  }
+
+  /**
+   * File names sort by creation time so listing is oldest first
+   * @returns Dead letter file names
+   */
+  private async listFiles(): Promise<string[]> {
+    try {
+      const fileNames: string[] = await fs.readdir(this.directory);
+      return fileNames.filter((name: string) => name.endsWith('.json')).sort();
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async read(fileName: string): Promise<DeadLetter | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, fileName), 'utf8'));
+    } catch (error) {
+      console.error(`Failed to read dead letter ${fileName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Writes through a temporary file so a crash never leaves a half-written dead letter
+   * @param deadLetter The dead letter
+   */
+  private async write(deadLetter: DeadLetter): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filePath: string = this.filePath(deadLetter);
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(deadLetter, null, 2), 'utf8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  private filePath(deadLetter: DeadLetter): string {
+    const timestamp: string = String(new Date(deadLetter.createdAt).getTime()).padStart(15, '0');
+    return path.join(this.directory, `${timestamp}-${deadLetter.id}.json`);
+  }
+
+  private matches(deadLetter: DeadLetter, filter: DeadLetterFilter): boolean {
+    if (filter.reason && deadLetter.reason !== filter.reason) return false;
+    if (filter.topic && deadLetter.topic !== filter.topic) return false;
+    if (filter.before && new Date(deadLetter.createdAt) >= filter.before) return false;
+    return true;
+  }
+}
+
+// Export singleton instance
+export const deadLetterService = new DeadLetterService();
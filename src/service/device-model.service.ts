@@ -0,0 +1,178 @@
+import { Repository } from "typeorm";
+import { Singleton } from "../decorator/singleton.decorator";
+import { AppDataSource } from "../config/database.config";
+import { DeviceModel } from "../entity/device-model.entity";
+import { Device } from "../entity/device.entity";
+import { createDeviceModelRequest, updateDeviceModelRequest } from "../dto/request/device-model.request";
+import { ProcessedZoneData, RegisterDefinition, ZoneData } from "../interface/zone-data.interface";
+import { processDataForWebsocket } from "../utils/data-convert.util";
+
+@Singleton
+export class DeviceModelService {
+    private readonly deviceModelRepository: Repository<DeviceModel>;
+    private readonly deviceRepository: Repository<Device>;
+
+    // Register map per device ID, null when the device has no model
+    private readonly registerCache: Map<string, RegisterDefinition[] | null> = new Map();
+
+    constructor() {
+        this.deviceModelRepository = AppDataSource.getRepository(DeviceModel);
+        this.deviceRepository = AppDataSource.getRepository(Device);
+    }
+
+    /**
+     * Create a new device model
+     * @param request Device model creation request
+     * @returns Created device model
+     */
+    public async createModel(request: createDeviceModelRequest): Promise<DeviceModel> {
+        this.validateRegisters(request.registers);
+
+        const model: DeviceModel = new DeviceModel();
+        model.name = request.name;
+        model.description = request.description;
+        model.registers = request.registers;
+
+        return await this.deviceModelRepository.save(model);
+    }
+
+    /**
+     * Update a device model, devices using it decode with the new registers right away
+     * @param id Device model ID
+     * @param request Device model update request
+     * @returns Updated device model
+     */
+    public async updateModel(id: string, request: updateDeviceModelRequest): Promise<DeviceModel> {
+        const model: DeviceModel = await this.getModelById(id);
+
+        if (request.registers) {
+            this.validateRegisters(request.registers);
+            model.registers = request.registers;
+        }
+        if (request.name !== undefined) model.name = request.name;
+        if (request.description !== undefined) model.description = request.description;
+
+        const savedModel: DeviceModel = await this.deviceModelRepository.save(model);
+        this.registerCache.clear();
+
+        return savedModel;
+    }
+
+    /**
+     * Soft delete a device model and detach it from its devices
+     * @param id Device model ID
+     */
+    public async deleteModel(id: string): Promise<void> {
+        await this.getModelById(id);
+
+        await this.deviceRepository.update({ modelId: id }, { modelId: null });
+        await this.deviceModelRepository.softDelete(id);
+        this.registerCache.clear();
+    }
+
+    /**
+     * Get a device model by its ID
+     * @param id Device model ID
+     * @returns The device model
+     */
+    public async getModelById(id: string): Promise<DeviceModel> {
+        const model: DeviceModel | null = await this.deviceModelRepository.findOne({ where: { id } });
+
+        if (!model) {
+            throw new Error('Device model not found');
+        }
+        return model;
+    }
+
+    /**
+     * Get all device models
+     * @returns Array of device models
+     */
+    public async getAllModels(): Promise<DeviceModel[]> {
+        return await this.deviceModelRepository.find({ order: { name: 'ASC' } });
+    }
+
+    /**
+     * Get the register map a device decodes its payloads with
+     * @param deviceId Device ID
+     * @returns Registers of the device model, or null if the device has none
+     */
+    public async getRegistersForDevice(deviceId: string): Promise<RegisterDefinition[] | null> {
+        if (this.registerCache.has(deviceId)) {
+            return this.registerCache.get(deviceId)!;
+        }
+
+        const device: Device | null = await this.deviceRepository.findOne({
+            where: { id: deviceId },
+            relations: ['model']
+        });
+
+        const registers: RegisterDefinition[] | null = device?.model?.registers ?? null;
+        this.registerCache.set(deviceId, registers);
+
+        return registers;
+    }
+
+    /**
+     * Convert topic data with the register map of its device
+     * Used for live updates and stored readings alike so both show the same values
+     * @param topicName The topic name
+     * @param data The raw data
+     * @param deviceId Device the data belongs to
+     * @returns Processed data
+     */
+    public async processTopicData(
+        topicName: string,
+        data: ZoneData | Record<string, any>,
+        deviceId?: string
+    ): Promise<ProcessedZoneData | Record<string, any>> {
+        const registers: RegisterDefinition[] | null = deviceId ? await this.getRegistersForDevice(deviceId) : null;
+        return processDataForWebsocket(topicName, data, registers);
+    }
+
+    /**
+     * Forget the cached register map of a device, e.g. after assigning another model
+     * @param deviceId Device ID
+     */
+    public invalidateDevice(deviceId: string): void {
+        this.registerCache.delete(deviceId);
+    }
+
+    /**
+     * Reject register maps with invalid patterns, duplicate names or bits outside the register
+     * @param registers Register definitions
+     */
+    private validateRegisters(registers: RegisterDefinition[]): void {
+        const names: Set<string> = new Set();
+
+        for (const register of registers) {
+            if (names.has(register.name)) {
+                throw new Error(`Invalid register map: duplicate register ${register.name}`);
+            }
+            names.add(register.name);
+
+            if (register.pattern) {
+                try {
+                    new RegExp(register.pattern);
+                } catch (error) {
+                    throw new Error(`Invalid register map: bad pattern for register ${register.name}`);
+                }
+            }
+
+            const bitLength: number = register.bitLength ?? 8;
+            const signalNames: Set<string> = new Set();
+            for (const bit of register.bits || []) {
+                if (bit.bit >= bitLength) {
+                    throw new Error(`Invalid register map: bit ${bit.bit} of register ${register.name} exceeds its ${bitLength} bits`);
+                }
+                if (signalNames.has(bit.name)) {
+                    throw new Error(`Invalid register map: duplicate signal ${bit.name} in register ${register.name}`);
+                }
+                signalNames.add(bit.name);
+            }
+        }
+    }
+}
+
+// Export singleton instance
+export const deviceModelService = new DeviceModelService();
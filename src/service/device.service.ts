@@ -1,18 +1,28 @@
-import { Repository } from "typeorm";
+import { EntityManager, IsNull, Not, Repository } from "typeorm";
 import { Singleton } from "../decorator/singleton.decorator";
 import { AppDataSource } from "../config/database.config";
+import { mqttConfig } from "../config/mqtt.config";
 import { Device } from "../entity/device.entity";
-import { createDeviceRequest } from "../dto/request/device.request";
+import { Zone } from "../entity/zone.entity";
+import { assignDeviceModelRequest, createDeviceRequest, patchDeviceRequest } from "../dto/request/device.request";
 import { User } from "../entity/user.entity";
+import { DeviceChangeEvent, DeviceChangeListener, ZoneDeleteListener } from "../interface/device.interface";
+import { buildTopicFromTemplate } from "../utils/topic-template.util";
+import { DeviceModelService } from "./device-model.service";
+import { readingService } from "./reading.service";
 
 @Singleton
 export class DeviceService {
     private readonly deviceRepository: Repository<Device>;
     private readonly userRepository: Repository<User>;
+    private readonly deviceModelService: DeviceModelService;
+    private readonly changeListeners: DeviceChangeListener[] = [];
+    private readonly deleteListeners: ZoneDeleteListener[] = [];
 
     constructor() {
         this.deviceRepository = AppDataSource.getRepository(Device);
         this.userRepository = AppDataSource.getRepository(User);
+        this.deviceModelService = new DeviceModelService();
     }
 
     /**
@@ -99,4 +109,278 @@ export class DeviceService {
             throw new Error(`Failed to fetch devices: ${errorMessage}`);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Assign a device model to a device, or clear it
+     * @param deviceId Device ID
+     * @param request Model assignment request
+     * @param userId Authenticated user ID
+     * @returns Updated device
+     */
+    async assignModel(deviceId: string, request: assignDeviceModelRequest, userId: string): Promise<Device> {
+        // Throws if the device does not exist or the user has no access to it
+        const device: Device = await this.getDeviceById(deviceId, userId);
+
+        try {
+            if (request.modelId) {
+                device.model = await this.deviceModelService.getModelById(request.modelId);
+                device.modelId = request.modelId;
+            } else {
+                device.model = undefined;
+                device.modelId = null;
+            }
+
+            const savedDevice: Device = await this.deviceRepository.save(device);
+            this.deviceModelService.invalidateDevice(deviceId);
+
+            return savedDevice;
+        } catch (err: any) {
+            const errorMessage: string = err.message || String(err);
+            throw new Error(`Failed to assign device model: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Update the number and name of a device
+     * A new device number changes the topics of its zones, the topics are renamed so their history stays linked
+     * @param deviceId Device ID
+     * @param request Fields to change, missing fields are kept
+     * @param userId Authenticated user ID
+     * @returns Updated device
+     */
+    async updateDevice(deviceId: string, request: patchDeviceRequest, userId: string): Promise<Device> {
+        // Throws if the device does not exist or the user has no access to it
+        const device: Device = await this.getDeviceById(deviceId, userId);
+        const deviceNumber: string = request.deviceNumber ?? device.deviceNumber;
+        const renamedTopics: string[] = [];
+
+        try {
+            if (deviceNumber !== device.deviceNumber) {
+                await this.assertDeviceNumberAvailable(deviceNumber, deviceId);
+            }
+
+            await AppDataSource.transaction(async (manager: EntityManager) => {
+                if (deviceNumber !== device.deviceNumber) {
+                    // Deleted zones too, so they come back on the right topic when restored
+                    const zones: Zone[] = await manager.find(Zone, { where: { deviceId }, withDeleted: true });
+                    for (const zone of zones) {
+                        const oldTopic: string = this.buildZoneTopic(device.deviceNumber, zone.name);
+                        await readingService.renameTopic(manager, oldTopic, this.buildZoneTopic(deviceNumber, zone.name), deviceId, zone.id);
+                        renamedTopics.push(oldTopic);
+                    }
+                }
+
+                await manager.update(Device, deviceId, { deviceNumber, name: request.name ?? device.name });
+            });
+        } catch (err: any) {
+            const errorMessage: string = err.message || String(err);
+            throw new Error(`Failed to update device: ${errorMessage}`);
+        }
+
+        renamedTopics.forEach((topicName: string) => readingService.forgetTopic(topicName));
+
+        const events: DeviceChangeEvent[] = [{ scope: 'device', action: 'updated', deviceId }];
+        if (renamedTopics.length > 0) {
+            for (const zone of device.zones) {
+                events.push({ scope: 'zone', action: 'updated', deviceId, zoneId: zone.id, previousDeviceId: deviceId });
+            }
+        }
+        await this.notifyChangeListeners(events);
+
+        return await this.getDeviceById(deviceId, userId);
+    }
+
+    /**
+     * Soft-delete a device together with its zones
+     * Telemetry of the device is no longer received, its history is kept for a restore
+     * @param deviceId Device ID
+     * @param userId Authenticated user ID
+     */
+    async deleteDevice(deviceId: string, userId: string): Promise<void> {
+        // Throws if the device does not exist or the user has no access to it
+        const device: Device = await this.getDeviceById(deviceId, userId);
+
+        // Deleted zones take no commands, so whatever still runs on them is stopped first
+        await this.notifyDeleteListeners(device.zones.map((zone: Zone) => zone.id));
+
+        try {
+            // The zones share the deletion time of the device, so a restore brings back exactly these
+            const deletedAt: Date = new Date();
+            await AppDataSource.transaction(async (manager: EntityManager) => {
+                await manager.update(Zone, { deviceId, deletedAt: IsNull() }, { deletedAt });
+                await manager.update(Device, deviceId, { deletedAt });
+            });
+        } catch (err: any) {
+            const errorMessage: string = err.message || String(err);
+            throw new Error(`Failed to delete device: ${errorMessage}`);
+        }
+
+        await this.notifyChangeListeners([
+            { scope: 'device', action: 'deleted', deviceId },
+            ...device.zones.map((zone: Zone): DeviceChangeEvent => ({
+                scope: 'zone',
+                action: 'deleted',
+                deviceId,
+                zoneId: zone.id,
+                previousDeviceId: deviceId
+            }))
+        ]);
+    }
+
+    /**
+     * Restore a soft-deleted device and the zones deleted with it
+     * @param deviceId Device ID
+     * @param userId Authenticated user ID
+     * @returns Restored device
+     */
+    async restoreDevice(deviceId: string, userId: string): Promise<Device> {
+        const device: Device | null = await this.deviceRepository.findOne({
+            where: { id: deviceId },
+            relations: ['users'],
+            withDeleted: true
+        });
+
+        if (!device) {
+            throw new Error('Device not found');
+        }
+
+        const hasAccess: boolean = device.users.some((user: User) => user.id === userId);
+        if (!hasAccess) {
+            throw new Error('Access denied to this device');
+        }
+
+        if (!device.deletedAt) {
+            throw new Error('Device is not deleted');
+        }
+
+        let zones: Zone[] = [];
+        try {
+            await this.assertDeviceNumberAvailable(device.deviceNumber, deviceId);
+
+            await AppDataSource.transaction(async (manager: EntityManager) => {
+                zones = await manager.find(Zone, { where: { deviceId, deletedAt: device.deletedAt }, withDeleted: true });
+                await manager.restore(Zone, { deviceId, deletedAt: device.deletedAt });
+                await manager.restore(Device, deviceId);
+            });
+        } catch (err: any) {
+            const errorMessage: string = err.message || String(err);
+            throw new Error(`Failed to restore device: ${errorMessage}`);
+        }
+
+        await this.notifyChangeListeners([
+            { scope: 'device', action: 'restored', deviceId },
+            ...zones.map((zone: Zone): DeviceChangeEvent => ({
+                scope: 'zone',
+                action: 'restored',
+                deviceId,
+                zoneId: zone.id,
+                previousDeviceId: deviceId
+            }))
+        ]);
+
+        return await this.getDeviceById(deviceId, userId);
+    }
+
+    /**
+     * Fetch the soft-deleted devices of a user, e.g. to restore one
+     * @param userId Authenticated user ID
+     * @returns Array of deleted devices
+     */
+    async getDeletedDevices(userId: string): Promise<Device[]> {
+        try {
+            return await this.deviceRepository.createQueryBuilder('device')
+                .withDeleted()
+                .innerJoin('device.users', 'user', 'user.id = :userId', { userId })
+                .where('device.deletedAt IS NOT NULL')
+                .orderBy('device.deletedAt', 'DESC')
+                .getMany();
+        } catch (err: any) {
+            const errorMessage: string = err.message || String(err);
+            throw new Error(`Failed to fetch deleted devices: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get the IDs of the users with access to a device, e.g. to notify them
+     * @param deviceId Device ID
+     * @returns User IDs, empty if the device does not exist
+     */
+    async getDeviceUserIds(deviceId: string): Promise<string[]> {
+        const device: Device | null = await this.deviceRepository.findOne({
+            where: { id: deviceId },
+            relations: ['users']
+        });
+
+        return device ? device.users.map((user: User) => user.id) : [];
+    }
+
+    /**
+     * Register a listener notified when a device or zone is changed, deleted or restored
+     * @param listener The listener
+     */
+    addChangeListener(listener: DeviceChangeListener): void {
+        this.changeListeners.push(listener);
+    }
+
+    /**
+     * Notify the change listeners, a failing listener does not stop the others
+     * @param events Changes in the order they happened
+     */
+    async notifyChangeListeners(events: DeviceChangeEvent[]): Promise<void> {
+        for (const event of events) {
+            for (const listener of this.changeListeners) {
+                try {
+                    await listener(event);
+                } catch (error) {
+                    console.error(`Change listener failed for ${event.scope} ${event.zoneId ?? event.deviceId}:`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Register a listener called before zones are deleted
+     * @param listener The listener
+     */
+    addDeleteListener(listener: ZoneDeleteListener): void {
+        this.deleteListeners.push(listener);
+    }
+
+    /**
+     * Call the delete listeners before zones are deleted, a failing listener does not stop the others
+     * or the delete
+     * @param zoneIds Zones about to be deleted
+     */
+    async notifyDeleteListeners(zoneIds: string[]): Promise<void> {
+        if (zoneIds.length === 0) return;
+
+        for (const listener of this.deleteListeners) {
+            try {
+                await listener(zoneIds);
+            } catch (error) {
+                console.error(`Delete listener failed for zones ${zoneIds.join(', ')}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Topic a device-zone pair publishes telemetry on
+     * @param deviceNumber Device number
+     * @param zoneName Zone name
+     * @returns The topic name
+     */
+    buildZoneTopic(deviceNumber: string, zoneName: string): string {
+        return buildTopicFromTemplate(mqttConfig.topicTemplate, { deviceNumber, zoneName });
+    }
+
+    private async assertDeviceNumberAvailable(deviceNumber: string, deviceId: string): Promise<void> {
+        // Two devices with the same number would share their topics
+        const existing: Device | null = await this.deviceRepository.findOne({
+            where: { deviceNumber, id: Not(deviceId) }
+        });
+
+        if (existing) {
+            throw new Error(`Device number ${deviceNumber} is already in use`);
+        }
+    }
+}
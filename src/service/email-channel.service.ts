@@ -0,0 +1,54 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { Singleton } from '../decorator/singleton.decorator';
+import { notificationConfig } from '../config/notification.config';
+import { Notification } from '../entity/notification.entity';
+import { NotificationDelivery } from '../entity/notification-delivery.entity';
+import { NotificationChannel, NotificationChannelType } from '../interface/notification.interface';
+
+@Singleton
+export class EmailChannelService implements NotificationChannel {
+  public readonly type: NotificationChannelType = 'email';
+  private transporter: Transporter | null = null;
+
+  /**
+   * Send a notification as plain-text email to the delivery target
+   * @param notification The notification
+   * @param delivery The delivery, its target is the recipient
+   */
+  public async send(notification: Notification, delivery: NotificationDelivery): Promise<void> {
+    if (!delivery.target) {
+      throw new Error('No email address to deliver to');
+    }
+
+    await this.getTransporter().sendMail({
+      from: notificationConfig.smtp.from,
+      to: delivery.target,
+      subject: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+      text: [
+        notification.message,
+        '',
+        `Severity: ${notification.severity}`,
+        `Time: ${notification.createdAt.toISOString()}`
+      ].join('\n')
+    });
+  }
+
+  /**
+   * SMTP transport, created on first use so the server starts without a reachable mail server
+   */
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const { host, port, secure, user, pass } = notificationConfig.smtp;
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: user ? { user, pass } : undefined
+      });
+    }
+    return this.transporter;
+  }
+}
+
+// Export singleton instance
+export const emailChannelService = new EmailChannelService();
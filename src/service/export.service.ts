@@ -0,0 +1,249 @@
+import { Writable } from 'stream';
+import { Repository } from 'typeorm';
+import ExcelJS from 'exceljs';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { Device } from '../entity/device.entity';
+import { Reading } from '../entity/reading.entity';
+import { Topic } from '../entity/topic.entity';
+import { Zone } from '../entity/zone.entity';
+import { ExportFormat, ExportQuery, ExportRow } from '../interface/export.interface';
+import { RegisterDefinition } from '../interface/zone-data.interface';
+import { DEFAULT_REGISTER_MAP, findRegister } from '../utils/data-convert.util';
+import { deviceModelService } from './device-model.service';
+import { DeviceService } from './device.service';
+
+// Readings fetched per query while streaming
+const EXPORT_PAGE_SIZE = 5000;
+
+const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  'timestamp', 'device', 'zone', 'topic', 'field', 'channel', 'label', 'unit', 'value', 'rawValue'
+];
+
+/**
+ * A topic to export with the names and registers used to describe its values
+ */
+export interface ExportTarget {
+  topic: Topic;
+  deviceNumber: string;
+  zoneName: string;
+  registers: RegisterDefinition[];
+}
+
+/**
+ * Writes export rows in one file format
+ */
+interface ExportWriter {
+  write(row: ExportRow): Promise<void>;
+  end(): Promise<void>;
+}
+
+@Singleton
+export class ExportService {
+  private readonly topicRepository: Repository<Topic>;
+  private readonly readingRepository: Repository<Reading>;
+  private readonly deviceService: DeviceService;
+
+  constructor() {
+    this.topicRepository = AppDataSource.getRepository(Topic);
+    this.readingRepository = AppDataSource.getRepository(Reading);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Find the topics to export, checking the user has access to their device
+   * Runs before anything is streamed so errors can still be sent as JSON
+   * @param query Device, zone or topic to export
+   * @param userId Authenticated user ID
+   * @returns Topics to export
+   */
+  public async resolveTargets(query: ExportQuery, userId: string): Promise<ExportTarget[]> {
+    let deviceId: string | undefined = query.deviceId;
+    let topics: Topic[];
+
+    if (query.topic) {
+      const topic: Topic | null = await this.topicRepository.findOne({ where: { name: query.topic } });
+      if (!topic || !topic.deviceId) {
+        throw new Error('Topic not found');
+      }
+      deviceId = topic.deviceId;
+      topics = [topic];
+    } else if (deviceId) {
+      topics = await this.topicRepository.find({
+        where: query.zoneId ? { deviceId, zoneId: query.zoneId } : { deviceId },
+        order: { name: 'ASC' }
+      });
+    } else {
+      throw new Error('A device or topic is required');
+    }
+
+    // Throws if the device does not exist or the user has no access to it
+    const device: Device = await this.deviceService.getDeviceById(deviceId, userId);
+    const registers: RegisterDefinition[] = await deviceModelService.getRegistersForDevice(device.id) ?? DEFAULT_REGISTER_MAP;
+
+    return topics.map((topic: Topic) => ({
+      topic,
+      deviceNumber: device.deviceNumber,
+      zoneName: device.zones.find((zone: Zone) => zone.id === topic.zoneId)?.name ?? '',
+      registers
+    }));
+  }
+
+  /**
+   * Stream the readings of the targets in the time range to the output
+   * Readings are fetched page by page so large ranges are never held in memory
+   * @param targets Topics to export
+   * @param query Time range
+   * @param format File format
+   * @param output Stream to write the file to
+   */
+  public async writeExport(targets: ExportTarget[], query: ExportQuery, format: ExportFormat, output: Writable): Promise<void> {
+    const writer: ExportWriter = this.createWriter(format, output);
+
+    for (const target of targets) {
+      let cursor: Reading | undefined;
+
+      do {
+        if (output.destroyed) {
+          throw new Error('Export output closed before the export completed');
+        }
+
+        const page: Reading[] = await this.fetchPage(target.topic.id, query, cursor);
+        for (const reading of page) {
+          await writer.write(this.toRow(target, reading));
+        }
+        cursor = page.length === EXPORT_PAGE_SIZE ? page[page.length - 1] : undefined;
+      } while (cursor);
+    }
+
+    await writer.end();
+  }
+
+  /**
+   * Next page of readings in time, sequence, field and channel order, which is unique per topic
+   */
+  private async fetchPage(topicId: string, query: ExportQuery, after?: Reading): Promise<Reading[]> {
+    const pageQuery = this.readingRepository.createQueryBuilder('reading')
+      .where('reading.topicId = :topicId', { topicId })
+      .andWhere('reading.recordedAt >= :from', { from: query.from })
+      .andWhere('reading.recordedAt <= :to', { to: query.to });
+    if (after) {
+      pageQuery.andWhere('(reading.recordedAt, reading.sequence, reading.field, reading.channel) > (:recordedAt, :sequence, :field, :channel)', {
+        recordedAt: after.recordedAt,
+        sequence: after.sequence,
+        field: after.field,
+        channel: after.channel
+      });
+    }
+
+    return await pageQuery
+      .orderBy('reading.recordedAt', 'ASC')
+      .addOrderBy('reading.sequence', 'ASC')
+      .addOrderBy('reading.field', 'ASC')
+      .addOrderBy('reading.channel', 'ASC')
+      .limit(EXPORT_PAGE_SIZE)
+      .getMany();
+  }
+
+  private toRow(target: ExportTarget, reading: Reading): ExportRow {
+    const register: RegisterDefinition | undefined = findRegister(target.registers, reading.field);
+
+    return {
+      timestamp: reading.recordedAt.toISOString(),
+      device: target.deviceNumber,
+      zone: target.zoneName,
+      topic: target.topic.name,
+      field: reading.field,
+      channel: reading.channel,
+      label: register?.label ?? '',
+      unit: register?.unit ?? '',
+      value: reading.text ?? reading.value ?? null,
+      rawValue: reading.rawValue ?? null
+    };
+  }
+
+  private createWriter(format: ExportFormat, output: Writable): ExportWriter {
+    switch (format) {
+      case 'ndjson':
+        return {
+          write: (row: ExportRow) => this.writeChunk(output, JSON.stringify(row) + '\n'),
+          end: async () => { output.end(); }
+        };
+      case 'xlsx':
+        return this.createXlsxWriter(output);
+      default: {
+        let headerWritten: boolean = false;
+        return {
+          write: async (row: ExportRow) => {
+            if (!headerWritten) {
+              headerWritten = true;
+              await this.writeChunk(output, EXPORT_COLUMNS.join(',') + '\n');
+            }
+            await this.writeChunk(output, EXPORT_COLUMNS.map(column => this.toCsvValue(row[column])).join(',') + '\n');
+          },
+          end: async () => {
+            if (!headerWritten) output.write(EXPORT_COLUMNS.join(',') + '\n');
+            output.end();
+          }
+        };
+      }
+    }
+  }
+
+  /**
+   * Streams rows into a single worksheet, committing each row as it is written
+   * The workbook is piped into the output, rows wait for the output to drain like the text formats do
+   */
+  private createXlsxWriter(output: Writable): ExportWriter {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet('Readings');
+    worksheet.addRow(EXPORT_COLUMNS).commit();
+
+    return {
+      write: async (row: ExportRow) => {
+        worksheet.addRow(EXPORT_COLUMNS.map(column => column === 'timestamp' ? new Date(row.timestamp) : row[column])).commit();
+        if (output.writableNeedDrain) await this.waitForDrain(output);
+      },
+      end: async () => {
+        worksheet.commit();
+        await workbook.commit();
+      }
+    };
+  }
+
+  /**
+   * Writes to the output, waiting for it to drain when its buffer is full
+   */
+  private async writeChunk(output: Writable, chunk: string): Promise<void> {
+    if (output.write(chunk)) return;
+    await this.waitForDrain(output);
+  }
+
+  /**
+   * Waits until the buffer of the output is drained
+   */
+  private async waitForDrain(output: Writable): Promise<void> {
+    if (output.destroyed) return;
+
+    // A client that goes away never drains the output
+    await new Promise<void>(resolve => {
+      const done = (): void => {
+        output.off('drain', done);
+        output.off('close', done);
+        resolve();
+      };
+      output.on('drain', done);
+      output.on('close', done);
+    });
+  }
+
+  private toCsvValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+
+    const text: string = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
@@ -0,0 +1,212 @@
+import { EntityManager, In, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { importConfig } from '../config/import.config';
+import { Device } from '../entity/device.entity';
+import { Reading } from '../entity/reading.entity';
+import { Topic } from '../entity/topic.entity';
+import { Zone } from '../entity/zone.entity';
+import { ImportFormat, ImportReport, ImportRow, ImportRowError, ParsedImport } from '../interface/import.interface';
+import { ProcessedZoneData, RegisterDefinition } from '../interface/zone-data.interface';
+import { findRegister } from '../utils/data-convert.util';
+import { parseImportCsv, parseImportNdjson } from '../utils/import-parse.util';
+import { deviceModelService } from './device-model.service';
+import { DeviceService } from './device.service';
+import { mqttService } from './mqtt.service';
+import { readingService } from './reading.service';
+
+// Keeps reading inserts and timestamp lookups well below the PostgreSQL bind parameter limit
+const IMPORT_CHUNK_SIZE = 1000;
+
+@Singleton
+export class ImportService {
+  private readonly topicRepository: Repository<Topic>;
+  private readonly readingRepository: Repository<Reading>;
+  private readonly deviceService: DeviceService;
+
+  constructor() {
+    this.topicRepository = AppDataSource.getRepository(Topic);
+    this.readingRepository = AppDataSource.getRepository(Reading);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Import historical telemetry of a device-zone pair from a file
+   * Invalid rows, rows without any value and rows with a timestamp that is already stored are skipped;
+   * the latest data of the topic is only replaced by rows newer than it
+   * @param deviceId Device ID
+   * @param zoneId Zone ID
+   * @param format File format
+   * @param content File content
+   * @param userId Authenticated user ID
+   * @returns What was imported and skipped
+   */
+  public async importReadings(
+    deviceId: string, 
+    zoneId: string, 
+    format: ImportFormat, 
+    content: Buffer, 
+    userId: string
+  ): Promise<ImportReport> {
+    // Throws if the device does not exist or the user has no access to it
+    const device: Device = await this.deviceService.getDeviceById(deviceId, userId);
+    const zone: Zone | undefined = device.zones.find((deviceZone: Zone) => deviceZone.id === zoneId);
+    if (!zone) {
+      throw new Error('Zone not found for this device');
+    }
+
+    const topicName: string = mqttService.buildTopic(device.deviceNumber, zone.name);
+    const topicId: string = await readingService.getTopicId(topicName, device.id, zone.id);
+    const topic: Topic = await this.topicRepository.findOneOrFail({ where: { id: topicId }, withDeleted: true });
+
+    const parsed: ParsedImport = format === 'ndjson' 
+      ? parseImportNdjson(content.toString('utf8'), importConfig.maxChannels) 
+      : parseImportCsv(content.toString('utf8'), importConfig.maxChannels);
+    const errors: ImportRowError[] = parsed.errors;
+
+    const validate: (row: ImportRow) => string | null = await this.createLayoutValidator(topic, device.id);
+    const validRows: ImportRow[] = [];
+    for (const row of parsed.rows) {
+      const error: string | null = validate(row);
+      if (error) {
+        errors.push({ line: row.line, error });
+      } else {
+        validRows.push(row);
+      }
+    }
+
+    const newRows: ImportRow[] = await this.removeDuplicates(topic.id, validRows);
+
+    const report: ImportReport = {
+      topic: topicName,
+      rows: parsed.rows.length + parsed.errors.length,
+      imported: newRows.length,
+      duplicates: validRows.length - newRows.length,
+      invalid: errors.length,
+      readings: 0,
+      latestUpdated: false,
+      errors: errors.sort((a, b) => a.line - b.line).slice(0, importConfig.maxReportedErrors)
+    };
+    if (newRows.length === 0) return report;
+
+    const entries: Topic[] = [];
+    const readings: Reading[] = [];
+    for (const row of newRows) {
+      const entry: Topic = await this.createEntry(topic, row, device.id, zone.id);
+      entries.push(entry);
+      readings.push(...await readingService.buildReadings(entry));
+    }
+
+    const newest: Topic = entries.reduce((latest, entry) => entry.lastReceivedAt! > latest.lastReceivedAt! ? entry : latest);
+    report.latestUpdated = !topic.lastReceivedAt || newest.lastReceivedAt! > topic.lastReceivedAt;
+    report.readings = readings.length;
+
+    await AppDataSource.transaction(async (manager: EntityManager) => {
+      for (let i = 0; i < readings.length; i += IMPORT_CHUNK_SIZE) {
+        await manager.createQueryBuilder()
+          .insert()
+          .into(Reading)
+          .values(readings.slice(i, i + IMPORT_CHUNK_SIZE))
+          .orIgnore()
+          .execute();
+      }
+
+      if (report.latestUpdated) {
+        await manager.update(Topic, topic.id, {
+          deviceId: device.id,
+          zoneId: zone.id,
+          data: newest.data,
+          processedData: newest.processedData,
+          isLatest: true,
+          lastReceivedAt: newest.lastReceivedAt
+        });
+      }
+    });
+
+    console.log(`Imported ${report.imported} messages (${report.readings} readings) into topic ${topicName}`);
+    return report;
+  }
+
+  /**
+   * Checks rows against the fields of the latest message of the topic, or the device model registers
+   * if no message was received yet
+   * @param topic The topic
+   * @param deviceId Device the topic belongs to
+   * @returns Row validator returning an error, or null for a valid row
+   */
+  private async createLayoutValidator(topic: Topic, deviceId: string): Promise<(row: ImportRow) => string | null> {
+    const latest: any = topic.data;
+    const layout: Record<string, any> | null = latest && typeof latest === 'object' 
+      ? (latest.d && typeof latest.d === 'object' ? latest.d : latest) 
+      : null;
+    const registers: RegisterDefinition[] | null = await deviceModelService.getRegistersForDevice(deviceId);
+
+    if (!layout && !registers) {
+      throw new Error(`Invalid import: topic ${topic.name} has no field layout yet, send a live message or assign a device model first`);
+    }
+
+    return (row: ImportRow): string | null => {
+      const fields: string[] = Object.keys(row.fields);
+      if (fields.every((field: string) => row.fields[field].every(value => value === null))) return 'Row has no values';
+
+      for (const field of fields) {
+        if (layout) {
+          if (!Object.prototype.hasOwnProperty.call(layout, field)) return `Unknown field ${field}`;
+
+          const channels: number = Array.isArray(layout[field]) ? layout[field].length : 1;
+          if (row.fields[field].length > channels) return `Field ${field} has ${channels} channels`;
+        } else if (!findRegister(registers!, field)) {
+          return `Unknown field ${field}`;
+        }
+      }
+      return null;
+    };
+  }
+
+  /**
+   * Drops rows whose timestamp is already stored or appears earlier in the file
+   */
+  private async removeDuplicates(topicId: string, rows: ImportRow[]): Promise<ImportRow[]> {
+    const seen: Set<number> = new Set();
+    const uniqueRows: ImportRow[] = rows.filter((row: ImportRow) => {
+      const time: number = row.timestamp.getTime();
+      if (seen.has(time)) return false;
+      seen.add(time);
+      return true;
+    });
+
+    const stored: Set<number> = new Set();
+    for (let i = 0; i < uniqueRows.length; i += IMPORT_CHUNK_SIZE) {
+      const timestamps: Date[] = uniqueRows.slice(i, i + IMPORT_CHUNK_SIZE).map((row: ImportRow) => row.timestamp);
+      const existing: { recordedAt: Date }[] = await this.readingRepository.createQueryBuilder('reading')
+        .select('DISTINCT reading.recordedAt', 'recordedAt')
+        .where({ topicId, recordedAt: In(timestamps) })
+        .getRawMany();
+      existing.forEach(row => stored.add(new Date(row.recordedAt).getTime()));
+    }
+
+    return uniqueRows.filter((row: ImportRow) => !stored.has(row.timestamp.getTime()));
+  }
+
+  /**
+   * Turns a row into a topic entry with the same payload layout and conversions as a live message
+   */
+  private async createEntry(topic: Topic, row: ImportRow, deviceId: string, zoneId: string): Promise<Topic> {
+    const data = { d: row.fields, ts: row.timestamp.toISOString() };
+    const processedData: ProcessedZoneData | Record<string, any> = 
+      await deviceModelService.processTopicData(topic.name, data, deviceId);
+
+    const entry: Topic = new Topic();
+    entry.id = topic.id;
+    entry.name = topic.name;
+    entry.deviceId = deviceId;
+    entry.zoneId = zoneId;
+    entry.data = data;
+    entry.processedData = processedData;
+    entry.lastReceivedAt = row.timestamp;
+    return entry;
+  }
+}
+
+// Export singleton instance
+export const importService = new ImportService();
@@ -0,0 +1,33 @@
+import { Singleton } from '../decorator/singleton.decorator';
+import { Notification } from '../entity/notification.entity';
+import { NotificationChannel, NotificationChannelType } from '../interface/notification.interface';
+import { webSocketService } from './websocket.service';
+
+@Singleton
+export class InboxChannelService implements NotificationChannel {
+  public readonly type: NotificationChannelType = 'inbox';
+
+  /**
+   * The notification is already stored in the inbox, push it to the clients of the user
+   * that are connected; the others see it when they open their inbox
+   * @param notification The notification
+   */
+  public async send(notification: Notification): Promise<void> {
+    if (!webSocketService.isInitialized()) return;
+
+    webSocketService.broadcastToUsers([notification.userId], 'notification', {
+      id: notification.id,
+      deviceId: notification.deviceId,
+      zoneId: notification.zoneId,
+      severity: notification.severity,
+      title: notification.title,
+      message: notification.message,
+      source: notification.source,
+      sourceId: notification.sourceId,
+      createdAt: notification.createdAt
+    });
+  }
+}
+
+// Export singleton instance
+export const inboxChannelService = new InboxChannelService();
@@ -0,0 +1,300 @@
+import { EntityManager, IsNull } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { ingestionConfig } from '../config/ingestion.config';
+import { Topic } from '../entity/topic.entity';
+import { Reading } from '../entity/reading.entity';
+import { DeadLetterReason } from '../interface/dead-letter.interface';
+import { IngestionItem, IngestionStats } from '../interface/ingestion.interface';
+import { deadLetterService } from './dead-letter.service';
+
+// Keeps reading inserts well below the PostgreSQL bind parameter limit
+const READING_INSERT_CHUNK_SIZE = 1000;
+
+@Singleton
+export class IngestionService {
+  private queue: IngestionItem[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private stats: IngestionStats = {
+    queueDepth: 0,
+    maxQueueSize: ingestionConfig.maxQueueSize,
+    dropPolicy: ingestionConfig.dropPolicy,
+    enqueued: 0,
+    written: 0,
+    dropped: 0,
+    deadLettered: 0,
+    batches: 0,
+    failedBatches: 0,
+    lastBatchSize: 0,
+    lastWriteLatencyMs: null,
+    avgWriteLatencyMs: null,
+    lastFlushAt: null
+  };
+
+  /**
+   * Start flushing buffered messages - should be called after database is ready
+   */
+  public start(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, ingestionConfig.flushIntervalMs);
+  }
+
+  /**
+   * Stop the flush timer and write whatever is still buffered
+   */
+  public async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Buffer a message for the next batch
+   * Applies the drop policy when the buffer is full
+   * @param topic Topic with the message as its latest data
+   * @param readings Readings of the message
+   * @param historical Insert the readings without touching the latest data of the topic
+   */
+  public enqueue(topic: Topic, readings: Reading[], historical: boolean = false): void {
+    this.push({ topic, readings, attempts: 0, historical });
+  }
+
+  /**
+   * Buffer a message and wait until it is written
+   * Unlike enqueue, a message that cannot be written is not dead-lettered, the promise rejects instead
+   * @param topic Topic with the message as its latest data
+   * @param readings Readings of the message
+   * @param historical Insert the readings without touching the latest data of the topic
+   * @returns Resolves once the message is stored
+   */
+  public persist(topic: Topic, readings: Reading[], historical: boolean = false): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.push({ topic, readings, attempts: 0, historical, completion: { resolve, reject } });
+      this.flush();
+    });
+  }
+
+  private push(item: IngestionItem): void {
+    this.stats.enqueued++;
+
+    if (this.queue.length >= ingestionConfig.maxQueueSize) {
+      this.stats.dropped++;
+
+      if (ingestionConfig.dropPolicy === 'drop-newest') {
+        console.warn(`Ingestion queue full, dropping message for topic ${item.topic.name}`);
+        this.giveUp(item, 'overflow', new Error('Ingestion queue full'));
+        return;
+      }
+
+      const dropped: IngestionItem = this.queue.shift()!;
+      console.warn(`Ingestion queue full, dropping oldest message for topic ${dropped.topic.name}`);
+      this.giveUp(dropped, 'overflow', new Error('Ingestion queue full'));
+    }
+
+    this.queue.push(item);
+
+    // Don't wait for the timer once a full batch is available
+    if (this.queue.length >= ingestionConfig.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Write buffered messages in batches until the buffer is empty
+   * Only one flush runs at a time so messages of a topic are written in arrival order
+   */
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Get queue depth and write metrics
+   * @returns Pipeline statistics
+   */
+  public getStats(): IngestionStats {
+    return { ...this.stats, queueDepth: this.queue.length };
+  }
+
+  /**
+   * Writes batches while messages are buffered
+   * Stops at the first failed batch and leaves the rest for the next flush
+   */
+  private async drain(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    while (this.queue.length > 0) {
+      const batch: IngestionItem[] = this.queue.splice(0, ingestionConfig.batchSize);
+      const written: boolean = await this.writeBatch(batch);
+      if (!written) break;
+    }
+  }
+
+  /**
+   * Writes a batch in a single transaction
+   * If the transaction fails, the messages are written one at a time so a bad message
+   * does not hold back the rest of the batch
+   * @param batch Messages in arrival order
+   * @returns True if every message was written
+   */
+  private async writeBatch(batch: IngestionItem[]): Promise<boolean> {
+    const startedAt: number = Date.now();
+
+    try {
+      await this.write(batch);
+      this.recordBatch(batch, Date.now() - startedAt);
+      return true;
+    } catch (error) {
+      console.error(`Failed to write batch of ${batch.length} messages:`, error);
+      this.stats.failedBatches++;
+
+      if (batch.length === 1) {
+        this.requeue(batch, error);
+        return false;
+      }
+    }
+
+    const written: IngestionItem[] = [];
+    const failed: IngestionItem[] = [];
+    let lastError: unknown = null;
+
+    for (const item of batch) {
+      try {
+        await this.write([item]);
+        written.push(item);
+      } catch (error) {
+        lastError = error;
+        failed.push(item);
+      }
+    }
+
+    if (written.length > 0) {
+      this.recordBatch(written, Date.now() - startedAt);
+    }
+    if (failed.length > 0) {
+      console.error(`Failed to write ${failed.length} of ${batch.length} messages one at a time:`, lastError);
+      this.requeue(failed, lastError);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Writes messages in a single transaction
+   * @param items Messages in arrival order
+   */
+  private async write(items: IngestionItem[]): Promise<void> {
+    await AppDataSource.transaction(async (manager: EntityManager) => {
+      // Only the last live message per topic in the batch becomes the latest data
+      const latestById: Map<string, Topic> = new Map();
+      for (const item of items) {
+        if (!item.historical) latestById.set(item.topic.id, item.topic);
+      }
+      for (const topic of latestById.values()) {
+        // Device and zone are owned by the zone, a message queued before a zone move still carries the old ones
+        await manager.update(Topic, topic.id, {
+          data: topic.data,
+          processedData: topic.processedData,
+          isLatest: true,
+          lastReceivedAt: topic.lastReceivedAt
+        });
+        // Topics stored before they were linked to a zone are linked by their next message
+        if (topic.zoneId) {
+          await manager.update(Topic, { id: topic.id, zoneId: IsNull() }, { deviceId: topic.deviceId, zoneId: topic.zoneId });
+        }
+      }
+
+      // Readings already stored, e.g. by a replay, are skipped
+      const readings: Reading[] = items.flatMap((item: IngestionItem) => item.readings);
+      for (let i = 0; i < readings.length; i += READING_INSERT_CHUNK_SIZE) {
+        await manager.createQueryBuilder()
+          .insert()
+          .into(Reading)
+          .values(readings.slice(i, i + READING_INSERT_CHUNK_SIZE))
+          .orIgnore()
+          .execute();
+      }
+    });
+  }
+
+  /**
+   * Puts failed messages back at the head of the queue to keep ordering
+   * Messages that used up their attempts are moved to the dead-letter store
+   * @param items The failed messages
+   * @param error Why the messages failed
+   */
+  private requeue(items: IngestionItem[], error: unknown): void {
+    const retry: IngestionItem[] = [];
+
+    for (const item of items) {
+      item.attempts++;
+      if (item.attempts >= ingestionConfig.maxAttempts) {
+        console.error(`Giving up on message for topic ${item.topic.name} after ${item.attempts} attempts`);
+        this.giveUp(item, 'persist', error);
+        continue;
+      }
+      retry.push(item);
+    }
+
+    this.queue.unshift(...retry);
+  }
+
+  /**
+   * Moves a message that will not be written to the dead-letter store
+   * @param item The message
+   * @param reason Why it will not be written
+   * @param error The underlying error
+   */
+  private giveUp(item: IngestionItem, reason: DeadLetterReason, error: unknown): void {
+    // The caller waiting for the write handles the failure itself
+    if (item.completion) {
+      item.completion.reject(error);
+      return;
+    }
+
+    this.stats.deadLettered++;
+    deadLetterService.record({
+      topic: item.topic.name,
+      payload: JSON.stringify(item.topic.data ?? null),
+      reason,
+      error,
+      deviceId: item.topic.deviceId,
+      zoneId: item.topic.zoneId,
+      receivedAt: item.topic.lastReceivedAt
+    });
+  }
+
+  /**
+   * Updates write metrics after a successful batch and settles messages waiting for their write
+   * @param items Messages written
+   * @param latencyMs Transaction duration
+   */
+  private recordBatch(items: IngestionItem[], latencyMs: number): void {
+    items.forEach((item: IngestionItem) => item.completion?.resolve());
+
+    const size: number = items.length;
+    const batches: number = this.stats.batches + 1;
+    const previousAvg: number = this.stats.avgWriteLatencyMs ?? 0;
+
+    this.stats.batches = batches;
+    this.stats.written += size;
+    this.stats.lastBatchSize = size;
+    this.stats.lastWriteLatencyMs = latencyMs;
+    this.stats.avgWriteLatencyMs = previousAvg + (latencyMs - previousAvg) / batches;
+    this.stats.lastFlushAt = new Date();
+  }
+}
+
+// Export singleton instance
+export const ingestionService = new IngestionService();
@@ -1,20 +1,55 @@
 import * as mqtt from 'mqtt';
-import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
 import { Singleton } from '../decorator/singleton.decorator';
 import { Device } from '../entity/device.entity';
 import { Topic } from '../entity/topic.entity';
+import { Reading } from '../entity/reading.entity';
 import { Zone } from '../entity/zone.entity';
 import { AppDataSource } from '../config/database.config';
 import { webSocketService } from './websocket.service';
-import { processDataForWebsocket } from '../utils/data-convert.util';
+import { ingestionService } from './ingestion.service';
+import { deadLetterService } from './dead-letter.service';
+import { deviceModelService } from './device-model.service';
+import { readingService } from './reading.service';
+import { dataQualityService } from './data-quality.service';
+import { DeviceService } from './device.service';
 import { ZoneData, ProcessedZoneData } from '../interface/zone-data.interface';
+import { 
+  TopicIdentifiers, 
+  TopicMessageHandler, 
+  TopicSubscription, 
+  TopicSubscriptionEntry 
+} from '../interface/mqtt.interface';
+import { DeadLetter } from '../interface/dead-letter.interface';
+import { TelemetryEvent, TelemetryListener } from '../interface/telemetry.interface';
+import { DeviceChangeEvent } from '../interface/device.interface';
+import { mqttConfig } from '../config/mqtt.config';
+import { 
+  buildTopicFromTemplate, 
+  matchesTopicFilter, 
+  parseTopicWithTemplate, 
+  toWildcardFilter 
+} from '../utils/topic-template.util';
+
+// Topics belonging to no device-zone pair remembered before the cache starts over
+const UNKNOWN_TOPIC_CACHE_SIZE = 10000;
 
 @Singleton
 export class MqttService {
   private client: mqtt.MqttClient | null = null;
   private brokerUrl: string = process.env.MQTT_BROKER_URL!;
   private isConnected: boolean = false;
-  private topicSubscriptions: Map<string, { deviceId?: string, zoneId?: string }> = new Map();
+  private topicSubscriptions: Map<string, TopicSubscription> = new Map();
+  private topicHandlers: Map<string, TopicMessageHandler> = new Map();
+  private telemetryListeners: TelemetryListener[] = [];
+  // Messages being handled per topic, each one waits for the previous message of its topic
+  private readonly messageChains: Map<string, Promise<void>> = new Map();
+  // Topics received through the wildcard filter that belong to no device-zone pair
+  private readonly unknownTopics: Set<string> = new Set();
+  private readonly topicTemplate: string = mqttConfig.topicTemplate;
+  private readonly wildcardFilter: string | null = mqttConfig.useWildcardSubscriptions 
+    ? toWildcardFilter(mqttConfig.topicTemplate) 
+    : null;
 
   constructor() {
     // We'll initialize after the database is ready
@@ -32,6 +67,13 @@ export class MqttService {
         return;
       }
 
+      if (mqttConfig.useWildcardSubscriptions && !this.wildcardFilter) {
+        console.warn(`Topic template ${this.topicTemplate} cannot be subscribed with wildcards, subscribing per device-zone pair`);
+      }
+
+      // Follow zones that are renamed, moved, deleted or restored through the API
+      new DeviceService().addChangeListener((event: DeviceChangeEvent) => this.handleDeviceChange(event));
+
       this.client = mqtt.connect(this.brokerUrl, {
         clientId: `mqtt_data_service_${Math.random().toString(16).slice(2, 8)}`,
         username: process.env.MQTT_USERNAME!,
@@ -65,9 +107,9 @@ export class MqttService {
       this.isConnected = false;
     });
 
-    this.client.on('message', async (topic: string, message: Buffer) => {
+    this.client.on('message', (topic: string, message: Buffer) => {
       console.log(`Received message on topic: ${topic}`);
-      await this.handleMessage(topic, message);
+      this.chainMessage(topic, message);
     });
 
     this.client.on('close', () => {
@@ -76,19 +118,61 @@ export class MqttService {
     });
   }
 
+  /**
+   * Handles the messages of a topic one at a time, in the order they were received
+   * Conversion and lookups take a varying time, handled side by side a newer message could reach
+   * the ingestion queue and the telemetry listeners before an older one
+   */
+  private chainMessage(topic: string, message: Buffer): Promise<void> {
+    const previous: Promise<void> = this.messageChains.get(topic) ?? Promise.resolve();
+    const current: Promise<void> = previous
+      .then(() => this.handleMessage(topic, message))
+      .catch((error: unknown) => console.error(`Failed to handle message on topic ${topic}:`, error))
+      .finally(() => {
+        // Topics with nothing left to handle are dropped, the chain of a busy topic is kept
+        if (this.messageChains.get(topic) === current) this.messageChains.delete(topic);
+      });
+    this.messageChains.set(topic, current);
+    return current;
+  }
+
   /**
    * Processes and stores messages received on subscribed topics
    * Creates topic entries in the database if they don't exist
    */
   private async handleMessage(topic: string, message: Buffer): Promise<void> {
     try {
-      const topicInfo: { deviceId?: string, zoneId?: string } | undefined = this.topicSubscriptions.get(topic);
+      // Topics claimed by other services (e.g. command acknowledgements) are not telemetry
+      for (const [filter, handler] of this.topicHandlers) {
+        if (matchesTopicFilter(filter, topic)) {
+          await handler(topic, message);
+          return;
+        }
+      }
+
+      const topicInfo: TopicSubscription | undefined = 
+        this.topicSubscriptions.get(topic) ?? await this.resolveTopic(topic);
       if (!topicInfo) {
         console.warn(`Received message on topic ${topic}, but no subscription info found`);
         return;
       }
 
-      const data: object = this.parseMessage(message);
+      let data: ZoneData | Record<string, any>;
+      try {
+        data = this.parseMessage(message);
+      } catch (error) {
+        // Keep the raw payload so it can be replayed once the cause is fixed
+        await deadLetterService.record({
+          topic,
+          payload: message.toString(),
+          reason: 'parse',
+          error,
+          deviceId: topicInfo.deviceId,
+          zoneId: topicInfo.zoneId
+        });
+        return;
+      }
+
       // We'll store both topic and data in storeTopicData now
       await this.storeTopicData(topic, data, topicInfo.deviceId, topicInfo.zoneId);
     } catch (error) {
@@ -98,21 +182,85 @@ export class MqttService {
 
   /**
    * Converts buffer message to JSON object
-   * Falls back to raw string if JSON parsing fails
+   * Throws if the payload is not a JSON object
    */
   private parseMessage(message: Buffer): ZoneData | Record<string, any> {
+    const messageStr: string = message.toString();
+    const data: unknown = JSON.parse(messageStr);
+
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Payload is not a JSON object');
+    }
+    return data as ZoneData | Record<string, any>;
+  }
+
+  /**
+   * Re-processes a dead letter once the cause of its failure is fixed
+   * The message is stored as historical data and not broadcast as a live update;
+   * if the write fails again it is dead-lettered anew
+   * @param id Dead letter ID
+   */
+  public async replayDeadLetter(id: string): Promise<void> {
+    const deadLetter: DeadLetter = await deadLetterService.get(id);
+
     try {
-      const messageStr: string = message.toString();
-      return JSON.parse(messageStr);
+      const data: ZoneData | Record<string, any> = this.parseMessage(Buffer.from(deadLetter.payload, 'utf8'));
+
+      const topicInfo: TopicSubscription | undefined = deadLetter.deviceId 
+        ? { deviceId: deadLetter.deviceId, zoneId: deadLetter.zoneId }
+        : this.topicSubscriptions.get(deadLetter.topic) ?? await this.resolveTopic(deadLetter.topic);
+      if (!topicInfo) {
+        throw new Error(`Topic ${deadLetter.topic} does not belong to a device-zone pair`);
+      }
+
+      const processedData: ProcessedZoneData | Record<string, any> = 
+        await deviceModelService.processTopicData(deadLetter.topic, data, topicInfo.deviceId);
+      const topicEntry: Topic = await this.createTopicEntry(
+        deadLetter.topic, 
+        data, 
+        processedData,
+        topicInfo.deviceId, 
+        topicInfo.zoneId, 
+        new Date(deadLetter.receivedAt)
+      );
+      const readings: Reading[] = await readingService.buildReadings(topicEntry);
+      await dataQualityService.assess(topicEntry, readings, false);
+      // Only removed once stored, a replay that cannot be written keeps the dead letter
+      await ingestionService.persist(topicEntry, readings, true);
+      await deadLetterService.remove(deadLetter.id);
     } catch (error) {
-      console.warn('Failed to parse message as JSON, returning raw string');
-      return { rawData: message.toString() };
+      await deadLetterService.markReplayFailed(deadLetter, error);
+      throw error;
     }
   }
 
   /**
-   * Stores the received topic data in the database and broadcasts via WebSocket
-   * Now it also creates the topic entry if it doesn't exist yet
+   * Creates a topic entry carrying a message, ready for the ingestion pipeline
+   * The topic is looked up, or created on its first message, so broadcasts can reference it before the write
+   */
+  private async createTopicEntry(
+    topicName: string, 
+    data: ZoneData | Record<string, any>, 
+    processedData: ProcessedZoneData | Record<string, any>,
+    deviceId: string | undefined, 
+    zoneId: string | undefined, 
+    receivedAt: Date
+  ): Promise<Topic> {
+    const topicEntry: Topic = new Topic();
+    topicEntry.id = await readingService.getTopicId(topicName, deviceId, zoneId);
+    topicEntry.name = topicName;
+    topicEntry.deviceId = deviceId;
+    topicEntry.zoneId = zoneId;
+    topicEntry.data = data;
+    topicEntry.processedData = processedData;
+    topicEntry.isLatest = true;
+    topicEntry.lastReceivedAt = receivedAt;
+    return topicEntry;
+  }
+
+  /**
+   * Queues the received topic data for storage and broadcasts via WebSocket
+   * Writes happen in batches through the ingestion pipeline, the broadcast does not wait for them
    */
   private async storeTopicData(
     topicName: string, 
@@ -121,54 +269,117 @@ export class MqttService {
     zoneId?: string
   ): Promise<void> {
     try {
-      const topicRepository: Repository<Topic> = AppDataSource.getRepository(Topic);
-      
-      // First, mark all previous entries for this topic as not latest
-      await topicRepository
-        .createQueryBuilder()
-        .update(Topic)
-        .set({ isLatest: false })
-        .where("name = :name AND isLatest = :isLatest", { name: topicName, isLatest: true })
-        .execute();
-      
-      // Create new topic entry
-      const newTopic: Topic = new Topic();
-      newTopic.name = topicName;
-      newTopic.deviceId = deviceId;
-      newTopic.zoneId = zoneId;
-      newTopic.data = data;
-      newTopic.isLatest = true;
-      
-      // Save to database - this handles both creating the first entry and adding new data entries
-      const savedTopic: Topic = await topicRepository.save(newTopic);
-      console.log(`Added new data entry for topic ${topicName}`);
-      
-      // Process data for websocket using conversion utility
-      const processedData: ProcessedZoneData | Record<string, any> = processDataForWebsocket(topicName, data);
-      console.log("processedData:", processedData);
-      
+      // Process data using conversion utility and the device model, if any
+      const processedData: ProcessedZoneData | Record<string, any> = 
+        await deviceModelService.processTopicData(topicName, data, deviceId);
+
+      // Store the processed values next to the raw payload
+      const newTopic: Topic = await this.createTopicEntry(topicName, data, processedData, deviceId, zoneId, new Date());
+      const readings: Reading[] = await readingService.buildReadings(newTopic);
+
+      // Flags the readings and adds their quality to the processed data
+      const flaggedData: ProcessedZoneData | Record<string, any> = await dataQualityService.assess(newTopic, readings);
+      ingestionService.enqueue(newTopic, readings);
       
       // Broadcast the processed update via WebSocket
       if (webSocketService.isInitialized()) {
-        webSocketService.broadcastTopicUpdate(savedTopic, processedData);
+        webSocketService.broadcastTopicUpdate(newTopic, flaggedData);
       }
+
+      await this.notifyTelemetryListeners({
+        topicName,
+        deviceId,
+        zoneId,
+        data,
+        processedData: flaggedData,
+        receivedAt: newTopic.lastReceivedAt!
+      });
     } catch (error) {
       console.error(`Failed to store topic data for ${topicName}:`, error);
     }
   }
 
+  /**
+   * Registers a listener notified of every telemetry message after conversion
+   * @param listener The telemetry listener
+   */
+  public addTelemetryListener(listener: TelemetryListener): void {
+    this.telemetryListeners.push(listener);
+  }
+
+  /**
+   * Notifies telemetry listeners, a failing listener does not affect the others
+   * @param event The telemetry event
+   */
+  private async notifyTelemetryListeners(event: TelemetryEvent): Promise<void> {
+    for (const listener of this.telemetryListeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`Telemetry listener failed for topic ${event.topicName}:`, error);
+      }
+    }
+  }
+
   /**
    * Creates MQTT topic string from device number and zone name
-   * Format: deviceNumberzoneName (e.g., 00009zone1)
+   * Format follows the configured template, by default deviceNumberzoneName (e.g., 00009zone1)
    * Sanitizes inputs to ensure valid MQTT topic format
    */
   public buildTopic(deviceNumber: string, zoneName: string): string {
-    // Sanitize inputs to ensure valid MQTT topic
-    const sanitizedDeviceNumber: string = deviceNumber.replace(/[#+]/g, '_');
-    const sanitizedZoneName: string = zoneName.replace(/[#+]/g, '_');
-    
-    // Directly concatenate device number and zone name as per example: 00009zone1
-    return `${sanitizedDeviceNumber}${sanitizedZoneName}`;
+    return buildTopicFromTemplate(this.topicTemplate, { deviceNumber, zoneName });
+  }
+
+  /**
+   * Parses an MQTT topic back into device number and zone name using the configured template
+   * @param topic The received topic
+   * @returns The identifiers, or null if the template is ambiguous or the topic does not match
+   */
+  public parseTopic(topic: string): Partial<TopicIdentifiers> | null {
+    return parseTopicWithTemplate(this.topicTemplate, topic);
+  }
+
+  /**
+   * Attributes a topic missing from the subscription table to its device-zone pair
+   * Messages delivered through a wildcard filter may belong to pairs created after the last sync
+   * @param topic The received topic
+   * @returns Subscription info if a matching device-zone pair exists
+   */
+  private async resolveTopic(topic: string): Promise<TopicSubscription | undefined> {
+    // Known misses are not looked up again until the subscription table changes
+    if (this.unknownTopics.has(topic)) {
+      return undefined;
+    }
+
+    const identifiers: Partial<TopicIdentifiers> | null = this.parseTopic(topic);
+    if (!identifiers?.deviceNumber || !identifiers.zoneName) {
+      this.rememberUnknownTopic(topic);
+      return undefined;
+    }
+
+    const zone: Zone | null = await AppDataSource.getRepository(Zone)
+      .createQueryBuilder('zone')
+      .innerJoinAndSelect('zone.device', 'device')
+      .where('device.deviceNumber = :deviceNumber', { deviceNumber: identifiers.deviceNumber })
+      .andWhere('zone.name = :zoneName', { zoneName: identifiers.zoneName })
+      .getOne();
+
+    if (!zone) {
+      this.rememberUnknownTopic(topic);
+      return undefined;
+    }
+
+    const info: TopicSubscription = { deviceId: zone.device.id, zoneId: zone.id, subscribedAt: new Date() };
+    this.topicSubscriptions.set(topic, info);
+    return info;
+  }
+
+  private rememberUnknownTopic(topic: string): void {
+    // Bounded so random topics cannot grow the cache without limit
+    if (this.unknownTopics.size >= UNKNOWN_TOPIC_CACHE_SIZE) {
+      this.unknownTopics.clear();
+    }
+    this.unknownTopics.add(topic);
   }
 
   /**
@@ -183,6 +394,17 @@ export class MqttService {
     
     console.log('MQTT client connected, setting up subscriptions');
     
+    // Clean sessions drop every subscription on the broker side, so start from an empty table
+    this.topicSubscriptions.clear();
+
+    // A single wildcard filter covers every device-zone pair
+    if (this.wildcardFilter) {
+      await this.subscribeToFilter(this.wildcardFilter);
+    }
+
+    // Restore filters registered by other services
+    await Promise.all(Array.from(this.topicHandlers.keys()).map((filter: string) => this.subscribeToFilter(filter)));
+    
     // Find all device-zone pairs and subscribe to them
     await this.subscribeToAllDeviceZonePairs();
   }
@@ -199,52 +421,290 @@ export class MqttService {
     try {
       console.log('Finding device-zone pairs to subscribe...');
       
-      // Get all devices with their zones
-      const devices: Device[] = await AppDataSource.getRepository(Device).find({ 
-        relations: ['zones'] 
-      });
-      
-      console.log(`Found ${devices.length} devices in database`);
-      
-      // Track subscription stats
-      let subscriptionCount: number = 0;
-      const subscriptionPromises: Promise<void>[] = [];
-      
-      // Process all device-zone pairs
-      for (const device of devices) {
-        if (!device.zones?.length) continue;
-        
-        for (const zone of device.zones) {
-          const topicName: string = this.buildTopic(device.deviceNumber, zone.name);
-          subscriptionCount++;
-          
-          // Create a promise for each subscription
-          const subscriptionPromise: Promise<void> = new Promise<void>((resolve) => {
-            this.client!.subscribe(topicName, (err) => {
-              if (err) {
-                console.error(`Failed to subscribe to topic ${topicName}:`, err);
-              } else {
-                console.log(`Subscribed to topic: ${topicName}`);
-                this.topicSubscriptions.set(topicName, { 
-                  deviceId: device.id, 
-                  zoneId: zone.id 
-                });
-              }
-              resolve();
-            });
-          });
-          
-          subscriptionPromises.push(subscriptionPromise);
-        }
-      }
-      
-      // Wait for all subscriptions to complete
-      await Promise.all(subscriptionPromises);
+      const subscriptionCount: number = await this.syncSubscriptions();
       console.log(`Subscribed to ${subscriptionCount} topics from device-zone pairs`);
     } catch (error) {
       console.error('Failed to subscribe to device-zone pairs:', error);
     }
   }
+
+  /**
+   * Reconciles the subscription table with the device-zone pairs in the database
+   * Subscribes to topics of new pairs and unsubscribes from topics no longer backed by a pair
+   * @returns Number of topics subscribed after the sync
+   */
+  public async syncSubscriptions(): Promise<number> {
+    if (!this.isConnected || !this.client) {
+      console.warn('MQTT client not connected, subscriptions will be synced on connect');
+      return this.topicSubscriptions.size;
+    }
+
+    // Get all devices with their zones
+    const devices: Device[] = await AppDataSource.getRepository(Device).find({ 
+      relations: ['zones'] 
+    });
+    
+    console.log(`Found ${devices.length} devices in database`);
+
+    // Build the desired subscription table from all device-zone pairs
+    const desired: Map<string, TopicSubscription> = new Map();
+    for (const device of devices) {
+      if (!device.zones?.length) continue;
+      
+      for (const zone of device.zones) {
+        desired.set(this.buildTopic(device.deviceNumber, zone.name), { 
+          deviceId: device.id, 
+          zoneId: zone.id 
+        });
+      }
+    }
+
+    const subscriptionPromises: Promise<boolean>[] = [];
+
+    // Drop topics that no longer belong to a device-zone pair
+    for (const topicName of this.topicSubscriptions.keys()) {
+      if (!desired.has(topicName)) {
+        subscriptionPromises.push(this.unsubscribeFromTopic(topicName));
+      }
+    }
+
+    // Subscribe to topics of pairs that are not subscribed yet
+    for (const [topicName, info] of desired) {
+      const current: TopicSubscription | undefined = this.topicSubscriptions.get(topicName);
+      if (current && current.zoneId === info.zoneId && current.deviceId === info.deviceId) continue;
+      subscriptionPromises.push(this.subscribeToTopic(topicName, info));
+    }
+
+    // Wait for all subscriptions to complete
+    await Promise.all(subscriptionPromises);
+    return this.topicSubscriptions.size;
+  }
+
+  /**
+   * Subscribes to the topic of a single zone
+   * Called when a zone is created so data flows without a restart
+   * @param zoneId The zone ID
+   */
+  public async subscribeZone(zoneId: string): Promise<void> {
+    const zone: Zone | null = await AppDataSource.getRepository(Zone).findOne({
+      where: { id: zoneId },
+      relations: ['device']
+    });
+
+    if (!zone || !zone.device) {
+      console.warn(`Zone ${zoneId} or its device not found, cannot subscribe`);
+      return;
+    }
+
+    if (!this.isConnected || !this.client) {
+      console.warn(`MQTT client not connected, zone ${zoneId} will be subscribed on connect`);
+      return;
+    }
+
+    const topicName: string = this.buildTopic(zone.device.deviceNumber, zone.name);
+    await this.subscribeToTopic(topicName, { deviceId: zone.device.id, zoneId: zone.id });
+  }
+
+  /**
+   * Unsubscribes from every topic subscribed for a zone
+   * Called when a zone is removed or before it is renamed
+   * @param zoneId The zone ID
+   */
+  public async unsubscribeZone(zoneId: string): Promise<void> {
+    const topicNames: string[] = this.getTopicsForZone(zoneId);
+    await Promise.all(topicNames.map((topicName: string) => this.unsubscribeFromTopic(topicName)));
+  }
+
+  /**
+   * Replaces the subscription of a zone with the topic derived from its current name and device
+   * Called when a zone or its device is renamed or moved
+   * @param zoneId The zone ID
+   */
+  public async refreshZoneSubscription(zoneId: string): Promise<void> {
+    await this.unsubscribeZone(zoneId);
+    await this.subscribeZone(zoneId);
+  }
+
+  /**
+   * Keeps the subscription of a changed zone in line with its name and device
+   * @param event The device or zone change
+   */
+  private async handleDeviceChange(event: DeviceChangeEvent): Promise<void> {
+    if (event.scope !== 'zone' || !event.zoneId) return;
+
+    if (event.action === 'deleted') {
+      await this.unsubscribeZone(event.zoneId);
+    } else {
+      await this.refreshZoneSubscription(event.zoneId);
+    }
+  }
+
+  /**
+   * Get the topic names currently subscribed for a zone
+   * @param zoneId The zone ID
+   * @returns Topic names
+   */
+  public getTopicsForZone(zoneId: string): string[] {
+    const topicNames: string[] = [];
+    for (const [topicName, info] of this.topicSubscriptions) {
+      if (info.zoneId === zoneId) topicNames.push(topicName);
+    }
+    return topicNames;
+  }
+
+  /**
+   * Get the current subscription table
+   * @returns Subscribed topics with their device-zone pair
+   */
+  public getSubscriptions(): TopicSubscriptionEntry[] {
+    return Array.from(this.topicSubscriptions.entries()).map(([topic, info]) => ({
+      topic,
+      ...info
+    }));
+  }
+
+  /**
+   * Subscribes to a topic and records it in the subscription table
+   * @param topicName The topic to subscribe to
+   * @param info Device-zone pair the topic belongs to
+   * @returns True if the subscription succeeded
+   */
+  private subscribeToTopic(topicName: string, info: TopicSubscription): Promise<boolean> {
+    // Covered by the wildcard filter, only the table needs updating
+    if (this.wildcardFilter) {
+      this.topicSubscriptions.set(topicName, { ...info, subscribedAt: new Date() });
+      // A topic that belonged to no pair may belong to this one now
+      this.unknownTopics.clear();
+      return Promise.resolve(true);
+    }
+
+    return new Promise<boolean>((resolve) => {
+      if (!this.client) {
+        resolve(false);
+        return;
+      }
+
+      this.client.subscribe(topicName, (err) => {
+        if (err) {
+          console.error(`Failed to subscribe to topic ${topicName}:`, err);
+          resolve(false);
+          return;
+        }
+
+        console.log(`Subscribed to topic: ${topicName}`);
+        this.topicSubscriptions.set(topicName, { ...info, subscribedAt: new Date() });
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Subscribes to a wildcard filter without recording it in the subscription table
+   * @param filter The MQTT subscription filter
+   * @returns True if the subscription succeeded
+   */
+  private subscribeToFilter(filter: string): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      if (!this.client) {
+        resolve(false);
+        return;
+      }
+
+      this.client.subscribe(filter, (err) => {
+        if (err) {
+          console.error(`Failed to subscribe to filter ${filter}:`, err);
+          resolve(false);
+          return;
+        }
+
+        console.log(`Subscribed to filter: ${filter}`);
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Routes messages matching a filter to a handler instead of the telemetry pipeline
+   * The filter is subscribed right away if connected and again on every reconnect
+   * @param filter The MQTT subscription filter
+   * @param handler The message handler
+   */
+  public async registerTopicHandler(filter: string, handler: TopicMessageHandler): Promise<void> {
+    this.topicHandlers.set(filter, handler);
+
+    if (this.isConnected && this.client) {
+      await this.subscribeToFilter(filter);
+    }
+  }
+
+  /**
+   * Publishes a message to a topic
+   * @param topic The topic to publish to
+   * @param payload Object payloads are serialized as JSON
+   * @param options Publish options
+   */
+  public publish(topic: string, payload: object | string, options: mqtt.IClientPublishOptions = { qos: 1 }): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (!this.isConnected || !this.client) {
+        reject(new Error('MQTT client not connected'));
+        return;
+      }
+
+      const message: string = typeof payload === 'string' ? payload : JSON.stringify(payload);
+      this.client.publish(topic, message, options, (err?: Error) => {
+        if (err) {
+          console.error(`Failed to publish to topic ${topic}:`, err);
+          reject(err);
+          return;
+        }
+
+        console.log(`Published message to topic: ${topic}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Get the wildcard filter used instead of per-pair subscriptions
+   * @returns The filter, or null when subscribing per device-zone pair
+   */
+  public getSubscriptionFilter(): string | null {
+    return this.wildcardFilter;
+  }
+
+  /**
+   * Unsubscribes from a topic and removes it from the subscription table
+   * @param topicName The topic to unsubscribe from
+   * @returns True if the unsubscription succeeded
+   */
+  private unsubscribeFromTopic(topicName: string): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      // Remove first so late messages on the topic are ignored
+      this.topicSubscriptions.delete(topicName);
+
+      // Covered by the wildcard filter, nothing to unsubscribe on the broker
+      if (this.wildcardFilter) {
+        resolve(true);
+        return;
+      }
+
+      if (!this.client) {
+        resolve(false);
+        return;
+      }
+
+      this.client.unsubscribe(topicName, (err?: Error) => {
+        if (err) {
+          console.error(`Failed to unsubscribe from topic ${topicName}:`, err);
+          resolve(false);
+          return;
+        }
+
+        console.log(`Unsubscribed from topic: ${topicName}`);
+        resolve(true);
+      });
+    });
+  }
   
   /**
    * Get MQTT connection status
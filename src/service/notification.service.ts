@@ -0,0 +1,463 @@
+import { FindOptionsWhere, In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { notificationConfig } from '../config/notification.config';
+import { Notification } from '../entity/notification.entity';
+import { NotificationDelivery } from '../entity/notification-delivery.entity';
+import { NotificationPreference } from '../entity/notification-preference.entity';
+import { User } from '../entity/user.entity';
+import { createNotificationPreferenceRequest, updateNotificationPreferenceRequest } from '../dto/request/notification.request';
+import { AlertSeverity } from '../interface/alert.interface';
+import { DeliveryFilter, NotificationChannel, NotificationChannelType, NotificationRequest } from '../interface/notification.interface';
+import { getQuietHoursEnd, isValidTimeZone } from '../utils/quiet-hours.util';
+import { DeviceService } from './device.service';
+import { emailChannelService } from './email-channel.service';
+import { inboxChannelService } from './inbox-channel.service';
+import { webhookChannelService } from './webhook-channel.service';
+
+const SEVERITY_RANK: { [severity in AlertSeverity]: number } = {
+  info: 0,
+  warning: 1,
+  critical: 2
+};
+
+// Due deliveries sent per dispatch round
+const DISPATCH_BATCH_SIZE = 100;
+
+@Singleton
+export class NotificationService {
+  private readonly notificationRepository: Repository<Notification>;
+  private readonly deliveryRepository: Repository<NotificationDelivery>;
+  private readonly preferenceRepository: Repository<NotificationPreference>;
+  private readonly userRepository: Repository<User>;
+  private readonly deviceService: DeviceService;
+  private readonly channels: Map<NotificationChannelType, NotificationChannel> = new Map();
+  private dispatchTimer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<void> | null = null;
+
+  constructor() {
+    this.notificationRepository = AppDataSource.getRepository(Notification);
+    this.deliveryRepository = AppDataSource.getRepository(NotificationDelivery);
+    this.preferenceRepository = AppDataSource.getRepository(NotificationPreference);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.deviceService = new DeviceService();
+
+    this.registerChannel(emailChannelService);
+    this.registerChannel(webhookChannelService);
+    this.registerChannel(inboxChannelService);
+  }
+
+  /**
+   * Start sending due deliveries - should be called after database is ready
+   * Deliveries left pending by a previous run are picked up by the first round
+   */
+  public start(): void {
+    if (this.dispatchTimer) return;
+
+    this.dispatchTimer = setInterval(() => {
+      this.dispatch();
+    }, notificationConfig.dispatchIntervalMs);
+  }
+
+  /**
+   * Stop the dispatch timer, pending deliveries are sent after the next start
+   */
+  public stop(): void {
+    if (this.dispatchTimer) {
+      clearInterval(this.dispatchTimer);
+      this.dispatchTimer = null;
+    }
+  }
+
+  /**
+   * Register a channel, replacing the built-in channel of the same type
+   * @param channel The notification channel
+   */
+  public registerChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.type, channel);
+  }
+
+  /**
+   * Notify the users with access to a device through the channels they subscribed to
+   * Users without any preference get the notification in their inbox only.
+   * Never throws, a failing notification is only logged
+   * @param request The event to notify about
+   */
+  public async notify(request: NotificationRequest): Promise<void> {
+    try {
+      const userIds: string[] = await this.deviceService.getDeviceUserIds(request.deviceId);
+      if (userIds.length === 0) return;
+
+      const users: User[] = await this.userRepository.find({ where: { id: In(userIds) } });
+      const preferences: NotificationPreference[] = await this.preferenceRepository.find({
+        where: { userId: In(userIds) }
+      });
+      const now: Date = new Date();
+
+      for (const user of users) {
+        const userPreferences: NotificationPreference[] = preferences.filter(
+          (preference: NotificationPreference) => preference.userId === user.id
+        );
+        const matching: (NotificationPreference | null)[] = userPreferences.length === 0
+          ? [null]
+          : userPreferences.filter((preference: NotificationPreference) => this.matches(preference, request));
+        if (matching.length === 0) continue;
+
+        const notification: Notification = await this.createNotification(user.id, request);
+        for (const preference of matching) {
+          await this.createDelivery(notification, preference, user, now);
+        }
+      }
+
+      this.dispatch();
+    } catch (error) {
+      console.error(`Failed to notify users of device ${request.deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Send a test notification through a single preference, ignoring its quiet hours
+   * @param id Preference ID
+   * @param userId Authenticated user ID
+   * @returns The delivery after its first attempt
+   */
+  public async sendTest(id: string, userId: string): Promise<NotificationDelivery> {
+    const preference: NotificationPreference = await this.getPreferenceById(id, userId);
+    const user: User = await this.userRepository.findOneOrFail({ where: { id: userId } });
+
+    const notification: Notification = await this.createNotification(userId, {
+      deviceId: preference.deviceId ?? '',
+      severity: 'info',
+      title: 'Test notification',
+      message: `Test notification through your ${preference.channel} preference`,
+      source: 'test'
+    });
+    const delivery: NotificationDelivery = await this.createDelivery(notification, preference, user, new Date(), true);
+
+    await this.attempt(delivery, notification, preference);
+    return await this.deliveryRepository.findOneOrFail({ where: { id: delivery.id } });
+  }
+
+  /**
+   * Get the inbox of a user
+   * @param userId Authenticated user ID
+   * @param unreadOnly Only notifications that were not read yet
+   * @param limit Maximum number of notifications
+   * @returns Notifications, newest first, and the number of unread notifications
+   */
+  public async getInbox(userId: string, unreadOnly: boolean = false, limit: number = 50): Promise<{
+    notifications: Notification[],
+    unread: number
+  }> {
+    const notifications: Notification[] = await this.notificationRepository.find({
+      where: unreadOnly ? { userId, readAt: IsNull() } : { userId },
+      order: { createdAt: 'DESC' },
+      take: limit
+    });
+    const unread: number = await this.notificationRepository.count({ where: { userId, readAt: IsNull() } });
+
+    return { notifications, unread };
+  }
+
+  /**
+   * Mark a notification of the user as read
+   * @param id Notification ID
+   * @param userId Authenticated user ID
+   * @returns The notification
+   */
+  public async markRead(id: string, userId: string): Promise<Notification> {
+    const notification: Notification | null = await this.notificationRepository.findOne({ where: { id, userId } });
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationRepository.save(notification);
+    }
+    return notification;
+  }
+
+  /**
+   * Mark every notification of the user as read
+   * @param userId Authenticated user ID
+   * @returns Number of notifications marked as read
+   */
+  public async markAllRead(userId: string): Promise<number> {
+    const result = await this.notificationRepository.update({ userId, readAt: IsNull() }, { readAt: new Date() });
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Subscribe the user to notifications through a channel
+   * @param request Preference creation request
+   * @param userId Authenticated user ID
+   * @returns Created preference
+   */
+  public async createPreference(request: createNotificationPreferenceRequest, userId: string): Promise<NotificationPreference> {
+    if (request.deviceId) {
+      // Throws if the device does not exist or the user has no access to it
+      await this.deviceService.getDeviceById(request.deviceId, userId);
+    }
+
+    const preference: NotificationPreference = new NotificationPreference();
+    preference.userId = userId;
+    preference.deviceId = request.deviceId ?? null;
+    preference.channel = request.channel;
+    preference.minSeverity = request.minSeverity ?? 'warning';
+    preference.target = request.target ?? null;
+    preference.secret = request.secret ?? null;
+    preference.quietHoursStart = request.quietHoursStart ?? null;
+    preference.quietHoursEnd = request.quietHoursEnd ?? null;
+    preference.timeZone = request.timeZone ?? 'UTC';
+    preference.enabled = request.enabled ?? true;
+    this.validatePreference(preference);
+
+    return await this.preferenceRepository.save(preference);
+  }
+
+  /**
+   * Update a preference of the user
+   * @param id Preference ID
+   * @param request Preference update request
+   * @param userId Authenticated user ID
+   * @returns Updated preference
+   */
+  public async updatePreference(
+    id: string,
+    request: updateNotificationPreferenceRequest,
+    userId: string
+  ): Promise<NotificationPreference> {
+    const preference: NotificationPreference = await this.getPreferenceById(id, userId);
+
+    if (request.minSeverity !== undefined) preference.minSeverity = request.minSeverity;
+    if (request.target !== undefined) preference.target = request.target;
+    if (request.secret !== undefined) preference.secret = request.secret;
+    if (request.quietHoursStart !== undefined) preference.quietHoursStart = request.quietHoursStart;
+    if (request.quietHoursEnd !== undefined) preference.quietHoursEnd = request.quietHoursEnd;
+    if (request.timeZone !== undefined) preference.timeZone = request.timeZone;
+    if (request.enabled !== undefined) preference.enabled = request.enabled;
+    this.validatePreference(preference);
+
+    return await this.preferenceRepository.save(preference);
+  }
+
+  /**
+   * Delete a preference of the user, its delivery log is kept
+   * @param id Preference ID
+   * @param userId Authenticated user ID
+   */
+  public async deletePreference(id: string, userId: string): Promise<void> {
+    const preference: NotificationPreference = await this.getPreferenceById(id, userId);
+    await this.preferenceRepository.delete(preference.id);
+  }
+
+  /**
+   * Get a preference of the user
+   * @param id Preference ID
+   * @param userId Authenticated user ID
+   * @returns The preference
+   */
+  public async getPreferenceById(id: string, userId: string): Promise<NotificationPreference> {
+    const preference: NotificationPreference | null = await this.preferenceRepository.findOne({ where: { id, userId } });
+    if (!preference) {
+      throw new Error('Notification preference not found');
+    }
+    return preference;
+  }
+
+  /**
+   * Get the preferences of the user
+   * @param userId Authenticated user ID
+   * @returns Preferences
+   */
+  public async getPreferences(userId: string): Promise<NotificationPreference[]> {
+    return await this.preferenceRepository.find({ where: { userId }, order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * Get the delivery log of the notifications of the user
+   * @param userId Authenticated user ID
+   * @param filter Optional notification, channel, status and limit
+   * @returns Deliveries, newest first
+   */
+  public async getDeliveries(userId: string, filter: DeliveryFilter = {}): Promise<NotificationDelivery[]> {
+    const where: FindOptionsWhere<NotificationDelivery> = { notification: { userId } };
+    if (filter.notificationId) where.notificationId = filter.notificationId;
+    if (filter.channel) where.channel = filter.channel as NotificationChannelType;
+    if (filter.status) where.status = filter.status as NotificationDelivery['status'];
+
+    return await this.deliveryRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: filter.limit ?? 100
+    });
+  }
+
+  /**
+   * Send due deliveries in rounds until none is left
+   * Only one dispatch runs at a time so a delivery is never attempted twice at once
+   */
+  private dispatch(): Promise<void> {
+    if (!this.dispatching) {
+      this.dispatching = this.drain().finally(() => {
+        this.dispatching = null;
+      });
+    }
+    return this.dispatching;
+  }
+
+  private async drain(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      while (true) {
+        const due: NotificationDelivery[] = await this.deliveryRepository.find({
+          where: { status: 'pending', nextAttemptAt: LessThanOrEqual(new Date()) },
+          relations: ['notification', 'preference'],
+          order: { nextAttemptAt: 'ASC' },
+          take: DISPATCH_BATCH_SIZE
+        });
+        if (due.length === 0) return;
+
+        for (const delivery of due) {
+          await this.attempt(delivery, delivery.notification, delivery.preference ?? null);
+        }
+        if (due.length < DISPATCH_BATCH_SIZE) return;
+      }
+    } catch (error) {
+      console.error('Failed to dispatch notifications:', error);
+    }
+  }
+
+  /**
+   * Sends a delivery through its channel and records the outcome
+   * A failed attempt is retried with exponential backoff until the maximum number of attempts
+   */
+  private async attempt(
+    delivery: NotificationDelivery,
+    notification: Notification,
+    preference: NotificationPreference | null
+  ): Promise<void> {
+    delivery.attempts++;
+
+    try {
+      const channel: NotificationChannel | undefined = this.channels.get(delivery.channel);
+      if (!channel) {
+        throw new Error(`No channel registered for ${delivery.channel}`);
+      }
+
+      await channel.send(notification, delivery, preference);
+      delivery.status = 'sent';
+      delivery.sentAt = new Date();
+      delivery.lastError = null;
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+
+      if (delivery.attempts >= notificationConfig.maxAttempts) {
+        delivery.status = 'failed';
+        console.error(`Giving up on ${delivery.channel} delivery ${delivery.id} after ${delivery.attempts} attempts: ${delivery.lastError}`);
+      } else {
+        const delayMs: number = Math.min(
+          notificationConfig.retryBaseDelayMs * 2 ** (delivery.attempts - 1),
+          notificationConfig.retryMaxDelayMs
+        );
+        delivery.nextAttemptAt = new Date(Date.now() + delayMs);
+        console.warn(`Failed ${delivery.channel} delivery ${delivery.id}, retrying in ${delayMs} ms: ${delivery.lastError}`);
+      }
+    }
+
+    await this.deliveryRepository.update(delivery.id, {
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastError: delivery.lastError,
+      sentAt: delivery.sentAt
+    });
+  }
+
+  private async createNotification(userId: string, request: NotificationRequest): Promise<Notification> {
+    const notification: Notification = new Notification();
+    notification.userId = userId;
+    notification.deviceId = request.deviceId || null;
+    notification.zoneId = request.zoneId ?? null;
+    notification.severity = request.severity;
+    notification.title = request.title;
+    notification.message = request.message;
+    notification.source = request.source;
+    notification.sourceId = request.sourceId ?? null;
+    notification.data = request.data ?? null;
+
+    return await this.notificationRepository.save(notification);
+  }
+
+  /**
+   * Queues a notification for a channel of the user
+   * Outside critical notifications, quiet hours hold the delivery back until they end
+   * @param notification The notification
+   * @param preference The preference, null for the default inbox delivery
+   * @param user The user
+   * @param now When the notification was raised
+   * @param ignoreQuietHours Send right away regardless of quiet hours
+   */
+  private async createDelivery(
+    notification: Notification,
+    preference: NotificationPreference | null,
+    user: User,
+    now: Date,
+    ignoreQuietHours: boolean = false
+  ): Promise<NotificationDelivery> {
+    const channel: NotificationChannelType = preference?.channel ?? 'inbox';
+
+    const delivery: NotificationDelivery = new NotificationDelivery();
+    delivery.notificationId = notification.id;
+    delivery.preferenceId = preference?.id ?? null;
+    delivery.channel = channel;
+    delivery.target = channel === 'email' ? preference?.target || user.email : channel === 'webhook' ? preference?.target : null;
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = now;
+
+    if (preference?.quietHoursStart && preference.quietHoursEnd && !ignoreQuietHours && notification.severity !== 'critical') {
+      delivery.nextAttemptAt = getQuietHoursEnd(now, preference.quietHoursStart, preference.quietHoursEnd, preference.timeZone) ?? now;
+    }
+
+    return await this.deliveryRepository.save(delivery);
+  }
+
+  private matches(preference: NotificationPreference, request: NotificationRequest): boolean {
+    if (!preference.enabled) return false;
+    if (preference.deviceId && preference.deviceId !== request.deviceId) return false;
+    return SEVERITY_RANK[request.severity] >= SEVERITY_RANK[preference.minSeverity];
+  }
+
+  /**
+   * Reject webhooks without a URL or to hosts that are not allowed, half-set quiet hours and unknown time zones
+   */
+  private validatePreference(preference: NotificationPreference): void {
+    if (preference.channel === 'webhook') {
+      let url: URL;
+      try {
+        url = new URL(preference.target || '');
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+      } catch (error) {
+        throw new Error('Invalid notification preference: webhooks need an http(s) URL as target');
+      }
+
+      try {
+        webhookChannelService.assertAllowedTarget(url);
+      } catch (error: any) {
+        throw new Error(`Invalid notification preference: ${error.message}`);
+      }
+    }
+    if (!preference.quietHoursStart !== !preference.quietHoursEnd) {
+      throw new Error('Invalid notification preference: set both quietHoursStart and quietHoursEnd');
+    }
+    if (!isValidTimeZone(preference.timeZone)) {
+      throw new Error(`Invalid notification preference: unknown time zone ${preference.timeZone}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
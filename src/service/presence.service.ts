@@ -0,0 +1,291 @@
+import { Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { mqttConfig } from '../config/mqtt.config';
+import { Device } from '../entity/device.entity';
+import { Zone } from '../entity/zone.entity';
+import { TopicIdentifiers } from '../interface/mqtt.interface';
+import { DeviceChangeEvent } from '../interface/device.interface';
+import { ConnectionStatus, DeviceStatusEvent, PresenceReason, PresenceState } from '../interface/presence.interface';
+import { TelemetryEvent } from '../interface/telemetry.interface';
+import { parseTopicWithTemplate, toSubscriptionFilter } from '../utils/topic-template.util';
+import { DeviceService } from './device.service';
+import { mqttService } from './mqtt.service';
+import { webSocketService } from './websocket.service';
+
+@Singleton
+export class PresenceService {
+  private readonly deviceRepository: Repository<Device>;
+  private readonly zoneRepository: Repository<Zone>;
+  private devices: Map<string, PresenceState> = new Map();
+  private zones: Map<string, PresenceState & { deviceId: string }> = new Map();
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.deviceRepository = AppDataSource.getRepository(Device);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+  }
+
+  /**
+   * Initialize presence tracking - should be called after database is ready
+   * Restores the last known state, listens for status messages and telemetry, and starts the silence check
+   */
+  public async initialize(): Promise<void> {
+    const devices: Device[] = await this.deviceRepository.find();
+    for (const device of devices) {
+      this.devices.set(device.id, { status: device.connectionStatus, lastSeenAt: device.lastSeenAt, dirty: false });
+    }
+
+    const zones: Zone[] = await this.zoneRepository.find();
+    for (const zone of zones) {
+      this.zones.set(zone.id, {
+        status: zone.connectionStatus,
+        lastSeenAt: zone.lastSeenAt,
+        deviceId: zone.deviceId,
+        dirty: false
+      });
+    }
+
+    await mqttService.registerTopicHandler(
+      toSubscriptionFilter(mqttConfig.statusTopicTemplate),
+      (topic: string, message: Buffer) => this.handleStatusMessage(topic, message)
+    );
+
+    mqttService.addTelemetryListener((event: TelemetryEvent) => this.recordActivity(event));
+    new DeviceService().addChangeListener((event: DeviceChangeEvent) => this.handleDeviceChange(event));
+
+    if (!this.checkTimer) {
+      this.checkTimer = setInterval(() => {
+        this.checkSilence();
+      }, mqttConfig.presenceCheckIntervalMs);
+    }
+  }
+
+  /**
+   * Marks the device and zone of a telemetry message as seen
+   * @param event The telemetry event
+   */
+  private async recordActivity(event: TelemetryEvent): Promise<void> {
+    if (event.deviceId) {
+      await this.markSeen('device', event.deviceId, event.deviceId, event.receivedAt, 'telemetry');
+    }
+    if (event.deviceId && event.zoneId) {
+      await this.markSeen('zone', event.zoneId, event.deviceId, event.receivedAt, 'telemetry');
+    }
+  }
+
+  /**
+   * Stops tracking deleted devices and zones, and follows zones moved to another device
+   * Restored devices and zones are tracked again on their next message
+   * @param event The device or zone change
+   */
+  private handleDeviceChange(event: DeviceChangeEvent): void {
+    if (event.scope === 'device') {
+      if (event.action === 'deleted') this.devices.delete(event.deviceId);
+      return;
+    }
+
+    if (!event.zoneId) return;
+    if (event.action === 'deleted') {
+      this.zones.delete(event.zoneId);
+      return;
+    }
+
+    const state: (PresenceState & { deviceId: string }) | undefined = this.zones.get(event.zoneId);
+    if (state) state.deviceId = event.deviceId;
+  }
+
+  /**
+   * Applies a status or Last Will message published by a device
+   * Accepts plain "online"/"offline" payloads or JSON like { "status": "offline" }
+   * @param topic The status topic
+   * @param message The raw message
+   */
+  private async handleStatusMessage(topic: string, message: Buffer): Promise<void> {
+    const identifiers: Partial<TopicIdentifiers> | null = parseTopicWithTemplate(mqttConfig.statusTopicTemplate, topic);
+    if (!identifiers?.deviceNumber) {
+      console.warn(`Cannot attribute status message on topic ${topic} to a device`);
+      return;
+    }
+
+    const status: ConnectionStatus | null = this.parseStatus(message.toString());
+    if (!status) {
+      console.warn(`Ignoring unrecognized status message on topic ${topic}`);
+      return;
+    }
+
+    const devices: Device[] = await this.deviceRepository.find({ where: { deviceNumber: identifiers.deviceNumber } });
+    const now: Date = new Date();
+
+    for (const device of devices) {
+      if (status === ConnectionStatus.ONLINE) {
+        await this.markSeen('device', device.id, device.id, now, 'status');
+        continue;
+      }
+
+      // An offline device takes all of its zones with it
+      await this.transition('device', device.id, device.id, ConnectionStatus.OFFLINE, 'status');
+      for (const [zoneId, zoneState] of this.zones) {
+        if (zoneState.deviceId === device.id) {
+          await this.transition('zone', zoneId, device.id, ConnectionStatus.OFFLINE, 'status');
+        }
+      }
+    }
+  }
+
+  /**
+   * Marks online devices and zones that have been silent for too long as offline
+   * and writes pending last-seen timestamps
+   */
+  private async checkSilence(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    const threshold: number = Date.now() - mqttConfig.offlineTimeoutMs;
+
+    try {
+      for (const [deviceId, state] of this.devices) {
+        if (state.status === ConnectionStatus.ONLINE && (!state.lastSeenAt || state.lastSeenAt.getTime() < threshold)) {
+          await this.transition('device', deviceId, deviceId, ConnectionStatus.OFFLINE, 'timeout');
+        }
+      }
+
+      for (const [zoneId, state] of this.zones) {
+        if (state.status === ConnectionStatus.ONLINE && (!state.lastSeenAt || state.lastSeenAt.getTime() < threshold)) {
+          await this.transition('zone', zoneId, state.deviceId, ConnectionStatus.OFFLINE, 'timeout');
+        }
+      }
+
+      await this.flushLastSeen();
+    } catch (error) {
+      console.error('Failed to check device presence:', error);
+    }
+  }
+
+  /**
+   * Updates the last-seen timestamp and brings the device or zone online if needed
+   * The timestamp itself is written in bulk by the silence check
+   */
+  private async markSeen(
+    scope: 'device' | 'zone',
+    id: string,
+    deviceId: string,
+    seenAt: Date,
+    reason: PresenceReason
+  ): Promise<void> {
+    const state: PresenceState = this.getState(scope, id, deviceId);
+    state.lastSeenAt = seenAt;
+    state.dirty = true;
+
+    if (state.status !== ConnectionStatus.ONLINE) {
+      await this.transition(scope, id, deviceId, ConnectionStatus.ONLINE, reason);
+    }
+  }
+
+  /**
+   * Persists a connectivity change and pushes it to connected clients
+   */
+  private async transition(
+    scope: 'device' | 'zone',
+    id: string,
+    deviceId: string,
+    status: ConnectionStatus,
+    reason: PresenceReason
+  ): Promise<void> {
+    const state: PresenceState = this.getState(scope, id, deviceId);
+    const previousStatus: ConnectionStatus = state.status;
+    if (previousStatus === status) return;
+
+    state.status = status;
+    state.dirty = false;
+
+    const changes: Partial<Device & Zone> = {
+      connectionStatus: status,
+      statusChangedAt: new Date(),
+      lastSeenAt: state.lastSeenAt
+    };
+    if (scope === 'device') {
+      await this.deviceRepository.update(id, changes);
+    } else {
+      await this.zoneRepository.update(id, changes);
+    }
+
+    console.log(`${scope === 'device' ? 'Device' : 'Zone'} ${id} is now ${status} (${reason})`);
+
+    if (webSocketService.isInitialized()) {
+      const event: DeviceStatusEvent = {
+        scope,
+        deviceId,
+        zoneId: scope === 'zone' ? id : undefined,
+        status,
+        previousStatus,
+        reason,
+        lastSeenAt: state.lastSeenAt
+      };
+      // Only the users with access to the device are told
+      const userIds: string[] = await new DeviceService().getDeviceUserIds(deviceId);
+      webSocketService.broadcastToUsers(userIds, 'deviceStatus', event);
+    }
+  }
+
+  /**
+   * Writes last-seen timestamps changed since the previous flush
+   */
+  private async flushLastSeen(): Promise<void> {
+    for (const [deviceId, state] of this.devices) {
+      if (!state.dirty) continue;
+      state.dirty = false;
+      await this.deviceRepository.update(deviceId, { lastSeenAt: state.lastSeenAt });
+    }
+
+    for (const [zoneId, state] of this.zones) {
+      if (!state.dirty) continue;
+      state.dirty = false;
+      await this.zoneRepository.update(zoneId, { lastSeenAt: state.lastSeenAt });
+    }
+  }
+
+  /**
+   * Get the state of a device or zone, creating it for entries added after initialization
+   */
+  private getState(scope: 'device' | 'zone', id: string, deviceId: string): PresenceState {
+    if (scope === 'device') {
+      let state: PresenceState | undefined = this.devices.get(id);
+      if (!state) {
+        state = { status: ConnectionStatus.UNKNOWN, dirty: false };
+        this.devices.set(id, state);
+      }
+      return state;
+    }
+
+    let state: (PresenceState & { deviceId: string }) | undefined = this.zones.get(id);
+    if (!state) {
+      state = { status: ConnectionStatus.UNKNOWN, deviceId, dirty: false };
+      this.zones.set(id, state);
+    }
+    return state;
+  }
+
+  /**
+   * Maps a status payload to a connection status
+   * @param payload Raw payload
+   * @returns The status, or null if not recognized
+   */
+  private parseStatus(payload: string): ConnectionStatus | null {
+    let value: unknown = payload.trim();
+
+    try {
+      const parsed: any = JSON.parse(payload);
+      value = typeof parsed === 'object' && parsed !== null ? parsed.status ?? parsed.online : parsed;
+    } catch (error) {
+      // Plain text payload
+    }
+
+    const normalized: string = String(value).trim().toLowerCase();
+    if (['online', 'connected', 'true', '1'].includes(normalized)) return ConnectionStatus.ONLINE;
+    if (['offline', 'disconnected', 'lost', 'false', '0'].includes(normalized)) return ConnectionStatus.OFFLINE;
+    return null;
+  }
+}
+
+// Export singleton instance
+export const presenceService = new PresenceService();
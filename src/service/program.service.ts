@@ -0,0 +1,468 @@
+import { Between, FindOptionsWhere, In, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { scheduleConfig } from '../config/schedule.config';
+import { Program } from '../entity/program.entity';
+import { ProgramRun } from '../entity/program-run.entity';
+import { Command, CommandStatus } from '../entity/command.entity';
+import { Zone } from '../entity/zone.entity';
+import { createProgramRequest, updateProgramRequest } from '../dto/request/program.request';
+import { ProgramRunFilter, ProgramRunStatus, UpcomingRun } from '../interface/schedule.interface';
+import { getLocalDate, getNextRunTime, isValidCronExpression } from '../utils/schedule.util';
+import { isValidTimeZone } from '../utils/quiet-hours.util';
+import { commandService } from './command.service';
+import { DeviceService } from './device.service';
+import { notificationService } from './notification.service';
+
+// Due programs and stops handled per query
+const TICK_BATCH_SIZE = 100;
+
+@Singleton
+export class ProgramService {
+  private readonly programRepository: Repository<Program>;
+  private readonly runRepository: Repository<ProgramRun>;
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly deviceService: DeviceService;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private ticking: Promise<void> | null = null;
+
+  constructor() {
+    this.programRepository = AppDataSource.getRepository(Program);
+    this.runRepository = AppDataSource.getRepository(ProgramRun);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Initialize the scheduler - should be called after database and MQTT are ready
+   * Runs recorded but not started by a previous run of the service are failed rather than
+   * started late; stops that fell due while the service was down are sent on the first tick
+   */
+  public async initialize(): Promise<void> {
+    const interrupted = await this.runRepository.update(
+      { status: 'pending' },
+      { status: 'failed', error: 'Service restarted before the run was started', finishedAt: new Date() }
+    );
+    if (interrupted.affected) {
+      console.log(`Marked ${interrupted.affected} interrupted program runs as failed`);
+    }
+
+    this.deviceService.addDeleteListener((zoneIds: string[]) => this.stopZoneRuns(zoneIds));
+
+    if (!this.tickTimer) {
+      this.tickTimer = setInterval(() => {
+        this.tick();
+      }, scheduleConfig.tickIntervalMs);
+    }
+    await this.tick();
+  }
+
+  /**
+   * Stop the scheduler, due runs are handled after the next initialize
+   */
+  public stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  /**
+   * Create a program for a zone of a device the user has access to
+   * @param request Program creation request
+   * @param userId Authenticated user ID, commands of the program are issued as this user
+   * @returns Created program
+   */
+  public async createProgram(request: createProgramRequest, userId: string): Promise<Program> {
+    // Throws if the device does not exist or the user has no access to it
+    await this.deviceService.getDeviceById(request.deviceId, userId);
+    await this.getZone(request.deviceId, request.zoneId);
+
+    const program: Program = new Program();
+    program.userId = userId;
+    program.deviceId = request.deviceId;
+    program.zoneId = request.zoneId;
+    program.name = request.name;
+    program.command = request.command;
+    program.payload = request.payload ?? null;
+    program.durationSeconds = request.durationSeconds ?? null;
+    program.stopCommand = request.stopCommand ?? null;
+    program.stopPayload = request.stopPayload ?? null;
+    program.scheduleType = request.scheduleType;
+    program.cronExpression = request.cronExpression ?? null;
+    program.intervalSeconds = request.intervalSeconds ?? null;
+    program.startAt = request.startAt ? new Date(request.startAt) : null;
+    program.endAt = request.endAt ? new Date(request.endAt) : null;
+    program.timeZone = request.timeZone ?? 'UTC';
+    program.blackoutDates = request.blackoutDates ?? null;
+    program.enabled = request.enabled ?? true;
+    this.validateProgram(program);
+
+    // Interval runs without a start are counted from creation
+    program.startAt = program.startAt ?? (program.scheduleType === 'interval' ? new Date() : null);
+    program.nextRunAt = this.computeNextRunAt(program);
+
+    return await this.programRepository.save(program);
+  }
+
+  /**
+   * Update a program, the next run is recalculated from now
+   * @param id Program ID
+   * @param request Program update request
+   * @param userId Authenticated user ID
+   * @returns Updated program
+   */
+  public async updateProgram(id: string, request: updateProgramRequest, userId: string): Promise<Program> {
+    const program: Program = await this.getProgramById(id, userId);
+
+    if (request.name !== undefined) program.name = request.name;
+    if (request.command !== undefined) program.command = request.command;
+    if (request.payload !== undefined) program.payload = request.payload;
+    if (request.durationSeconds !== undefined) program.durationSeconds = request.durationSeconds;
+    if (request.stopCommand !== undefined) program.stopCommand = request.stopCommand;
+    if (request.stopPayload !== undefined) program.stopPayload = request.stopPayload;
+    if (request.scheduleType !== undefined) program.scheduleType = request.scheduleType;
+    if (request.cronExpression !== undefined) program.cronExpression = request.cronExpression;
+    if (request.intervalSeconds !== undefined) program.intervalSeconds = request.intervalSeconds;
+    if (request.startAt !== undefined) program.startAt = request.startAt ? new Date(request.startAt) : null;
+    if (request.endAt !== undefined) program.endAt = request.endAt ? new Date(request.endAt) : null;
+    if (request.timeZone !== undefined) program.timeZone = request.timeZone;
+    if (request.blackoutDates !== undefined) program.blackoutDates = request.blackoutDates;
+    if (request.enabled !== undefined) program.enabled = request.enabled;
+    this.validateProgram(program);
+
+    program.startAt = program.startAt ?? (program.scheduleType === 'interval' ? program.createdAt : null);
+    program.nextRunAt = this.computeNextRunAt(program);
+
+    return await this.programRepository.save(program);
+  }
+
+  /**
+   * Delete a program and its run history
+   * Runs in progress are stopped first, so a zone is not left e.g. with an open valve
+   * @param id Program ID
+   * @param userId Authenticated user ID
+   */
+  public async deleteProgram(id: string, userId: string): Promise<void> {
+    const program: Program = await this.getProgramById(id, userId);
+
+    const running: ProgramRun[] = await this.runRepository.find({ where: { programId: program.id, status: 'running' } });
+    for (const run of running) {
+      await this.stopRun(run, program);
+    }
+
+    await this.programRepository.delete(program.id);
+  }
+
+  /**
+   * Get a program of a device the user has access to
+   * @param id Program ID
+   * @param userId Authenticated user ID
+   * @returns The program
+   */
+  public async getProgramById(id: string, userId: string): Promise<Program> {
+    const program: Program | null = await this.programRepository.findOne({ where: { id } });
+    if (!program) {
+      throw new Error('Program not found');
+    }
+
+    await this.deviceService.getDeviceById(program.deviceId, userId);
+    return program;
+  }
+
+  /**
+   * Get the programs of a device
+   * @param deviceId Device ID
+   * @param userId Authenticated user ID
+   * @param zoneId Optional zone to filter on
+   * @returns Programs
+   */
+  public async getPrograms(deviceId: string, userId: string, zoneId?: string): Promise<Program[]> {
+    await this.deviceService.getDeviceById(deviceId, userId);
+
+    return await this.programRepository.find({
+      where: zoneId ? { deviceId, zoneId } : { deviceId },
+      order: { name: 'ASC', createdAt: 'ASC' }
+    });
+  }
+
+  /**
+   * List the next run times of a program
+   * @param id Program ID
+   * @param userId Authenticated user ID
+   * @param count Number of runs
+   * @returns Upcoming runs, blackout dates included and flagged
+   */
+  public async getUpcomingRuns(id: string, userId: string, count: number = 10): Promise<UpcomingRun[]> {
+    const program: Program = await this.getProgramById(id, userId);
+    const runs: UpcomingRun[] = [];
+    if (!program.enabled) return runs;
+
+    let scheduledFor: Date | null = program.nextRunAt ?? null;
+    while (scheduledFor && runs.length < Math.min(count, scheduleConfig.maxUpcomingRuns)) {
+      runs.push({
+        scheduledFor,
+        localDate: getLocalDate(scheduledFor, program.timeZone),
+        blackout: this.isBlackout(program, scheduledFor)
+      });
+      scheduledFor = getNextRunTime(program, scheduledFor);
+    }
+    return runs;
+  }
+
+  /**
+   * Get the past runs of the programs of a device
+   * @param filter Device with optional zone, program, status, time range and limit
+   * @param userId Authenticated user ID
+   * @returns Runs, newest first
+   */
+  public async getRuns(filter: ProgramRunFilter, userId: string): Promise<ProgramRun[]> {
+    await this.deviceService.getDeviceById(filter.deviceId, userId);
+
+    const where: FindOptionsWhere<ProgramRun> = { deviceId: filter.deviceId };
+    if (filter.zoneId) where.zoneId = filter.zoneId;
+    if (filter.programId) where.programId = filter.programId;
+    if (filter.status) where.status = filter.status as ProgramRunStatus;
+    if (filter.from && filter.to) where.scheduledFor = Between(filter.from, filter.to);
+    else if (filter.from) where.scheduledFor = MoreThanOrEqual(filter.from);
+    else if (filter.to) where.scheduledFor = LessThanOrEqual(filter.to);
+
+    return await this.runRepository.find({
+      where,
+      order: { scheduledFor: 'DESC' },
+      take: filter.limit ?? 100
+    });
+  }
+
+  /**
+   * Start due programs and send due stops
+   * Only one tick runs at a time so a run is never handled twice at once
+   */
+  private tick(): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runDue().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  private async runDue(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      while (true) {
+        // Programs of deleted zones wait until the zone is restored, the join leaves them out
+        const due: Program[] = await this.programRepository.createQueryBuilder('program')
+          .innerJoin('program.zone', 'zone')
+          .where({ enabled: true, nextRunAt: LessThanOrEqual(new Date()) })
+          .orderBy('program.nextRunAt', 'ASC')
+          .limit(TICK_BATCH_SIZE)
+          .getMany();
+        for (const program of due) {
+          await this.fire(program);
+        }
+        if (due.length < TICK_BATCH_SIZE) break;
+      }
+
+      const stops: ProgramRun[] = await this.runRepository.find({
+        where: { status: 'running', stopAt: LessThanOrEqual(new Date()) },
+        order: { stopAt: 'ASC' },
+        take: TICK_BATCH_SIZE
+      });
+      if (stops.length > 0) {
+        const programs: Program[] = await this.programRepository.find({
+          where: { id: In(stops.map((run: ProgramRun) => run.programId)) }
+        });
+        for (const run of stops) {
+          const program: Program | undefined = programs.find((candidate: Program) => candidate.id === run.programId);
+          if (program) await this.stopRun(run, program);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to run scheduled programs:', error);
+    }
+  }
+
+  /**
+   * Records the due run of a program, moves the program on to its next run and starts the run
+   * The run is recorded before anything is sent; the unique program and run time means a run
+   * time that was already recorded, e.g. before a restart, is not sent again
+   */
+  private async fire(program: Program): Promise<void> {
+    const scheduledFor: Date = program.nextRunAt!;
+    const now: Date = new Date();
+
+    const run: ProgramRun = this.runRepository.create({
+      programId: program.id,
+      deviceId: program.deviceId,
+      zoneId: program.zoneId,
+      scheduledFor,
+      status: 'pending'
+    });
+    if (this.isBlackout(program, scheduledFor)) {
+      run.status = 'skipped';
+      run.error = 'Blackout date';
+      run.finishedAt = now;
+    } else if (now.getTime() - scheduledFor.getTime() > scheduleConfig.misfireGraceMs) {
+      run.status = 'skipped';
+      run.error = 'Missed while the service was down';
+      run.finishedAt = now;
+    }
+
+    const inserted = await this.runRepository.createQueryBuilder()
+      .insert()
+      .into(ProgramRun)
+      .values(run)
+      .orIgnore()
+      .execute();
+
+    // Runs missed for longer than one period are skipped together, not one by one
+    await this.programRepository.update(program.id, {
+      nextRunAt: getNextRunTime(program, scheduledFor > now ? scheduledFor : now),
+      lastRunAt: scheduledFor
+    });
+
+    if (inserted.raw.length === 0 || run.status !== 'pending') return;
+    run.id = inserted.raw[0].id;
+
+    await this.startRun(run, program);
+  }
+
+  /**
+   * Sends the start command of a run, and schedules the stop command if the program has a duration
+   */
+  private async startRun(run: ProgramRun, program: Program): Promise<void> {
+    try {
+      const command: Command = await commandService.sendCommand(
+        { deviceId: program.deviceId, zoneId: program.zoneId, command: program.command, payload: program.payload ?? {} },
+        program.userId,
+        'schedule'
+      );
+      run.startCommandId = command.id;
+      if (command.status === CommandStatus.FAILED) {
+        throw new Error(command.error || 'Start command could not be published');
+      }
+
+      run.startedAt = new Date();
+      if (program.durationSeconds && program.stopCommand) {
+        run.status = 'running';
+        run.stopAt = new Date(run.startedAt.getTime() + program.durationSeconds * 1000);
+      } else {
+        run.status = 'completed';
+        run.finishedAt = run.startedAt;
+      }
+    } catch (error: any) {
+      const message: string = error.message || String(error);
+      // A zone under manual override or locked out is expected to hold off the program
+      run.status = message.startsWith('Zone is') ? 'skipped' : 'failed';
+      run.error = message;
+      run.finishedAt = new Date();
+    }
+
+    await this.runRepository.save(run);
+    if (run.status === 'failed') await this.notifyFailure(run, program);
+  }
+
+  /**
+   * Sends the stop command of a running run
+   */
+  /**
+   * Stops the runs in progress on zones about to be deleted, a deleted zone takes no stop command
+   */
+  private async stopZoneRuns(zoneIds: string[]): Promise<void> {
+    // A tick in progress may be stopping the same runs
+    await this.ticking;
+
+    const running: ProgramRun[] = await this.runRepository.find({ where: { zoneId: In(zoneIds), status: 'running' } });
+    if (running.length === 0) return;
+
+    const programs: Program[] = await this.programRepository.find({
+      where: { id: In(running.map((run: ProgramRun) => run.programId)) }
+    });
+    for (const run of running) {
+      const program: Program | undefined = programs.find((item: Program) => item.id === run.programId);
+      if (program) await this.stopRun(run, program);
+    }
+  }
+
+  private async stopRun(run: ProgramRun, program: Program): Promise<void> {
+    try {
+      // The stop command was removed from the program while the run was in progress
+      if (!program.stopCommand) {
+        throw new Error('Program has no stop command anymore');
+      }
+
+      const command: Command = await commandService.sendCommand(
+        { deviceId: program.deviceId, zoneId: program.zoneId, command: program.stopCommand, payload: program.stopPayload ?? {} },
+        program.userId,
+        'schedule'
+      );
+      run.stopCommandId = command.id;
+      if (command.status === CommandStatus.FAILED) {
+        throw new Error(command.error || 'Stop command could not be published');
+      }
+      run.status = 'completed';
+    } catch (error: any) {
+      run.status = 'failed';
+      run.error = error.message || String(error);
+    }
+
+    run.finishedAt = new Date();
+    await this.runRepository.save(run);
+    if (run.status === 'failed') await this.notifyFailure(run, program);
+  }
+
+  private async notifyFailure(run: ProgramRun, program: Program): Promise<void> {
+    await notificationService.notify({
+      deviceId: program.deviceId,
+      zoneId: program.zoneId,
+      severity: 'warning',
+      title: 'Scheduled program failed',
+      message: `Program "${program.name}" run of ${run.scheduledFor.toISOString()} failed: ${run.error}`,
+      source: 'schedule',
+      sourceId: run.id,
+      data: { programId: program.id, scheduledFor: run.scheduledFor }
+    });
+  }
+
+  private computeNextRunAt(program: Program): Date | null {
+    return program.enabled ? getNextRunTime(program, new Date()) : null;
+  }
+
+  private isBlackout(program: Program, date: Date): boolean {
+    return !!program.blackoutDates?.includes(getLocalDate(date, program.timeZone));
+  }
+
+  private async getZone(deviceId: string, zoneId: string): Promise<Zone> {
+    const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: zoneId, deviceId } });
+    if (!zone) {
+      throw new Error('Zone not found for this device');
+    }
+    return zone;
+  }
+
+  /**
+   * Reject programs without a usable schedule or with half a stop configuration
+   */
+  private validateProgram(program: Program): void {
+    if (!isValidTimeZone(program.timeZone)) {
+      throw new Error(`Invalid program: unknown time zone ${program.timeZone}`);
+    }
+    if (program.scheduleType === 'cron' && (!program.cronExpression || !isValidCronExpression(program.cronExpression))) {
+      throw new Error('Invalid program: cron schedules need a valid cronExpression');
+    }
+    if (program.scheduleType === 'interval' && !program.intervalSeconds) {
+      throw new Error('Invalid program: interval schedules need intervalSeconds');
+    }
+    if (!!program.durationSeconds !== !!program.stopCommand) {
+      throw new Error('Invalid program: durationSeconds and stopCommand must be set together');
+    }
+    if (program.startAt && program.endAt && program.startAt >= program.endAt) {
+      throw new Error('Invalid program: startAt must be before endAt');
+    }
+  }
+}
+
+// Export singleton instance
+export const programService = new ProgramService();
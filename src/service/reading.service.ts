@@ -0,0 +1,425 @@
+import { Between, EntityManager, FindOperator, In, LessThanOrEqual, MoreThanOrEqual, Repository, SelectQueryBuilder } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { Topic } from '../entity/topic.entity';
+import { Reading } from '../entity/reading.entity';
+import { 
+  BucketInterval, 
+  ReadingAggregateQuery, 
+  ReadingCursor, 
+  ReadingHistoryPage, 
+  ReadingQuery, 
+  ReadingSort, 
+  ReadingSeries, 
+  ReadingSnapshot 
+} from '../interface/reading.interface';
+import { DataQuality } from '../interface/data-quality.interface';
+import { ProcessedZoneData, RegisterDefinition, ZoneData } from '../interface/zone-data.interface';
+import { 
+  DEFAULT_REGISTER_MAP, 
+  decodeRegisterValues, 
+  encode32BitWords, 
+  findRegister, 
+  getWordCount, 
+  processDataForWebsocket 
+} from '../utils/data-convert.util';
+import { deviceModelService } from './device-model.service';
+
+// Bucket widths in seconds
+export const BUCKET_SECONDS: { [bucket in BucketInterval]: number } = {
+  '1m': 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60
+};
+
+/**
+ * Raw words and quality flags of a message, collected from its readings
+ */
+interface StoredMessage {
+  timestamp: Date;
+  raw: Record<string, (number | null)[]>;
+  quality: Record<string, DataQuality[]>;
+}
+
+@Singleton
+export class ReadingService {
+  private readonly topicRepository: Repository<Topic>;
+  private readonly readingRepository: Repository<Reading>;
+
+  // Topic ID per topic name
+  private readonly topicIds: Map<string, string> = new Map();
+
+  // Receive time and sequence of the last message per topic ID
+  private readonly lastSequences: Map<string, ReadingCursor> = new Map();
+
+  constructor() {
+    this.topicRepository = AppDataSource.getRepository(Topic);
+    this.readingRepository = AppDataSource.getRepository(Reading);
+  }
+
+  /**
+   * Get the ID of a topic, creating the topic on its first message
+   * @param name Topic name
+   * @param deviceId Device the topic belongs to
+   * @param zoneId Zone the topic belongs to
+   * @returns The topic ID
+   */
+  public async getTopicId(name: string, deviceId?: string, zoneId?: string): Promise<string> {
+    const cachedId: string | undefined = this.topicIds.get(name);
+    if (cachedId) return cachedId;
+
+    // Another message of the same topic may be creating it concurrently
+    await this.topicRepository.createQueryBuilder()
+      .insert()
+      .into(Topic)
+      .values({ name, deviceId, zoneId, isLatest: true })
+      .orIgnore()
+      .execute();
+
+    const topic: Topic | null = await this.topicRepository.findOne({ where: { name }, withDeleted: true });
+    if (!topic) {
+      throw new Error(`Failed to create topic ${name}`);
+    }
+
+    this.topicIds.set(name, topic.id);
+    return topic.id;
+  }
+
+  /**
+   * Rename the topic of a zone whose derived topic name changed, keeping its readings linked
+   * @param manager Entity manager of the surrounding transaction
+   * @param oldName Topic name before the change
+   * @param newName Topic name after the change
+   * @param deviceId Device the zone belongs to after the change
+   * @param zoneId Zone the topic belongs to
+   */
+  public async renameTopic(manager: EntityManager, oldName: string, newName: string, deviceId: string, zoneId: string): Promise<void> {
+    if (oldName === newName) return;
+
+    // Topic names are unique, the history of another zone cannot be taken over
+    const existing: Topic | null = await manager.findOne(Topic, { where: { name: newName }, withDeleted: true });
+    if (existing && existing.zoneId !== zoneId) {
+      throw new Error(`Topic ${newName} is already in use`);
+    }
+
+    if (!existing) {
+      await manager.update(Topic, { name: oldName, zoneId }, { name: newName, deviceId, zoneId });
+    }
+  }
+
+  /**
+   * Drop a topic name from the ID cache, e.g. after the topic was renamed
+   * @param name Topic name
+   */
+  public forgetTopic(name: string): void {
+    this.topicIds.delete(name);
+  }
+
+  /**
+   * Find a topic by its name
+   * @param name Topic name
+   * @returns The topic, or null if no message was received on it
+   */
+  public async getTopicByName(name: string): Promise<Topic | null> {
+    return await this.topicRepository.findOne({ where: { name } });
+  }
+
+  /**
+   * Split a topic message into one reading per field value
+   * The two words of a 32-bit value make up a single reading, its raw value being the unscaled number;
+   * values that are not numbers are not stored as readings, the latest message keeps them
+   * @param topic Topic entry with the message, its processed data and receive time
+   * @returns The readings
+   */
+  public async buildReadings(topic: Topic): Promise<Reading[]> {
+    const registers: RegisterDefinition[] = 
+      (topic.deviceId ? await deviceModelService.getRegistersForDevice(topic.deviceId) : null) ?? DEFAULT_REGISTER_MAP;
+    const rawFields: Record<string, any> = this.getFields(topic.data);
+    const processedFields: Record<string, any> = this.getFields(topic.processedData);
+    const sequence: number = this.nextSequence(topic.id, topic.lastReceivedAt!);
+    const readings: Reading[] = [];
+
+    for (const [field, rawField] of Object.entries(rawFields)) {
+      const processedField: any = processedFields[field];
+      const processedValues: any[] = Array.isArray(processedField) ? processedField : [processedField];
+      const register: RegisterDefinition | undefined = findRegister(registers, field);
+      const rawWords: any[] = Array.isArray(rawField) ? rawField : [rawField];
+      const rawValues: any[] = register && getWordCount(register.dataType) === 2
+        ? decodeRegisterValues(rawWords, { ...register, scale: 1, offset: 0, decimals: undefined })
+        : rawWords;
+
+      rawValues.forEach((rawValue: any, channel: number) => {
+        if (typeof rawValue !== 'number') return;
+
+        const reading: Reading = new Reading();
+        reading.topicId = topic.id;
+        reading.field = field;
+        reading.channel = channel;
+        reading.rawValue = rawValue;
+        reading.recordedAt = topic.lastReceivedAt!;
+        reading.sequence = sequence;
+        Object.assign(reading, this.toReadingValue(rawValue, processedValues[channel], register));
+        readings.push(reading);
+      });
+    }
+
+    return readings;
+  }
+
+  /**
+   * Get a page of messages of a topic rebuilt from its readings
+   * The readings of a message share its timestamp and sequence, which together are unique per topic
+   * and make a stable cursor
+   * @param topic Topic
+   * @param query Optional time range, limit, sort direction and cursor
+   * @returns Messages in the sort direction, newest first by default, and the cursor of the next page
+   */
+  public async getHistory(topic: Topic, query: ReadingQuery = {}): Promise<ReadingHistoryPage> {
+    const sort: ReadingSort = query.sort ?? 'DESC';
+    const limit: number = query.limit ?? 100;
+
+    const messageQuery: SelectQueryBuilder<Reading> = this.createTimestampQuery(topic.id, query)
+      .select('reading.recordedAt', 'recordedAt')
+      .addSelect('reading.sequence', 'sequence');
+    if (query.after) {
+      messageQuery.andWhere(`(reading.recordedAt, reading.sequence) ${sort === 'DESC' ? '<' : '>'} (:afterRecordedAt, :afterSequence)`, {
+        afterRecordedAt: query.after.recordedAt,
+        afterSequence: query.after.sequence
+      });
+    }
+
+    // One extra row tells whether there is a next page
+    const messages: ReadingCursor[] = await messageQuery
+      .groupBy('reading.recordedAt')
+      .addGroupBy('reading.sequence')
+      .orderBy('reading.recordedAt', sort)
+      .addOrderBy('reading.sequence', sort)
+      .limit(limit + 1)
+      .getRawMany();
+
+    const page: ReadingCursor[] = messages.slice(0, limit);
+    if (page.length === 0) return { snapshots: [], nextCursor: null };
+
+    // Messages sharing a timestamp may be split across pages
+    const pageKeys: Set<string> = new Set(page.map((message: ReadingCursor) => this.getMessageKey(message)));
+    const readings: Reading[] = (await this.readingRepository.find({
+      where: { topicId: topic.id, recordedAt: In(page.map((message: ReadingCursor) => message.recordedAt)) },
+      order: { recordedAt: sort, sequence: sort, field: 'ASC', channel: 'ASC' }
+    })).filter((reading: Reading) => pageKeys.has(this.getMessageKey(reading)));
+
+    return {
+      snapshots: await this.toSnapshots(topic, readings),
+      nextCursor: messages.length > limit ? page[page.length - 1] : null
+    };
+  }
+
+  /**
+   * Count the messages of a topic in a time range
+   * @param topicId Topic ID
+   * @param query Optional time range
+   * @returns Number of messages
+   */
+  public async countHistory(topicId: string, query: ReadingQuery = {}): Promise<number> {
+    const row: { total: number } | undefined = await this.createTimestampQuery(topicId, query)
+      .select('count(distinct (reading.recordedAt, reading.sequence))::int', 'total')
+      .getRawOne();
+
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Get the readings of a single field of a topic
+   * @param topicId Topic ID
+   * @param field Field name, e.g. d200
+   * @param query Optional time range and limit
+   * @returns Readings, newest first
+   */
+  public async getFieldReadings(topicId: string, field: string, query: ReadingQuery = {}): Promise<Reading[]> {
+    return await this.readingRepository.find({
+      where: { topicId, field, ...this.timeRange(query) },
+      order: { recordedAt: 'DESC', channel: 'ASC' },
+      take: query.limit ?? 1000
+    });
+  }
+
+  /**
+   * Aggregate the engineering values of a topic into time buckets, computed in the database
+   * Rollups of purged readings fill in for them when they are no wider than the requested bucket;
+   * buckets without data are left out
+   * @param topicId Topic ID
+   * @param query Time range, bucket width and optional fields
+   * @returns One series per field channel, buckets oldest first
+   */
+  public async aggregate(topicId: string, query: ReadingAggregateQuery): Promise<ReadingSeries[]> {
+    const bucketSeconds: number = BUCKET_SECONDS[query.bucket];
+    const rollupBuckets: string[] = Object.keys(BUCKET_SECONDS)
+      .filter((bucket: string) => BUCKET_SECONDS[bucket as BucketInterval] <= bucketSeconds);
+    const fieldFilter: string = query.fields?.length ? 'AND "field" = ANY($6)' : '';
+    const bucketExpression = (column: string): string => 
+      `to_timestamp(floor(extract(epoch from "${column}") / $4) * $4) at time zone 'UTC'`;
+
+    // Readings and rollups are reduced to partial sums first so both combine into the same buckets
+    const rows: any[] = await this.readingRepository.query(
+      `SELECT "field", "channel", "bucket",
+              min("min") AS "min",
+              max("max") AS "max",
+              sum("sum") / nullif(sum("count"), 0) AS "avg",
+              (array_agg("last" ORDER BY "lastAt" DESC))[1] AS "last",
+              sum("count")::int AS "count"
+       FROM (
+         SELECT "field", "channel", ${bucketExpression('recordedAt')} AS "bucket",
+                min("value") AS "min", max("value") AS "max", sum("value") AS "sum", count("value") AS "count",
+                (array_agg("value" ORDER BY "recordedAt" DESC, "sequence" DESC))[1] AS "last", max("recordedAt") AS "lastAt"
+         FROM "readings"
+         WHERE "topicId" = $1 AND "recordedAt" >= $2 AND "recordedAt" < $3 ${fieldFilter}
+         GROUP BY "field", "channel", 3
+         UNION ALL
+         SELECT "field", "channel", ${bucketExpression('bucketStart')},
+                "min", "max", "avg" * "count", "count", "last", coalesce("lastAt", "bucketStart")
+         FROM "reading_rollups"
+         WHERE "topicId" = $1 AND "bucketStart" >= $2 AND "bucketStart" < $3 AND "bucket" = ANY($5) ${fieldFilter}
+       ) "parts"
+       GROUP BY "field", "channel", "bucket"
+       ORDER BY "field", "channel", "bucket"`,
+      [topicId, query.from, query.to, bucketSeconds, rollupBuckets, ...(query.fields?.length ? [query.fields] : [])]
+    );
+
+    const series: Map<string, ReadingSeries> = new Map();
+    for (const row of rows) {
+      const key: string = `${row.field}:${row.channel}`;
+      let fieldSeries: ReadingSeries | undefined = series.get(key);
+      if (!fieldSeries) {
+        fieldSeries = { field: row.field, channel: row.channel, buckets: [] };
+        series.set(key, fieldSeries);
+      }
+      fieldSeries.buckets.push({
+        time: row.bucket,
+        min: row.min,
+        max: row.max,
+        avg: row.avg,
+        last: row.last,
+        count: row.count
+      });
+    }
+
+    return Array.from(series.values());
+  }
+
+  /**
+   * Readings of a topic within the time range of the query
+   */
+  private createTimestampQuery(topicId: string, query: ReadingQuery): SelectQueryBuilder<Reading> {
+    const timestampQuery: SelectQueryBuilder<Reading> = this.readingRepository.createQueryBuilder('reading')
+      .where('reading.topicId = :topicId', { topicId });
+    if (query.from) timestampQuery.andWhere('reading.recordedAt >= :from', { from: query.from });
+    if (query.to) timestampQuery.andWhere('reading.recordedAt <= :to', { to: query.to });
+
+    return timestampQuery;
+  }
+
+  /**
+   * Sequence of a message among the messages of its topic received within the same millisecond
+   * @param topicId Topic ID
+   * @param recordedAt Receive time of the message
+   */
+  private nextSequence(topicId: string, recordedAt: Date): number {
+    const last: ReadingCursor | undefined = this.lastSequences.get(topicId);
+    const sequence: number = last?.recordedAt.getTime() === recordedAt.getTime() ? last.sequence + 1 : 0;
+    this.lastSequences.set(topicId, { recordedAt, sequence });
+    return sequence;
+  }
+
+  /**
+   * Key of the message a reading or cursor belongs to
+   */
+  private getMessageKey(message: ReadingCursor): string {
+    return `${new Date(message.recordedAt).getTime()}:${message.sequence}`;
+  }
+
+  /**
+   * Payload fields of a message, found under "d" for zone data
+   */
+  private getFields(data: any): Record<string, any> {
+    if (!data || typeof data !== 'object') return {};
+    return data.d && typeof data.d === 'object' ? data.d : data;
+  }
+
+  /**
+   * Numeric engineering value of a reading, with converted strings that are not numbers kept as text
+   * @param rawValue The raw value
+   * @param processedValue The converted value
+   * @param register Register the field is decoded with, if any
+   */
+  private toReadingValue(
+    rawValue: number, 
+    processedValue: any, 
+    register?: RegisterDefinition
+  ): Pick<Reading, 'value' | 'text'> {
+    if (typeof processedValue === 'number') {
+      return { value: processedValue, text: null };
+    }
+    if (typeof processedValue !== 'string') {
+      return { value: processedValue === undefined ? rawValue : null, text: null };
+    }
+
+    // Bitstrings look like numbers but stand for the raw register value
+    if (register?.dataType === 'binary') {
+      return { value: rawValue, text: processedValue };
+    }
+
+    const numericValue: number = Number(processedValue);
+    return processedValue.trim() !== '' && Number.isFinite(numericValue)
+      ? { value: numericValue, text: null }
+      : { value: null, text: processedValue };
+  }
+
+  /**
+   * Groups readings recorded at the same time back into messages
+   * The raw words are restored from the readings and decoded again, so the processed data matches
+   * the live payload including formatted values, field metadata and signals
+   * @param topic Topic the readings belong to
+   * @param readings Readings ordered by time, sequence, field and channel
+   */
+  private async toSnapshots(topic: Topic, readings: Reading[]): Promise<ReadingSnapshot[]> {
+    const modelRegisters: RegisterDefinition[] | null = 
+      topic.deviceId ? await deviceModelService.getRegistersForDevice(topic.deviceId) : null;
+    const registers: RegisterDefinition[] = modelRegisters ?? DEFAULT_REGISTER_MAP;
+    const messages: Map<string, StoredMessage> = new Map();
+
+    for (const reading of readings) {
+      const key: string = this.getMessageKey(reading);
+      let message: StoredMessage | undefined = messages.get(key);
+      if (!message) {
+        message = { timestamp: reading.recordedAt, raw: {}, quality: {} };
+        messages.set(key, message);
+      }
+
+      const raw: (number | null)[] = message.raw[reading.field] = message.raw[reading.field] || [];
+      const register: RegisterDefinition | undefined = findRegister(registers, reading.field);
+      const rawValue: number | null = reading.rawValue ?? null;
+      if (register && getWordCount(register.dataType) === 2 && rawValue !== null) {
+        [raw[reading.channel * 2], raw[reading.channel * 2 + 1]] = encode32BitWords(rawValue, register.dataType, register.wordOrder);
+      } else {
+        raw[reading.channel] = rawValue;
+      }
+      (message.quality[reading.field] = message.quality[reading.field] || [])[reading.channel] = reading.quality;
+    }
+
+    return Array.from(messages.values()).map((message: StoredMessage): ReadingSnapshot => {
+      const data: ZoneData = { d: message.raw, ts: message.timestamp.toISOString() };
+      const processedData: ProcessedZoneData | Record<string, any> = processDataForWebsocket(topic.name, data, modelRegisters);
+      return { timestamp: message.timestamp, data, processedData: { ...processedData, quality: message.quality } };
+    });
+  }
+
+  private timeRange(query: ReadingQuery): { recordedAt?: FindOperator<Date> } {
+    if (query.from && query.to) return { recordedAt: Between(query.from, query.to) };
+    if (query.from) return { recordedAt: MoreThanOrEqual(query.from) };
+    if (query.to) return { recordedAt: LessThanOrEqual(query.to) };
+    return {};
+  }
+}
+
+// Export singleton instance
+export const readingService = new ReadingService();
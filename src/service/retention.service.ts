@@ -0,0 +1,334 @@
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { retentionConfig } from '../config/retention.config';
+import { RetentionPolicy } from '../entity/retention-policy.entity';
+import { Topic } from '../entity/topic.entity';
+import { Reading } from '../entity/reading.entity';
+import { ReadingRollup } from '../entity/reading-rollup.entity';
+import { Zone } from '../entity/zone.entity';
+import { Device } from '../entity/device.entity';
+import { createRetentionPolicyRequest, updateRetentionPolicyRequest } from '../dto/request/retention.request';
+import { RetentionReport, RetentionTopicReport } from '../interface/retention.interface';
+import { BUCKET_SECONDS } from './reading.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Singleton
+export class RetentionService {
+  private readonly policyRepository: Repository<RetentionPolicy>;
+  private readonly topicRepository: Repository<Topic>;
+  private readonly deviceRepository: Repository<Device>;
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly rollupRepository: Repository<ReadingRollup>;
+  private runTimer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor() {
+    this.policyRepository = AppDataSource.getRepository(RetentionPolicy);
+    this.topicRepository = AppDataSource.getRepository(Topic);
+    this.deviceRepository = AppDataSource.getRepository(Device);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.rollupRepository = AppDataSource.getRepository(ReadingRollup);
+  }
+
+  /**
+   * Start the periodic retention job - should be called after database is ready
+   */
+  public start(): void {
+    if (this.runTimer || !retentionConfig.enabled) return;
+
+    this.runTimer = setInterval(async () => {
+      if (this.running) return;
+      try {
+        const report: RetentionReport = await this.run();
+        if (report.readingsDeleted > 0 || report.rollupsDeleted > 0) {
+          console.log(`Retention removed ${report.readingsDeleted} readings and ${report.rollupsDeleted} rollups, wrote ${report.rollupsWritten} rollups`);
+        }
+      } catch (error) {
+        console.error('Retention job failed:', error);
+      }
+    }, retentionConfig.intervalMs);
+  }
+
+  /**
+   * Stop the periodic retention job
+   */
+  public stop(): void {
+    if (this.runTimer) {
+      clearInterval(this.runTimer);
+      this.runTimer = null;
+    }
+  }
+
+  /**
+   * Create a retention policy for a zone, a device or, with neither, the default policy
+   * @param request Retention policy creation request
+   * @returns Created retention policy
+   */
+  public async createPolicy(request: createRetentionPolicyRequest): Promise<RetentionPolicy> {
+    let deviceId: string | null = request.deviceId ?? null;
+    const zoneId: string | null = request.zoneId ?? null;
+
+    if (zoneId) {
+      const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: zoneId } });
+      if (!zone) {
+        throw new Error('Zone not found');
+      }
+      if (deviceId && deviceId !== zone.deviceId) {
+        throw new Error('Zone not found for this device');
+      }
+      deviceId = zone.deviceId;
+    } else if (deviceId && !(await this.deviceRepository.exists({ where: { id: deviceId } }))) {
+      throw new Error('Device not found');
+    }
+
+    const existing: RetentionPolicy | null = await this.policyRepository.findOne({
+      where: { deviceId: deviceId ?? IsNull(), zoneId: zoneId ?? IsNull() }
+    });
+    if (existing) {
+      throw new Error('A retention policy already exists for this scope');
+    }
+
+    const policy: RetentionPolicy = new RetentionPolicy();
+    policy.deviceId = deviceId;
+    policy.zoneId = zoneId;
+    policy.rawRetentionDays = request.rawRetentionDays;
+    policy.rollupRetentionDays = request.rollupRetentionDays ?? null;
+    policy.rollupBucket = request.rollupBucket ?? '1h';
+    policy.enabled = request.enabled ?? true;
+
+    return await this.policyRepository.save(policy);
+  }
+
+  /**
+   * Update the retention periods of a policy
+   * The rollup bucket can only be changed as long as none of the topics of the policy has rollups
+   * @param id Retention policy ID
+   * @param request Retention policy update request
+   * @returns Updated retention policy
+   */
+  public async updatePolicy(id: string, request: updateRetentionPolicyRequest): Promise<RetentionPolicy> {
+    const policy: RetentionPolicy = await this.getPolicyById(id);
+
+    if (request.rawRetentionDays !== undefined) policy.rawRetentionDays = request.rawRetentionDays;
+    if (request.rollupRetentionDays !== undefined) policy.rollupRetentionDays = request.rollupRetentionDays;
+    if (request.rollupBucket !== undefined && request.rollupBucket !== policy.rollupBucket) {
+      await this.assertNoRollups(policy);
+      policy.rollupBucket = request.rollupBucket;
+    }
+    if (request.enabled !== undefined) policy.enabled = request.enabled;
+
+    return await this.policyRepository.save(policy);
+  }
+
+  /**
+   * Delete a retention policy, its topics fall back to the device or default policy
+   * @param id Retention policy ID
+   */
+  public async deletePolicy(id: string): Promise<void> {
+    await this.getPolicyById(id);
+    await this.policyRepository.delete(id);
+  }
+
+  /**
+   * Get a retention policy by its ID
+   * @param id Retention policy ID
+   * @returns The retention policy
+   */
+  public async getPolicyById(id: string): Promise<RetentionPolicy> {
+    const policy: RetentionPolicy | null = await this.policyRepository.findOne({ where: { id } });
+
+    if (!policy) {
+      throw new Error('Retention policy not found');
+    }
+    return policy;
+  }
+
+  /**
+   * Get all retention policies
+   * @returns Array of retention policies
+   */
+  public async getAllPolicies(): Promise<RetentionPolicy[]> {
+    return await this.policyRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * Roll up and purge raw readings past their retention, then purge expired rollups
+   * Each topic is handled in its own transaction so rollups are always written before their readings are removed
+   * @param dryRun Only count what would be written and removed
+   * @returns What was, or would be, written and removed per topic
+   */
+  public async run(dryRun: boolean = false): Promise<RetentionReport> {
+    if (this.running) {
+      throw new Error('Retention is already running');
+    }
+    this.running = true;
+
+    const report: RetentionReport = {
+      dryRun,
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      readingsDeleted: 0,
+      rollupsWritten: 0,
+      rollupsDeleted: 0,
+      topics: []
+    };
+
+    try {
+      const policies: RetentionPolicy[] = await this.policyRepository.find({ where: { enabled: true } });
+      if (policies.length === 0) return report;
+
+      const topics: Topic[] = await this.topicRepository.find({ withDeleted: true });
+      for (const topic of topics) {
+        const policy: RetentionPolicy | undefined = this.resolvePolicy(policies, topic);
+        if (!policy) continue;
+
+        const topicReport: RetentionTopicReport = dryRun 
+          ? await this.previewTopic(topic, policy) 
+          : await AppDataSource.transaction((manager: EntityManager) => this.applyTopic(manager, topic, policy));
+
+        if (topicReport.readingsDeleted > 0 || topicReport.rollupsDeleted > 0) {
+          report.topics.push(topicReport);
+          report.readingsDeleted += topicReport.readingsDeleted;
+          report.rollupsWritten += topicReport.rollupsWritten;
+          report.rollupsDeleted += topicReport.rollupsDeleted;
+        }
+      }
+
+      return report;
+    } finally {
+      report.finishedAt = new Date();
+      this.running = false;
+    }
+  }
+
+  /**
+   * Reject a policy whose topics already have rollups
+   * Readings rolled up in another bucket width afterwards would be counted twice by aggregated history
+   */
+  private async assertNoRollups(policy: RetentionPolicy): Promise<void> {
+    const policies: RetentionPolicy[] = await this.policyRepository.find();
+    const topics: Topic[] = await this.topicRepository.find({ withDeleted: true });
+    const topicIds: string[] = topics
+      .filter((topic: Topic) => this.resolvePolicy(policies, topic)?.id === policy.id)
+      .map((topic: Topic) => topic.id);
+    if (topicIds.length === 0) return;
+
+    if (await this.rollupRepository.exists({ where: { topicId: In(topicIds) } })) {
+      throw new Error('Rollup bucket cannot be changed, topics of this policy already have rollups');
+    }
+  }
+
+  /**
+   * The zone policy of a topic, else its device policy, else the default policy
+   */
+  private resolvePolicy(policies: RetentionPolicy[], topic: Topic): RetentionPolicy | undefined {
+    return policies.find(policy => policy.zoneId && policy.zoneId === topic.zoneId)
+      ?? policies.find(policy => !policy.zoneId && policy.deviceId && policy.deviceId === topic.deviceId)
+      ?? policies.find(policy => !policy.zoneId && !policy.deviceId);
+  }
+
+  /**
+   * Counts what applying the policy to a topic would write and remove
+   */
+  private async previewTopic(topic: Topic, policy: RetentionPolicy): Promise<RetentionTopicReport> {
+    const topicReport: RetentionTopicReport = this.createTopicReport(topic, policy);
+    const bucketSeconds: number = BUCKET_SECONDS[policy.rollupBucket];
+
+    const [readings] = await AppDataSource.query(
+      `SELECT count(*)::int AS "readingsDeleted",
+              count(DISTINCT ("field", "channel", floor(extract(epoch from "recordedAt") / $3)))::int AS "rollupsWritten"
+       FROM "readings" WHERE "topicId" = $1 AND "recordedAt" < $2`,
+      [topic.id, topicReport.rawCutoff, bucketSeconds]
+    );
+    topicReport.readingsDeleted = readings.readingsDeleted;
+    topicReport.rollupsWritten = readings.rollupsWritten;
+
+    if (topicReport.rollupCutoff) {
+      const [rollups] = await AppDataSource.query(
+        `SELECT count(*)::int AS "rollupsDeleted" FROM "reading_rollups" WHERE "topicId" = $1 AND "bucketStart" < $2`,
+        [topic.id, topicReport.rollupCutoff]
+      );
+      topicReport.rollupsDeleted = rollups.rollupsDeleted;
+    }
+
+    return topicReport;
+  }
+
+  /**
+   * Rolls up readings past the raw cutoff, removes them and removes rollups past the rollup cutoff
+   * Readings imported into a bucket that was already rolled up are merged into the existing rollup,
+   * its last value is only replaced by a newer one
+   */
+  private async applyTopic(manager: EntityManager, topic: Topic, policy: RetentionPolicy): Promise<RetentionTopicReport> {
+    const topicReport: RetentionTopicReport = this.createTopicReport(topic, policy);
+    const bucketSeconds: number = BUCKET_SECONDS[policy.rollupBucket];
+
+    const rollups: object[] = await manager.query(
+      `INSERT INTO "reading_rollups" ("topicId", "field", "channel", "bucket", "bucketStart", "min", "max", "avg", "last", "lastAt", "count")
+       SELECT "topicId", "field", "channel", $3,
+              to_timestamp(floor(extract(epoch from "recordedAt") / $4) * $4) at time zone 'UTC' AS "bucketStart",
+              min("value"), max("value"), avg("value"),
+              (array_agg("value" ORDER BY "recordedAt" DESC, "sequence" DESC))[1],
+              max("recordedAt"),
+              count("value")
+       FROM "readings"
+       WHERE "topicId" = $1 AND "recordedAt" < $2
+       GROUP BY "topicId", "field", "channel", "bucketStart"
+       ON CONFLICT ("topicId", "field", "channel", "bucket", "bucketStart") DO UPDATE SET
+              "min" = least("reading_rollups"."min", excluded."min"),
+              "max" = greatest("reading_rollups"."max", excluded."max"),
+              "avg" = (coalesce("reading_rollups"."avg" * "reading_rollups"."count", 0) + coalesce(excluded."avg" * excluded."count", 0))
+                      / nullif("reading_rollups"."count" + excluded."count", 0),
+              "last" = CASE WHEN "reading_rollups"."lastAt" IS NULL OR excluded."lastAt" >= "reading_rollups"."lastAt"
+                            THEN excluded."last" ELSE "reading_rollups"."last" END,
+              "lastAt" = greatest("reading_rollups"."lastAt", excluded."lastAt"),
+              "count" = "reading_rollups"."count" + excluded."count"
+       RETURNING "id"`,
+      [topic.id, topicReport.rawCutoff, policy.rollupBucket, bucketSeconds]
+    );
+    topicReport.rollupsWritten = rollups.length;
+
+    const deletedReadings = await manager.createQueryBuilder()
+      .delete()
+      .from(Reading)
+      .where('"topicId" = :topicId AND "recordedAt" < :cutoff', { topicId: topic.id, cutoff: topicReport.rawCutoff })
+      .execute();
+    topicReport.readingsDeleted = deletedReadings.affected ?? 0;
+
+    if (topicReport.rollupCutoff) {
+      const deletedRollups = await manager.createQueryBuilder()
+        .delete()
+        .from(ReadingRollup)
+        .where('"topicId" = :topicId AND "bucketStart" < :cutoff', { topicId: topic.id, cutoff: topicReport.rollupCutoff })
+        .execute();
+      topicReport.rollupsDeleted = deletedRollups.affected ?? 0;
+    }
+
+    return topicReport;
+  }
+
+  /**
+   * Cutoffs of a policy for a topic
+   * The raw cutoff is aligned to the rollup bucket so every bucket is rolled up from all of its readings at once
+   */
+  private createTopicReport(topic: Topic, policy: RetentionPolicy): RetentionTopicReport {
+    const bucketMs: number = BUCKET_SECONDS[policy.rollupBucket] * 1000;
+    const rawCutoffMs: number = Date.now() - policy.rawRetentionDays * DAY_MS;
+
+    return {
+      topicId: topic.id,
+      topicName: topic.name,
+      policyId: policy.id,
+      rawCutoff: new Date(Math.floor(rawCutoffMs / bucketMs) * bucketMs),
+      rollupCutoff: policy.rollupRetentionDays ? new Date(Date.now() - policy.rollupRetentionDays * DAY_MS) : null,
+      readingsDeleted: 0,
+      rollupsWritten: 0,
+      rollupsDeleted: 0
+    };
+  }
+}
+
+// Export singleton instance
+export const retentionService = new RetentionService();
@@ -0,0 +1,405 @@
+import { Repository } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { shadowConfig } from '../config/shadow.config';
+import { DeviceShadow } from '../entity/device-shadow.entity';
+import { Command, CommandStatus } from '../entity/command.entity';
+import { Zone } from '../entity/zone.entity';
+import { updateDesiredStateRequest } from '../dto/request/shadow.request';
+import { DeviceChangeEvent } from '../interface/device.interface';
+import { ShadowDeltaMessage, ShadowDocument, ShadowStateEvent, ShadowStatus, ShadowValue } from '../interface/shadow.interface';
+import { TelemetryEvent } from '../interface/telemetry.interface';
+import { readFieldValue } from '../utils/data-convert.util';
+import { commandService } from './command.service';
+import { DeviceService } from './device.service';
+import { mqttService } from './mqtt.service';
+import { notificationService } from './notification.service';
+import { webSocketService } from './websocket.service';
+
+// Reported values are compared after conversion, which rounds to a few decimals
+const VALUE_EPSILON = 1e-6;
+const FIELD_NAME_PATTERN = /^\w+$/;
+
+@Singleton
+export class ShadowService {
+  private readonly shadowRepository: Repository<DeviceShadow>;
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly deviceService: DeviceService;
+  private readonly reportedFieldPattern: RegExp = new RegExp(shadowConfig.reportedFieldPattern);
+
+  // Shadows per zone ID, loaded on initialize
+  private readonly shadows: Map<string, DeviceShadow> = new Map();
+  // Telemetry, API updates and resends run one after another so a shadow is never changed twice at once
+  private updating: Promise<unknown> = Promise.resolve();
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.shadowRepository = AppDataSource.getRepository(DeviceShadow);
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Initialize device shadows - should be called after database and MQTT are ready
+   * Reports every telemetry message into the shadow of its zone and starts resending
+   * deltas that are not confirmed by telemetry
+   */
+  public async initialize(): Promise<void> {
+    // Shadows of deleted zones are kept for a restore, but not tracked
+    const shadows: DeviceShadow[] = await this.shadowRepository.createQueryBuilder('shadow')
+      .innerJoin('shadow.zone', 'zone')
+      .getMany();
+    for (const shadow of shadows) {
+      this.shadows.set(shadow.zoneId, shadow);
+    }
+
+    mqttService.addTelemetryListener((event: TelemetryEvent) => this.enqueue(() => this.report(event)));
+    this.deviceService.addChangeListener((event: DeviceChangeEvent) => this.enqueue(() => this.handleDeviceChange(event)));
+
+    if (!this.checkTimer) {
+      this.checkTimer = setInterval(() => {
+        this.enqueue(() => this.checkPending()).catch((error: unknown) => {
+          console.error('Failed to check pending shadow deltas:', error);
+        });
+      }, shadowConfig.checkIntervalMs);
+    }
+  }
+
+  /**
+   * Stop the resend timer, pending deltas are resent after the next initialize
+   */
+  public stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Get the shadow of a zone, created empty if the zone has none yet
+   * @param zoneId Zone ID
+   * @param userId Authenticated user ID
+   * @returns The shadow
+   */
+  public async getShadow(zoneId: string, userId: string): Promise<DeviceShadow> {
+    const zone: Zone = await this.getZone(zoneId, userId);
+    return await this.enqueue(() => this.getOrCreate(zone.deviceId, zone.id));
+  }
+
+  /**
+   * Get the shadows of the zones of a device
+   * @param deviceId Device ID
+   * @param userId Authenticated user ID
+   * @returns Shadows
+   */
+  public async getShadows(deviceId: string, userId: string): Promise<DeviceShadow[]> {
+    await this.deviceService.getDeviceById(deviceId, userId);
+
+    return await this.shadowRepository.find({
+      where: { deviceId },
+      order: { createdAt: 'ASC' }
+    });
+  }
+
+  /**
+   * Merge fields into the desired state of a zone and send the resulting delta to the device
+   * @param zoneId Zone ID
+   * @param request Desired fields, null removes a field
+   * @param userId Authenticated user ID, the delta is sent as this user
+   * @returns The updated shadow
+   */
+  public async updateDesired(zoneId: string, request: updateDesiredStateRequest, userId: string): Promise<DeviceShadow> {
+    const zone: Zone = await this.getZone(zoneId, userId);
+    this.validateDesired(request.desired);
+
+    return await this.enqueue(async () => {
+      const shadow: DeviceShadow = await this.getOrCreate(zone.deviceId, zone.id);
+
+      const desired: ShadowDocument = { ...shadow.desired };
+      for (const [field, value] of Object.entries(request.desired)) {
+        if (value === null) delete desired[field];
+        else desired[field] = value;
+      }
+      shadow.desired = desired;
+      shadow.version++;
+      shadow.desiredUpdatedAt = new Date();
+      shadow.desiredUpdatedBy = userId;
+
+      await this.reconcile(shadow, true);
+      return shadow;
+    });
+  }
+
+  /**
+   * Send the current delta of a zone again, starting the send count over
+   * e.g. after a diverged shadow was fixed on the device
+   * @param zoneId Zone ID
+   * @param userId Authenticated user ID
+   * @returns The shadow
+   */
+  public async resync(zoneId: string, userId: string): Promise<DeviceShadow> {
+    const zone: Zone = await this.getZone(zoneId, userId);
+
+    return await this.enqueue(async () => {
+      const shadow: DeviceShadow = await this.getOrCreate(zone.deviceId, zone.id);
+      await this.reconcile(shadow, true);
+      return shadow;
+    });
+  }
+
+  /**
+   * Updates the reported state of the zone of a telemetry message
+   * Fields with a desired value and fields matching the reported field pattern are tracked
+   * @param event Telemetry event
+   */
+  private async report(event: TelemetryEvent): Promise<void> {
+    if (!event.zoneId || !event.deviceId) return;
+
+    const data: Record<string, any> = event.processedData;
+    const fields: Record<string, any> | undefined = data?.d && typeof data.d === 'object' ? data.d : undefined;
+    if (!fields) return;
+
+    const existing: DeviceShadow | undefined = this.shadows.get(event.zoneId);
+    const tracked: string[] = Object.keys(fields).filter(
+      (field: string) => this.reportedFieldPattern.test(field) || (existing && field in existing.desired)
+    );
+    if (tracked.length === 0) return;
+
+    const shadow: DeviceShadow = existing ?? await this.getOrCreate(event.deviceId, event.zoneId);
+
+    const reported: ShadowDocument = { ...shadow.reported };
+    for (const field of tracked) {
+      const values: any[] = Array.isArray(fields[field]) ? fields[field] : [fields[field]];
+      reported[field] = values.map((_value: any, channel: number) => readFieldValue(data, field, channel));
+    }
+    const changed: boolean = JSON.stringify(reported) !== JSON.stringify(shadow.reported);
+    shadow.reported = reported;
+    shadow.reportedAt = event.receivedAt;
+
+    // A reported change away from the desired state is pushed back right away,
+    // a delta already on its way is left to the resend check
+    if (changed) {
+      await this.reconcile(shadow, shadow.status === 'in_sync');
+    } else {
+      await this.shadowRepository.update(shadow.id, { reportedAt: shadow.reportedAt });
+    }
+  }
+
+  /**
+   * Recomputes the delta of a shadow, sends it if asked and there is one, and stores the shadow
+   * @param shadow The shadow
+   * @param send Send a non-empty delta, starting the send count over
+   */
+  private async reconcile(shadow: DeviceShadow, send: boolean): Promise<void> {
+    const previousStatus: ShadowStatus = shadow.status;
+    shadow.delta = this.computeDelta(shadow.desired, shadow.reported);
+
+    if (!shadow.delta) {
+      if (shadow.status !== 'in_sync') {
+        shadow.status = 'in_sync';
+        shadow.convergedAt = new Date();
+      }
+      shadow.deltaAttempts = 0;
+      shadow.lastError = null;
+    } else if (send) {
+      shadow.deltaAttempts = 0;
+      await this.sendDelta(shadow);
+    }
+
+    await this.shadowRepository.save(shadow);
+    if (shadow.status !== previousStatus || (send && shadow.delta)) {
+      this.broadcastShadowState(shadow, previousStatus);
+    }
+  }
+
+  /**
+   * Publishes the delta of a shadow as a command to its zone
+   * A failed send is recorded and retried by the resend check
+   */
+  private async sendDelta(shadow: DeviceShadow): Promise<void> {
+    shadow.status = 'pending';
+    shadow.deltaAttempts++;
+    shadow.deltaSentAt = new Date();
+
+    try {
+      if (!shadow.desiredUpdatedBy) {
+        throw new Error('No user to send the delta as');
+      }
+
+      const message: ShadowDeltaMessage = { version: shadow.version, state: shadow.delta! };
+      const command: Command = await commandService.sendCommand(
+        { deviceId: shadow.deviceId, zoneId: shadow.zoneId, command: shadowConfig.deltaCommand, payload: message },
+        shadow.desiredUpdatedBy,
+        'shadow'
+      );
+      shadow.lastCommandId = command.id;
+      if (command.status === CommandStatus.FAILED) {
+        throw new Error(command.error || 'Delta could not be published');
+      }
+      shadow.lastError = null;
+    } catch (error: any) {
+      shadow.lastError = error.message || String(error);
+    }
+  }
+
+  /**
+   * Resends deltas that telemetry did not confirm in time, and gives up on shadows
+   * that reached the maximum number of sends
+   */
+  private async checkPending(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    const now: number = Date.now();
+    for (const shadow of this.shadows.values()) {
+      if (shadow.status !== 'pending' || !shadow.delta) continue;
+      if (shadow.deltaSentAt && now - shadow.deltaSentAt.getTime() < shadowConfig.resendIntervalMs) continue;
+
+      if (shadow.deltaAttempts >= shadowConfig.maxAttempts) {
+        shadow.status = 'diverged';
+        await this.shadowRepository.save(shadow);
+        this.broadcastShadowState(shadow, 'pending');
+
+        await notificationService.notify({
+          deviceId: shadow.deviceId,
+          zoneId: shadow.zoneId,
+          severity: 'warning',
+          title: 'Device configuration diverged',
+          message: `Fields ${Object.keys(shadow.delta).join(', ')} did not reach their desired values after ` +
+            `${shadow.deltaAttempts} attempts` + (shadow.lastError ? `: ${shadow.lastError}` : ''),
+          source: 'shadow',
+          sourceId: shadow.id,
+          data: { version: shadow.version, delta: shadow.delta }
+        });
+        continue;
+      }
+
+      await this.sendDelta(shadow);
+      await this.shadowRepository.save(shadow);
+    }
+  }
+
+  /**
+   * Stops tracking the shadow of a deleted zone, and reloads it when the zone is restored or moved
+   * @param event The device or zone change
+   */
+  private async handleDeviceChange(event: DeviceChangeEvent): Promise<void> {
+    if (event.scope !== 'zone' || !event.zoneId) return;
+
+    if (event.action === 'deleted') {
+      this.shadows.delete(event.zoneId);
+      return;
+    }
+
+    // A moved zone takes its shadow along, the device ID was updated with the zone
+    const shadow: DeviceShadow | null = await this.shadowRepository.findOne({ where: { zoneId: event.zoneId } });
+    if (shadow) this.shadows.set(event.zoneId, shadow);
+  }
+
+  /**
+   * Desired fields whose reported value differs
+   * @returns The delta, or null when every desired field is reported with its desired value
+   */
+  private computeDelta(desired: ShadowDocument, reported: ShadowDocument): ShadowDocument | null {
+    const delta: ShadowDocument = {};
+
+    for (const [field, value] of Object.entries(desired)) {
+      const wanted: (number | null)[] = Array.isArray(value) ? value : [value];
+      const actual: (number | null)[] = this.toChannels(reported[field]);
+
+      const matches: boolean = wanted.every((wantedValue: number | null, channel: number) =>
+        wantedValue === null ||
+        (actual[channel] !== null && actual[channel] !== undefined && Math.abs(actual[channel]! - wantedValue) < VALUE_EPSILON)
+      );
+      if (!matches) delta[field] = value;
+    }
+
+    return Object.keys(delta).length > 0 ? delta : null;
+  }
+
+  private toChannels(value: ShadowValue | undefined): (number | null)[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private async getOrCreate(deviceId: string, zoneId: string): Promise<DeviceShadow> {
+    let shadow: DeviceShadow | undefined = this.shadows.get(zoneId);
+    if (!shadow) {
+      shadow = await this.shadowRepository.save(this.shadowRepository.create({
+        deviceId,
+        zoneId,
+        desired: {},
+        reported: {},
+        delta: null,
+        version: 0,
+        status: 'in_sync',
+        deltaAttempts: 0
+      }));
+      this.shadows.set(zoneId, shadow);
+    }
+    return shadow;
+  }
+
+  private async getZone(zoneId: string, userId: string): Promise<Zone> {
+    const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: zoneId } });
+    if (!zone) {
+      throw new Error('Zone not found');
+    }
+
+    // Throws if the device does not exist or the user has no access to it
+    await this.deviceService.getDeviceById(zone.deviceId, userId);
+    return zone;
+  }
+
+  /**
+   * Reject desired values that are not numbers or arrays of numbers
+   */
+  private validateDesired(desired: { [field: string]: ShadowValue | null }): void {
+    for (const [field, value] of Object.entries(desired)) {
+      if (!FIELD_NAME_PATTERN.test(field)) {
+        throw new Error(`Invalid shadow: ${field} is not a valid field name`);
+      }
+      if (value === null || (typeof value === 'number' && Number.isFinite(value))) continue;
+      if (Array.isArray(value) && value.length > 0 &&
+          value.every((channel: unknown) => channel === null || (typeof channel === 'number' && Number.isFinite(channel)))) {
+        continue;
+      }
+      throw new Error(`Invalid shadow: ${field} must be a number or an array of numbers`);
+    }
+  }
+
+  /**
+   * Runs a shadow update after the ones before it
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result: Promise<T> = this.updating.then(task);
+    this.updating = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Pushes the convergence state of a shadow to the zone room
+   */
+  private async broadcastShadowState(shadow: DeviceShadow, previousStatus: ShadowStatus): Promise<void> {
+    if (!webSocketService.isInitialized()) return;
+
+    try {
+      const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: shadow.zoneId }, relations: ['device'] });
+      if (!zone?.device) return;
+
+      const event: ShadowStateEvent = {
+        zoneId: shadow.zoneId,
+        deviceId: shadow.deviceId,
+        status: shadow.status,
+        previousStatus,
+        version: shadow.version,
+        delta: shadow.delta ?? null
+      };
+      webSocketService.broadcastToZoneRoom(mqttService.buildTopic(zone.device.deviceNumber, zone.name), 'shadowState', event);
+    } catch (error) {
+      console.error(`Failed to broadcast state of shadow ${shadow.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const shadowService = new ShadowService();
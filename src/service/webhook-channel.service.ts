@@ -0,0 +1,133 @@
+import { createHmac } from 'crypto';
+import { LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { Agent, fetch, Response } from 'undici';
+import { Singleton } from '../decorator/singleton.decorator';
+import { notificationConfig } from '../config/notification.config';
+import { Notification } from '../entity/notification.entity';
+import { NotificationDelivery } from '../entity/notification-delivery.entity';
+import { NotificationPreference } from '../entity/notification-preference.entity';
+import { NotificationChannel, NotificationChannelType } from '../interface/notification.interface';
+import { isInternalAddress, isLoopbackAddress, matchesHost, normalizeHost } from '../utils/network.util';
+
+@Singleton
+export class WebhookChannelService implements NotificationChannel {
+  public readonly type: NotificationChannelType = 'webhook';
+
+  /**
+   * Reject webhook URLs whose host is denied, not allowed or an internal address
+   * Host names are only checked against the host lists, their addresses are checked on every send
+   * @param url The webhook URL
+   */
+  public assertAllowedTarget(url: URL): void {
+    const host: string = normalizeHost(url.hostname);
+
+    if (matchesHost(host, notificationConfig.webhookDeniedHosts)) {
+      throw new Error(`Webhook host ${host} is not allowed`);
+    }
+    if (notificationConfig.webhookAllowedHosts.length > 0 && !matchesHost(host, notificationConfig.webhookAllowedHosts)) {
+      throw new Error(`Webhook host ${host} is not allowed`);
+    }
+    this.assertAllowedAddress(host === 'localhost' ? '127.0.0.1' : host, host);
+  }
+
+  /**
+   * POST a notification as JSON to the delivery target
+   * With a secret on the preference the request carries X-Notification-Signature:
+   * sha256=HMAC-SHA256(secret, "<X-Notification-Timestamp>.<body>") as hex, so receivers
+   * can verify the sender and reject replays
+   * @param notification The notification
+   * @param delivery The delivery, its target is the URL
+   * @param preference Preference the delivery belongs to, holding the secret
+   */
+  public async send(
+    notification: Notification,
+    delivery: NotificationDelivery,
+    preference: NotificationPreference | null
+  ): Promise<void> {
+    if (!delivery.target) {
+      throw new Error('No webhook URL to deliver to');
+    }
+
+    // Preferences saved before the host checks, or host names now resolving elsewhere, are checked again
+    const url: URL = new URL(delivery.target);
+    this.assertAllowedTarget(url);
+    const addresses: LookupAddress[] = await lookup(normalizeHost(url.hostname), { all: true });
+    addresses.forEach((address: LookupAddress) => this.assertAllowedAddress(address.address, url.hostname));
+
+    const body: string = JSON.stringify({
+      id: notification.id,
+      deliveryId: delivery.id,
+      source: notification.source,
+      sourceId: notification.sourceId,
+      severity: notification.severity,
+      title: notification.title,
+      message: notification.message,
+      deviceId: notification.deviceId,
+      zoneId: notification.zoneId,
+      data: notification.data,
+      createdAt: notification.createdAt
+    });
+    const timestamp: string = String(Math.floor(Date.now() / 1000));
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Notification-Id': notification.id,
+      'X-Notification-Timestamp': timestamp
+    };
+    if (preference?.secret) {
+      const signature: string = createHmac('sha256', preference.secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Notification-Signature'] = `sha256=${signature}`;
+    }
+
+    // Connects to the checked address, the host name is not resolved again and cannot be rebound
+    // to an internal address in between
+    const agent: Agent = this.createPinnedAgent(addresses[0]);
+    try {
+      // Redirects are not followed, they could point at an internal address
+      const response: Response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(notificationConfig.webhookTimeoutMs),
+        dispatcher: agent
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook answered with status ${response.status}`);
+      }
+    } finally {
+      await agent.close();
+    }
+  }
+
+  /**
+   * Agent whose connections all go to the given address, whatever the host name of the URL
+   * TLS still verifies the certificate against the host name
+   */
+  private createPinnedAgent(address: LookupAddress): Agent {
+    return new Agent({
+      connect: {
+        lookup: (_hostname: string, options: LookupOptions, callback: (...args: any[]) => void) => {
+          if (options.all) {
+            callback(null, [address]);
+          } else {
+            callback(null, address.address, address.family);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Reject internal addresses, and loopback addresses unless enabled
+   */
+  private assertAllowedAddress(address: string, host: string): void {
+    if (isInternalAddress(address) || (isLoopbackAddress(address) && !notificationConfig.webhookAllowLoopback)) {
+      throw new Error(`Webhook host ${host} resolves to an internal address`);
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookChannelService = new WebhookChannelService();
@@ -1,11 +1,20 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import { Singleton } from '../decorator/singleton.decorator';
 import { Topic } from '../entity/topic.entity';
+import { AuthService } from './auth.service';
+
+/**
+ * Handler for a client event registered by another service
+ * userId is set when the client authenticated with an access token in its handshake
+ */
+export type SocketEventHandler = (socket: Socket, data: any, userId?: string) => Promise<object | void> | object | void;
 
 @Singleton
 export class WebSocketService {
   private io: SocketIOServer | null = null;
+  private eventHandlers: Map<string, SocketEventHandler> = new Map();
+  private readonly authService: AuthService = new AuthService();
   
   /**
    * Initialize the WebSocket service
@@ -36,6 +45,31 @@ export class WebSocketService {
     if (!this.io) return;
     
     this.io.on('connection', (socket) => {
+      // Optional authentication: clients pass their access token as auth.token in the handshake
+      const token: string | undefined = socket.handshake.auth?.token;
+      if (token) {
+        try {
+          socket.data.userId = this.authService.validateAccessToken(token);
+          // Per-user room for events only some users may see
+          socket.join(`user:${socket.data.userId}`);
+        } catch (error) {
+          console.warn(`Socket ${socket.id} sent an invalid access token`);
+        }
+      }
+
+      // Events registered by other services; results are returned through the ack callback
+      for (const [eventName, handler] of this.eventHandlers) {
+        socket.on(eventName, async (data: any, ack?: (response: object) => void) => {
+          try {
+            const result = await handler(socket, data, socket.data.userId);
+            if (typeof ack === 'function') ack({ success: true, data: result });
+          } catch (error) {
+            const message: string = error instanceof Error ? error.message : 'Unknown error';
+            if (typeof ack === 'function') ack({ success: false, error: message });
+            else socket.emit(`${eventName}-error`, { error: message });
+          }
+        });
+      }
       
       // Subscribe to specific topics
       socket.on('subscribe', (topicName: string) => {
@@ -99,7 +133,8 @@ export class WebSocketService {
       // Handle custom events from frontend
       socket.onAny((eventName: string, data: any) => {
         // Check if it's a custom zone event (format: {deviceName}{zoneName}-{eventType})
-        if (eventName.includes('-') && !['subscribe', 'unsubscribe', 'join-room', 'leave-room'].includes(eventName)) {
+        if (eventName.includes('-') && !['subscribe', 'unsubscribe', 'join-room', 'leave-room'].includes(eventName) &&
+            !this.eventHandlers.has(eventName)) {
           
           // Extract room name from event (everything before the first dash)
           const roomName = eventName.split('-')[0];
@@ -125,6 +160,16 @@ export class WebSocketService {
     });
   }
   
+  /**
+   * Register a handler for a client event
+   * Must be called before clients connect, handlers are attached per connection
+   * @param eventName The event name
+   * @param handler The event handler
+   */
+  public registerEventHandler(eventName: string, handler: SocketEventHandler): void {
+    this.eventHandlers.set(eventName, handler);
+  }
+  
   /**
    * Broadcast topic update to all connected clients subscribed to this topic
    * @param topic The topic that was updated
@@ -181,6 +226,25 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Send an event to the authenticated clients of the given users
+   * @param userIds The users to notify
+   * @param eventName The event name to emit
+   * @param data The data to send
+   */
+  public broadcastToUsers(userIds: string[], eventName: string, data: object): void {
+    if (!this.io) {
+      console.warn('WebSocket server not initialized, cannot broadcast to users');
+      return;
+    }
+    if (userIds.length === 0) return;
+
+    this.io.to(userIds.map((userId: string) => `user:${userId}`)).emit(eventName, {
+      ...data,
+      timestamp: new Date()
+    });
+  }
+
   /**
    * Get the number of clients in a specific zone room
    * @param zoneName The zone name
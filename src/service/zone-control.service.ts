@@ -0,0 +1,274 @@
+import { Between, FindOptionsWhere, LessThanOrEqual, MoreThanOrEqual, Not, Repository, UpdateResult } from 'typeorm';
+import { Singleton } from '../decorator/singleton.decorator';
+import { AppDataSource } from '../config/database.config';
+import { zoneControlConfig } from '../config/zone-control.config';
+import { Zone } from '../entity/zone.entity';
+import { ZoneControlEvent } from '../entity/zone-control-event.entity';
+import { setZoneControlRequest } from '../dto/request/zone-control.request';
+import { CommandSource } from '../interface/command.interface';
+import { ZoneControlAction, ZoneControlFilter, ZoneControlMode, ZoneControlStateEvent } from '../interface/zone-control.interface';
+import { DeviceService } from './device.service';
+import { mqttService } from './mqtt.service';
+import { webSocketService } from './websocket.service';
+
+@Singleton
+export class ZoneControlService {
+  private readonly zoneRepository: Repository<Zone>;
+  private readonly eventRepository: Repository<ZoneControlEvent>;
+  private readonly deviceService: DeviceService;
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.zoneRepository = AppDataSource.getRepository(Zone);
+    this.eventRepository = AppDataSource.getRepository(ZoneControlEvent);
+    this.deviceService = new DeviceService();
+  }
+
+  /**
+   * Initialize override expiry - should be called after database is ready
+   * Overrides that expired while the service was down are released right away
+   */
+  public async initialize(): Promise<void> {
+    if (!this.expiryTimer) {
+      this.expiryTimer = setInterval(() => {
+        this.releaseExpired();
+      }, zoneControlConfig.expiryCheckIntervalMs);
+    }
+    await this.releaseExpired();
+  }
+
+  /**
+   * Stop the expiry timer
+   */
+  public stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Take manual control of a zone, lock it out or hand it back to auto
+   * A zone held by another user can only be changed by that user
+   * @param zoneId Zone ID
+   * @param request Mode with reason and expiry
+   * @param userId Authenticated user ID
+   * @returns The zone with its new control state
+   */
+  public async setControl(zoneId: string, request: setZoneControlRequest, userId: string): Promise<Zone> {
+    const zone: Zone = await this.getZone(zoneId, userId);
+    const mode: ZoneControlMode = this.getEffectiveMode(zone);
+
+    if (mode !== 'auto' && zone.controlOwnerId !== userId) {
+      throw new Error('Zone is controlled by another user');
+    }
+
+    if (request.mode === 'auto') {
+      if (mode === 'auto') return zone;
+      return await this.changeControl(zone, 'released', 'auto', null, null, null, userId);
+    }
+
+    if (!request.reason?.trim()) {
+      throw new Error('Invalid zone control: a reason is required for manual and locked-out modes');
+    }
+
+    const now: number = Date.now();
+    const expiresAt: Date = request.expiresAt
+      ? new Date(request.expiresAt)
+      : new Date(now + zoneControlConfig.defaultOverrideMinutes * 60 * 1000);
+    if (expiresAt.getTime() <= now) {
+      throw new Error('Invalid zone control: expiresAt must be in the future');
+    }
+    if (expiresAt.getTime() > now + zoneControlConfig.maxOverrideMinutes * 60 * 1000) {
+      throw new Error(`Invalid zone control: an override lasts at most ${zoneControlConfig.maxOverrideMinutes} minutes`);
+    }
+
+    return await this.changeControl(zone, 'set', request.mode, userId, request.reason.trim(), expiresAt, userId);
+  }
+
+  /**
+   * Get a zone with its control state
+   * @param zoneId Zone ID
+   * @param userId Authenticated user ID
+   * @returns The zone, an expired override already shows as auto
+   */
+  public async getControl(zoneId: string, userId: string): Promise<Zone> {
+    const zone: Zone = await this.getZone(zoneId, userId);
+
+    if (zone.controlMode !== 'auto' && this.getEffectiveMode(zone) === 'auto') {
+      return await this.changeControl(zone, 'expired', 'auto', null, null, null, null);
+    }
+    return zone;
+  }
+
+  /**
+   * Get the control history of a zone
+   * @param filter Zone with optional time range and limit
+   * @param userId Authenticated user ID
+   * @returns Control changes, newest first
+   */
+  public async getHistory(filter: ZoneControlFilter, userId: string): Promise<ZoneControlEvent[]> {
+    await this.getZone(filter.zoneId, userId);
+
+    const where: FindOptionsWhere<ZoneControlEvent> = { zoneId: filter.zoneId };
+    if (filter.from && filter.to) where.createdAt = Between(filter.from, filter.to);
+    else if (filter.from) where.createdAt = MoreThanOrEqual(filter.from);
+    else if (filter.to) where.createdAt = LessThanOrEqual(filter.to);
+
+    return await this.eventRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: filter.limit ?? 100
+    });
+  }
+
+  /**
+   * Reject a command the control mode of its zone does not allow
+   * Called by every path that publishes commands
+   * @param zone Zone the command is for
+   * @param source What issued the command
+   * @param userId User the command is issued as
+   */
+  public assertCommandAllowed(zone: Zone, source: CommandSource, userId: string): void {
+    switch (this.getEffectiveMode(zone)) {
+      case 'locked_out':
+        throw new Error(`Zone is locked out${zone.controlReason ? `: ${zone.controlReason}` : ''}`);
+      case 'manual':
+        if (source !== 'user') {
+          throw new Error('Zone is under manual control');
+        }
+        if (zone.controlOwnerId !== userId) {
+          throw new Error('Zone is under manual control by another user');
+        }
+        return;
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Stores a control change and its history entry and notifies the zone room
+   * A change by a user only goes through while the zone is in auto, held by that user or expired,
+   * so two users taking a zone at the same moment cannot both succeed; an expiry only goes through
+   * while the override is still expired, so it never releases an override taken in the meantime
+   */
+  private async changeControl(
+    zone: Zone,
+    action: ZoneControlAction,
+    mode: ZoneControlMode,
+    ownerId: string | null,
+    reason: string | null,
+    expiresAt: Date | null,
+    changedBy: string | null
+  ): Promise<Zone> {
+    const previousMode: ZoneControlMode = zone.controlMode;
+    const changedAt: Date = new Date();
+
+    const result: UpdateResult = await this.zoneRepository.createQueryBuilder()
+      .update(Zone)
+      .set({
+        controlMode: mode,
+        controlOwnerId: ownerId,
+        controlReason: reason,
+        controlExpiresAt: expiresAt,
+        controlChangedAt: changedAt
+      })
+      .where(changedBy
+        ? [
+          { id: zone.id, controlMode: 'auto' },
+          { id: zone.id, controlOwnerId: changedBy },
+          { id: zone.id, controlExpiresAt: LessThanOrEqual(changedAt) }
+        ]
+        : { id: zone.id, controlExpiresAt: LessThanOrEqual(changedAt) })
+      .execute();
+    if (!result.affected) {
+      if (changedBy) throw new Error('Zone is controlled by another user');
+      return await this.zoneRepository.findOneOrFail({ where: { id: zone.id }, relations: ['device'] });
+    }
+
+    zone.controlMode = mode;
+    zone.controlOwnerId = ownerId;
+    zone.controlReason = reason;
+    zone.controlExpiresAt = expiresAt;
+    zone.controlChangedAt = changedAt;
+
+    const event: ZoneControlEvent = new ZoneControlEvent();
+    event.zoneId = zone.id;
+    event.deviceId = zone.deviceId;
+    event.action = action;
+    event.mode = mode;
+    event.previousMode = previousMode;
+    event.ownerId = ownerId;
+    event.reason = reason;
+    event.expiresAt = expiresAt;
+    event.changedBy = changedBy;
+    await this.eventRepository.save(event);
+
+    this.broadcastControlState(zone, {
+      zoneId: zone.id,
+      deviceId: zone.deviceId,
+      action,
+      mode,
+      previousMode,
+      ownerId,
+      reason,
+      expiresAt,
+      changedBy
+    });
+
+    return zone;
+  }
+
+  /**
+   * Hands zones whose override passed its expiry back to auto
+   */
+  private async releaseExpired(): Promise<void> {
+    if (!AppDataSource.isInitialized) return;
+
+    try {
+      const expired: Zone[] = await this.zoneRepository.find({
+        where: { controlMode: Not('auto'), controlExpiresAt: LessThanOrEqual(new Date()) },
+        relations: ['device']
+      });
+      for (const zone of expired) {
+        await this.changeControl(zone, 'expired', 'auto', null, null, null, null);
+      }
+    } catch (error) {
+      console.error('Failed to release expired zone overrides:', error);
+    }
+  }
+
+  /**
+   * Mode of a zone, auto once its override expired even before the expiry check ran
+   */
+  private getEffectiveMode(zone: Zone): ZoneControlMode {
+    if (zone.controlMode !== 'auto' && zone.controlExpiresAt && zone.controlExpiresAt.getTime() <= Date.now()) {
+      return 'auto';
+    }
+    return zone.controlMode;
+  }
+
+  private async getZone(zoneId: string, userId: string): Promise<Zone> {
+    const zone: Zone | null = await this.zoneRepository.findOne({ where: { id: zoneId }, relations: ['device'] });
+    if (!zone) {
+      throw new Error('Zone not found');
+    }
+
+    // Throws if the device does not exist or the user has no access to it
+    await this.deviceService.getDeviceById(zone.deviceId, userId);
+    return zone;
+  }
+
+  /**
+   * Pushes a control change to everyone in the zone room
+   */
+  private broadcastControlState(zone: Zone, event: ZoneControlStateEvent): void {
+    if (!webSocketService.isInitialized() || !zone.device) return;
+
+    const roomName: string = mqttService.buildTopic(zone.device.deviceNumber, zone.name);
+    webSocketService.broadcastToZoneRoom(roomName, 'zoneControl', event);
+  }
+}
+
+// Export singleton instance
+export const zoneControlService = new ZoneControlService();
@@ -1,28 +1,53 @@
-import { FindOneOptions, FindManyOptions, Repository } from "typeorm";
+import { EntityManager, FindOneOptions, FindManyOptions, IsNull, Not, Repository } from "typeorm";
 import { Singleton } from "../decorator/singleton.decorator";
 import { Zone } from "../entity/zone.entity";
+import { Device } from "../entity/device.entity";
+import { Program } from "../entity/program.entity";
+import { AlertRule } from "../entity/alert-rule.entity";
+import { DataQualityRule } from "../entity/data-quality-rule.entity";
+import { RetentionPolicy } from "../entity/retention-policy.entity";
+import { DeviceShadow } from "../entity/device-shadow.entity";
+import { AutomationRule } from "../entity/automation-rule.entity";
 import { AppDataSource } from "../config/database.config";
-import { createZoneRequest } from "../dto/request/zone.request";
+import { createZoneRequest, patchZoneRequest } from "../dto/request/zone.request";
+import { DeviceService } from "./device.service";
+import { mqttService } from "./mqtt.service";
+import { readingService } from "./reading.service";
+
+// Configuration scoped to a single zone, it follows the zone when moved to another device
+const ZONE_SCOPED_ENTITIES = [Program, AlertRule, DataQualityRule, RetentionPolicy, DeviceShadow];
 
 @Singleton
 export class ZoneService {
     private readonly zoneRepository: Repository<Zone>;
+    private readonly deviceService: DeviceService;
 
     constructor() {
         this.zoneRepository = AppDataSource.getRepository(Zone);
+        this.deviceService = new DeviceService();
     }
 
     /**
      * Create a new zone
      * @param zoneData The zone data to create
+     * @param userId Authenticated user ID, must have access to the device
      * @returns The created zone
      */
-    public async createZone(zoneData: createZoneRequest): Promise<Zone> {
+    public async createZone(zoneData: createZoneRequest, userId: string): Promise<Zone> {
+        // Throws if the device does not exist or the user has no access to it
+        await this.deviceService.getDeviceById(zoneData.deviceId, userId);
+        await this.assertZoneNameAvailable(zoneData.deviceId, zoneData.name);
+
         const zone: Zone = new Zone();
         zone.name = zoneData.name;
         zone.deviceId = zoneData.deviceId;
 
-        return await this.zoneRepository.save(zone);
+        const savedZone: Zone = await this.zoneRepository.save(zone);
+
+        // Start listening to the new device-zone pair right away
+        await mqttService.subscribeZone(savedZone.id);
+
+        return savedZone;
     }
 
     /**
@@ -48,4 +73,148 @@ export class ZoneService {
         };
         return await this.zoneRepository.find(options);
     }
-}
\ No newline at end of file
+
+    /**
+     * Rename a zone or move it to another device
+     * The topic of the zone is renamed so its history stays linked, and the new topic is subscribed
+     * @param id The zone ID
+     * @param request Fields to change, missing fields are kept
+     * @param userId Authenticated user ID, must have access to both devices
+     * @returns The updated zone
+     */
+    public async updateZone(id: string, request: patchZoneRequest, userId: string): Promise<Zone> {
+        const zone: Zone = await this.getOwnedZone(id, userId, false);
+        const name: string = request.name ?? zone.name;
+        const device: Device = request.deviceId && request.deviceId !== zone.deviceId
+            ? await this.deviceService.getDeviceById(request.deviceId, userId)
+            : zone.device;
+        const moved: boolean = device.id !== zone.deviceId;
+        const oldTopic: string = this.deviceService.buildZoneTopic(zone.device.deviceNumber, zone.name);
+
+        if (name !== zone.name || moved) {
+            await this.assertZoneNameAvailable(device.id, name, zone.id);
+        }
+        if (moved) {
+            await this.assertNotUsedByAutomations(zone);
+        }
+
+        await AppDataSource.transaction(async (manager: EntityManager) => {
+            await readingService.renameTopic(manager, oldTopic, this.deviceService.buildZoneTopic(device.deviceNumber, name), device.id, zone.id);
+            await manager.update(Zone, zone.id, { name, deviceId: device.id });
+
+            if (moved) {
+                for (const entity of ZONE_SCOPED_ENTITIES) {
+                    await manager.update(entity, { zoneId: zone.id }, { deviceId: device.id });
+                }
+            }
+        });
+
+        readingService.forgetTopic(oldTopic);
+        await this.deviceService.notifyChangeListeners([
+            { scope: 'zone', action: 'updated', deviceId: device.id, zoneId: zone.id, previousDeviceId: zone.deviceId }
+        ]);
+
+        return await this.zoneRepository.findOneOrFail({ where: { id: zone.id }, relations: ['device', 'topic'] });
+    }
+
+    /**
+     * Soft-delete a zone, its telemetry is no longer received and its history is kept for a restore
+     * @param id The zone ID
+     * @param userId Authenticated user ID, must have access to the device
+     */
+    public async deleteZone(id: string, userId: string): Promise<void> {
+        const zone: Zone = await this.getOwnedZone(id, userId, false);
+
+        // Deleted zones take no commands, so whatever still runs on the zone is stopped first
+        await this.deviceService.notifyDeleteListeners([zone.id]);
+        await this.zoneRepository.softDelete(zone.id);
+
+        await this.deviceService.notifyChangeListeners([
+            { scope: 'zone', action: 'deleted', deviceId: zone.deviceId, zoneId: zone.id, previousDeviceId: zone.deviceId }
+        ]);
+    }
+
+    /**
+     * Restore a soft-deleted zone
+     * @param id The zone ID
+     * @param userId Authenticated user ID, must have access to the device
+     * @returns The restored zone
+     */
+    public async restoreZone(id: string, userId: string): Promise<Zone> {
+        const zone: Zone = await this.getOwnedZone(id, userId, true);
+
+        if (!zone.deletedAt) {
+            throw new Error('Zone is not deleted');
+        }
+
+        // Another zone may have taken the name, and with it the topic, in the meantime
+        await this.assertZoneNameAvailable(zone.deviceId, zone.name, zone.id);
+
+        await this.zoneRepository.restore(zone.id);
+
+        await this.deviceService.notifyChangeListeners([
+            { scope: 'zone', action: 'restored', deviceId: zone.deviceId, zoneId: zone.id, previousDeviceId: zone.deviceId }
+        ]);
+
+        return await this.zoneRepository.findOneOrFail({ where: { id: zone.id }, relations: ['device', 'topic'] });
+    }
+
+    /**
+     * Get the soft-deleted zones of a device, e.g. to restore one
+     * @param deviceId Device ID
+     * @param userId Authenticated user ID, must have access to the device
+     * @returns Array of deleted zones
+     */
+    public async getDeletedZones(deviceId: string, userId: string): Promise<Zone[]> {
+        // Throws if the device does not exist or the user has no access to it
+        await this.deviceService.getDeviceById(deviceId, userId);
+
+        return await this.zoneRepository.find({
+            where: { deviceId, deletedAt: Not(IsNull()) },
+            order: { deletedAt: 'DESC' },
+            withDeleted: true
+        });
+    }
+
+    /**
+     * Get a zone the user may modify, i.e. a zone of an existing device the user has access to
+     * Zones of a deleted device are restored with the device, not on their own
+     */
+    private async getOwnedZone(id: string, userId: string, withDeleted: boolean): Promise<Zone> {
+        const zone: Zone | null = await this.zoneRepository.findOne({
+            where: { id },
+            withDeleted
+        });
+
+        if (!zone) {
+            throw new Error('Zone not found');
+        }
+
+        // Throws if the device does not exist or the user has no access to it
+        zone.device = await this.deviceService.getDeviceById(zone.deviceId, userId);
+        return zone;
+    }
+
+    private async assertZoneNameAvailable(deviceId: string, name: string, zoneId?: string): Promise<void> {
+        // Zones of a device are told apart by name in their topic
+        const existing: Zone | null = await this.zoneRepository.findOne({
+            where: { deviceId, name, ...(zoneId ? { id: Not(zoneId) } : {}) }
+        });
+
+        if (existing) {
+            throw new Error(`Zone name ${name} is already in use on this device`);
+        }
+    }
+
+    private async assertNotUsedByAutomations(zone: Zone): Promise<void> {
+        // Automation rules belong to a device and refer to its zones in their conditions and actions
+        const count: number = await AppDataSource.getRepository(AutomationRule).createQueryBuilder('rule')
+            .where('rule.deviceId = :deviceId', { deviceId: zone.deviceId })
+            .andWhere('(rule.condition::text LIKE :pattern OR rule.actions::text LIKE :pattern)', { pattern: `%${zone.id}%` })
+            .getCount();
+
+        if (count > 0) {
+            throw new Error('Zone is used by automation rules of its device, remove it from them before moving the zone');
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import {
+  applyScaling,
+  convertScaledValue,
+  convertToBinary,
+  decode32BitWords,
+  decodeInt16,
+  decodeRegisterValues,
+  encode32BitWords,
+  toUint16
+} from './data-convert.util';
+
+describe('convertScaledValue', () => {
+  it('scales and formats with the requested decimals', () => {
+    expect(convertScaledValue(345, 0.1, 1)).toBe('34.5');
+    expect(convertScaledValue(400, 0.1, 1)).toBe('40.0');
+    expect(convertScaledValue(12345, 0.01, 3)).toBe('123.450');
+  });
+
+  it('keeps the decimals for zero', () => {
+    expect(convertScaledValue(0, 0.1, 2)).toBe('0.00');
+    expect(convertScaledValue(0, 0.1, 0)).toBe('0');
+  });
+
+  it('applies the offset after scaling', () => {
+    expect(convertScaledValue(2731, 0.1, 1, -273.1)).toBe('0.0');
+    expect(convertScaledValue(0, 0.1, 1, 5)).toBe('5.0');
+  });
+
+  it('handles negative values', () => {
+    expect(convertScaledValue(-345, 0.1, 1)).toBe('-34.5');
+    expect(convertScaledValue(100, 0.1, 1, -20)).toBe('-10.0');
+  });
+
+  it('does not wrap large values', () => {
+    expect(convertScaledValue(4294967295, 1, 0)).toBe('4294967295');
+    expect(convertScaledValue(65535, 0.1, 1)).toBe('6553.5');
+  });
+});
+
+describe('applyScaling', () => {
+  it('rounds to the requested decimals', () => {
+    expect(applyScaling(2731, 0.1, -273.1, 1)).toBe(0);
+    expect(applyScaling(1, 1 / 3, 0, 2)).toBe(0.33);
+  });
+
+  it('returns null for values that overflow to infinity', () => {
+    expect(applyScaling(Number.MAX_VALUE, 10)).toBeNull();
+    expect(applyScaling(NaN)).toBeNull();
+  });
+});
+
+describe('decodeInt16', () => {
+  it('decodes signed words in either representation', () => {
+    expect(decodeInt16(65535, true)).toBe(-1);
+    expect(decodeInt16(-1, true)).toBe(-1);
+    expect(decodeInt16(32768, true)).toBe(-32768);
+    expect(decodeInt16(32767, true)).toBe(32767);
+  });
+
+  it('decodes unsigned words in either representation', () => {
+    expect(decodeInt16(65535, false)).toBe(65535);
+    expect(decodeInt16(-1, false)).toBe(65535);
+  });
+
+  it('truncates values that overflow a word', () => {
+    expect(toUint16(65536)).toBe(0);
+    expect(toUint16(70000)).toBe(4464);
+  });
+});
+
+describe('decode32BitWords', () => {
+  it('decodes floats in both word orders', () => {
+    expect(decode32BitWords(0x4148, 0x0000, 'float32')).toBe(12.5);
+    expect(decode32BitWords(0x0000, 0x4148, 'float32', 'little')).toBe(12.5);
+    expect(decode32BitWords(0xC148, 0x0000, 'float32')).toBe(-12.5);
+  });
+
+  it('decodes signed and unsigned integers', () => {
+    expect(decode32BitWords(0xFFFF, 0xFFFF, 'int32')).toBe(-1);
+    expect(decode32BitWords(0xFFFF, 0xFFFF, 'uint32')).toBe(4294967295);
+    expect(decode32BitWords(0x0001, 0x0000, 'uint32')).toBe(65536);
+    expect(decode32BitWords(0x8000, 0x0000, 'int32')).toBe(-2147483648);
+  });
+
+  it('accepts words sent as signed values', () => {
+    expect(decode32BitWords(-1, -1, 'uint32')).toBe(4294967295);
+  });
+});
+
+describe('encode32BitWords', () => {
+  it('splits values back into the words they were decoded from', () => {
+    expect(encode32BitWords(12.5, 'float32')).toEqual([0x4148, 0x0000]);
+    expect(encode32BitWords(12.5, 'float32', 'little')).toEqual([0x0000, 0x4148]);
+    expect(encode32BitWords(-1, 'int32')).toEqual([0xFFFF, 0xFFFF]);
+    expect(encode32BitWords(4294967295, 'uint32')).toEqual([0xFFFF, 0xFFFF]);
+  });
+
+  it('round-trips with decode32BitWords', () => {
+    for (const value of [-2147483648, -12345678, 0, 65536, 2147483647]) {
+      const [first, second] = encode32BitWords(value, 'int32', 'little');
+      expect(decode32BitWords(first, second, 'int32', 'little')).toBe(value);
+    }
+  });
+});
+
+describe('decodeRegisterValues', () => {
+  it('decodes one value per word pair and null for a trailing word', () => {
+    const register = { name: 'd600', dataType: 'float32' as const, decimals: 1 };
+    expect(decodeRegisterValues([0x4148, 0x0000, 0xC148, 0x0000, 0x4148], register)).toEqual([12.5, -12.5, null]);
+  });
+});
+
+describe('convertToBinary', () => {
+  it('uses two\'s complement for negative values', () => {
+    expect(convertToBinary(-1, 8)).toBe('11111111');
+    expect(convertToBinary(-128, 8)).toBe('10000000');
+  });
+
+  it('keeps unsigned values up to the full width', () => {
+    expect(convertToBinary(200, 8)).toBe('11001000');
+    expect(convertToBinary(65535, 16)).toBe('1111111111111111');
+  });
+
+  it('clamps values outside the range', () => {
+    expect(convertToBinary(300, 8)).toBe('11111111');
+    expect(convertToBinary(-300, 8)).toBe('10000000');
+  });
+});
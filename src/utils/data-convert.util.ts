@@ -2,17 +2,28 @@
  * Utility functions for data conversion in IoT dashboard
  */
 import { 
-  ZoneConfig, 
+  BitDefinition, 
+  RegisterDataType, 
+  RegisterDefinition, 
+  RegisterMeta, 
   ZoneData, 
-  ProcessedZoneData 
+  ProcessedZoneData, 
+  WordOrder 
 } from '../interface/zone-data.interface';
+import { AlertComparator } from '../interface/alert.interface';
 
-// Define common field patterns for all zones
-const ZONE_CONFIG: ZoneConfig = {
-  decimalFields: [/^d2\d\d$/, /^d4\d\d$/, /^d5\d\d$/], // Matches d2xx, d4xx, d5xx fields (e.g., d200, d230, d410, d470, d500, etc.)
-  binaryFields: [/^x\d+$/, /^y\d+$/],                  // Matches all x and y fields (e.g., x0, x20, y0, y20, etc.)
-  asIsFields: [/^m55\d$/]                              // Matches m55x fields (e.g., m550, m551, m552, etc.)
-};
+// Register map used for devices without a device model
+export const DEFAULT_REGISTER_MAP: RegisterDefinition[] = [
+  { name: 'd2xx', pattern: '^d2\\d\\d$', dataType: 'decimal', scale: 0.1, decimals: 1 }, // d200, d230, ...
+  { name: 'd4xx', pattern: '^d4\\d\\d$', dataType: 'decimal', scale: 0.1, decimals: 1 }, // d410, d470, ...
+  { name: 'd5xx', pattern: '^d5\\d\\d$', dataType: 'decimal', scale: 0.1, decimals: 1 }, // d500, d530, ...
+  { name: 'x', pattern: '^x\\d+$', dataType: 'binary', bitLength: 8 },                   // x0, x20, ...
+  { name: 'y', pattern: '^y\\d+$', dataType: 'binary', bitLength: 8 },                   // y0, y20, ...
+  { name: 'm55x', pattern: '^m55\\d$', dataType: 'raw' }                                 // m550, m551, ...
+];
+
+// Compiled patterns, register maps are reused for every message
+const patternCache: Map<string, RegExp> = new Map();
 
 /**
  * Convert a number by placing decimal point before last digit and ensuring one decimal place
@@ -27,19 +38,221 @@ export const convertDecimalPlace = (value: number): string => {
 };
 
 /**
- * Convert a number to 8-bit signed binary
+ * Scale a number and format it with a fixed number of decimals
+ * e.g., 345 with scale 0.1 and 1 decimal -> 34.5, 0 -> 0.0
  * @param value The number to convert
- * @returns The 8-bit signed binary representation as a string
+ * @param scale Factor applied to the value
+ * @param decimals Number of decimal places
+ * @param offset Added after scaling
+ * @returns The scaled value as fixed-point string
  */
-export const convertTo8BitSignedBinary = (value: number): string => {
-  // Ensure the value is within 8-bit signed range (-128 to 127)
-  const clampedValue = Math.max(-128, Math.min(127, value));
-  
-  // Convert to 8-bit binary representation
-  // For negative numbers, this will use two's complement
-  const binary = (clampedValue & 0xFF).toString(2).padStart(8, '0');
+export const convertScaledValue = (value: number, scale: number, decimals: number, offset: number = 0): string => {
+  return (value * scale + offset).toFixed(decimals);
+};
+
+/**
+ * Apply scale, offset and precision to a decoded number
+ * e.g., 2731 with scale 0.1, offset -273.1 and 1 decimal -> 0
+ * @param value The decoded number
+ * @param scale Factor applied to the value
+ * @param offset Added after scaling
+ * @param decimals Number of decimal places to round to, unrounded if omitted
+ * @returns The engineering value, or null if it is not finite
+ */
+export const applyScaling = (value: number, scale: number = 1, offset: number = 0, decimals?: number): number | null => {
+  const scaled = value * scale + offset;
+  if (!Number.isFinite(scaled)) return null;
+  return decimals === undefined ? scaled : Number(scaled.toFixed(decimals));
+};
+
+/**
+ * Number of 16-bit words a value of the data type spans
+ * @param dataType The register data type
+ * @returns 2 for 32-bit types, 1 otherwise
+ */
+export const getWordCount = (dataType: RegisterDataType): number => {
+  return dataType === 'int32' || dataType === 'uint32' || dataType === 'float32' ? 2 : 1;
+};
+
+/**
+ * Truncate a register value to an unsigned 16-bit word
+ * Gateways send words either signed (-1) or unsigned (65535)
+ * @param value The register value
+ * @returns The word (0 to 65535)
+ */
+export const toUint16 = (value: number): number => {
+  return Math.trunc(value) & 0xFFFF;
+};
+
+/**
+ * Decode a 16-bit word as signed or unsigned integer
+ * e.g., 65535 -> -1 (int16) or 65535 (uint16)
+ * @param value The register value
+ * @param signed Whether the word is two's complement
+ * @returns The integer
+ */
+export const decodeInt16 = (value: number, signed: boolean): number => {
+  const word = toUint16(value);
+  return signed && word > 0x7FFF ? word - 0x10000 : word;
+};
+
+/**
+ * Decode two 16-bit words as a 32-bit integer or IEEE 754 float
+ * e.g., [0x4148, 0x0000] as float32 with big word order -> 12.5
+ * @param first The word received first
+ * @param second The word received second
+ * @param dataType int32, uint32 or float32
+ * @param wordOrder Whether the high word comes first (big) or last (little)
+ * @returns The decoded number
+ */
+export const decode32BitWords = (
+  first: number, 
+  second: number, 
+  dataType: RegisterDataType, 
+  wordOrder: WordOrder = 'big'
+): number => {
+  const [high, low] = wordOrder === 'little' ? [second, first] : [first, second];
+
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt16BE(toUint16(high), 0);
+  buffer.writeUInt16BE(toUint16(low), 2);
+
+  switch (dataType) {
+    case 'float32':
+      return buffer.readFloatBE(0);
+    case 'int32':
+      return buffer.readInt32BE(0);
+    default:
+      return buffer.readUInt32BE(0);
+  }
+};
+
+/**
+ * Split a 32-bit integer or IEEE 754 float into the two 16-bit words it is sent as
+ * e.g., 12.5 as float32 with big word order -> [0x4148, 0x0000]
+ * @param value The number, before scaling
+ * @param dataType int32, uint32 or float32
+ * @param wordOrder Whether the high word comes first (big) or last (little)
+ * @returns The words in the order they are received
+ */
+export const encode32BitWords = (
+  value: number, 
+  dataType: RegisterDataType, 
+  wordOrder: WordOrder = 'big'
+): [number, number] => {
+  const buffer = Buffer.alloc(4);
+  if (dataType === 'float32') {
+    buffer.writeFloatBE(value, 0);
+  } else {
+    buffer.writeUInt32BE(Math.trunc(value) >>> 0, 0);
+  }
+
+  const [high, low] = [buffer.readUInt16BE(0), buffer.readUInt16BE(2)];
+  return wordOrder === 'little' ? [low, high] : [high, low];
+};
+
+/**
+ * Convert a register value to a bitstring of the given width
+ * Negative values use two's complement, unsigned values up to the full width are kept as is
+ * (e.g., 200 -> 11001000 for 8 bits); values outside both ranges are clamped
+ * @param value The number to convert
+ * @param bitLength Number of bits (up to 32)
+ * @returns The binary representation as a string
+ */
+export const convertToBinary = (value: number, bitLength: number): string => {
+  const min = -(2 ** (bitLength - 1));
+  const max = 2 ** bitLength - 1;
+  const clampedValue = Math.max(min, Math.min(max, Math.trunc(value)));
   
-  return binary;
+  const mask = bitLength >= 32 ? 0xFFFFFFFF : (2 ** bitLength) - 1;
+  return ((clampedValue & mask) >>> 0).toString(2).padStart(bitLength, '0');
+};
+
+/**
+ * Decode named boolean signals from the bits of a digital register value
+ * e.g., 0b00000101 with bit 0 = irrigationPump, bit 1 = fan2 -> { irrigationPump: true, fan2: false }
+ * @param value The raw register value
+ * @param bits The bit layout
+ * @returns Signal states keyed by signal name
+ */
+export const decodeBitSignals = (value: number, bits: BitDefinition[]): { [signal: string]: boolean } => {
+  const signals: { [signal: string]: boolean } = {};
+
+  for (const bit of bits) {
+    const isSet = ((value >>> bit.bit) & 1) === 1;
+    signals[bit.name] = bit.activeLow ? !isSet : isSet;
+  }
+  return signals;
+};
+
+/**
+ * Find the register definition of a payload field
+ * Exact names take precedence over patterns
+ * @param registers The register map
+ * @param fieldName The payload field
+ * @returns The register definition, or undefined if the field is not mapped
+ */
+export const findRegister = (registers: RegisterDefinition[], fieldName: string): RegisterDefinition | undefined => {
+  return registers.find(register => register.name === fieldName) ||
+    registers.find(register => {
+      if (!register.pattern) return false;
+      let pattern = patternCache.get(register.pattern);
+      if (!pattern) {
+        pattern = new RegExp(register.pattern);
+        patternCache.set(register.pattern, pattern);
+      }
+      return pattern.test(fieldName);
+    });
+};
+
+/**
+ * Decode a single-word register value according to its definition
+ * @param value The raw value
+ * @param register The register definition
+ * @returns The decoded value
+ */
+export const decodeRegisterValue = (value: any, register: RegisterDefinition): any => {
+  if (typeof value !== 'number') {
+    return value;
+  }
+
+  switch (register.dataType) {
+    case 'decimal':
+      return convertScaledValue(value, register.scale ?? 1, register.decimals ?? 1, register.offset ?? 0);
+    case 'binary':
+      return convertToBinary(value, register.bitLength ?? 8);
+    case 'int16':
+    case 'uint16':
+      return applyScaling(decodeInt16(value, register.dataType === 'int16'), register.scale, register.offset, register.decimals);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Decode all values of a register field
+ * 32-bit types consume two consecutive words per value, a trailing incomplete pair decodes to null
+ * @param values The raw values
+ * @param register The register definition
+ * @returns The decoded values
+ */
+export const decodeRegisterValues = (values: any[], register: RegisterDefinition): any[] => {
+  if (getWordCount(register.dataType) === 1) {
+    return values.map(value => decodeRegisterValue(value, register));
+  }
+
+  const decoded: any[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    const [first, second] = [values[i], values[i + 1]];
+    if (typeof first !== 'number' || typeof second !== 'number') {
+      decoded.push(null);
+      continue;
+    }
+
+    const value = decode32BitWords(first, second, register.dataType, register.wordOrder);
+    decoded.push(applyScaling(value, register.scale, register.offset, register.decimals));
+  }
+  return decoded;
 };
 
 /**
@@ -82,9 +295,10 @@ export const detectZoneType = (topic: string, data: ZoneData | null | undefined)
 /**
  * Process and convert zone data according to specified rules
  * @param data The raw zone data object
+ * @param registers Register map to decode with, the built-in map by default
  * @returns Processed zone data with conversions applied
  */
-export const convertZoneData = (data: ZoneData): ProcessedZoneData => {
+export const convertZoneData = (data: ZoneData, registers: RegisterDefinition[] = DEFAULT_REGISTER_MAP): ProcessedZoneData => {
   if (!data || !data.d) {
     // If data is somehow invalid, return a minimal valid structure
     return { d: {}, ts: data?.ts || new Date().toISOString() };
@@ -95,29 +309,29 @@ export const convertZoneData = (data: ZoneData): ProcessedZoneData => {
   
   // Process "d" object if it exists
   if (result.d) {
-    // Process each field based on its type
+    // Process each field based on its register definition
     for (const fieldName of Object.keys(result.d)) {
       if (!Array.isArray(result.d[fieldName])) {
         continue; // Skip non-array fields
       }
       
-      // Check if field needs decimal conversion
-      const needsDecimalConversion = ZONE_CONFIG.decimalFields.some(pattern => 
-        pattern.test(fieldName)
-      );
-      
-      // Check if field needs binary conversion
-      const needsBinaryConversion = ZONE_CONFIG.binaryFields.some(pattern => 
-        pattern.test(fieldName)
-      );
+      const register = findRegister(registers, fieldName);
       
-      // Apply appropriate conversion
-      if (needsDecimalConversion) {
-        result.d[fieldName] = (result.d[fieldName] as number[]).map(convertDecimalPlace);
-      } else if (needsBinaryConversion) {
-        result.d[fieldName] = (result.d[fieldName] as number[]).map(convertTo8BitSignedBinary);
+      // Fields not matching any register are kept as is
+      if (!register) {
+        continue;
+      }
+
+      const rawValues = result.d[fieldName] as any[];
+      result.d[fieldName] = decodeRegisterValues(rawValues, register);
+
+      // Named bits are decoded next to the raw bitstring
+      if (register.dataType === 'binary' && register.bits?.length) {
+        result.signals = result.signals || {};
+        result.signals[fieldName] = rawValues.map(value => 
+          typeof value === 'number' ? decodeBitSignals(value, register.bits!) : {}
+        );
       }
-      // Fields not matching any pattern are kept as is
     }
   }
   
@@ -125,18 +339,54 @@ export const convertZoneData = (data: ZoneData): ProcessedZoneData => {
   return result;
 };
 
+/**
+ * Collect label and unit of every payload field mapped by a register
+ * @param data The raw zone data object
+ * @param registers The register map
+ * @returns Field metadata keyed by field name
+ */
+export const describeZoneFields = (data: ZoneData, registers: RegisterDefinition[]): { [key: string]: RegisterMeta } => {
+  const fields: { [key: string]: RegisterMeta } = {};
+
+  for (const fieldName of Object.keys(data?.d || {})) {
+    const register = findRegister(registers, fieldName);
+    if (register && (register.label || register.unit)) {
+      fields[fieldName] = { label: register.label, unit: register.unit };
+    }
+  }
+  return fields;
+};
+
 /**
  * Process data for websocket broadcasting
- * Detects zone type and applies appropriate conversions
+ * Decodes with the device model registers when given, otherwise
+ * detects zone type and applies the built-in conversions
  * @param topic The MQTT topic
  * @param data The data to process
+ * @param registers Register map of the device model, if the device has one
  * @returns Processed data ready for websocket
  */
-export const processDataForWebsocket = (topic: string, data: ZoneData | Record<string, any>): ProcessedZoneData | Record<string, any> => {
+export const processDataForWebsocket = (
+  topic: string, 
+  data: ZoneData | Record<string, any>, 
+  registers?: RegisterDefinition[] | null
+): ProcessedZoneData | Record<string, any> => {
+  if (!('d' in data) || !('ts' in data)) {
+    // For other data types, return as is
+    return data;
+  }
+
+  if (registers) {
+    return {
+      ...convertZoneData(data as ZoneData, registers),
+      fields: describeZoneFields(data as ZoneData, registers)
+    };
+  }
+
   // Check if this belongs to any of our known zones
   const zoneType = detectZoneType(topic, data as ZoneData);
   
-  if (zoneType > 0 && 'd' in data && 'ts' in data) {
+  if (zoneType > 0) {
     // Apply conversions for zone data
     return convertZoneData(data as ZoneData);
   }
@@ -144,3 +394,39 @@ export const processDataForWebsocket = (topic: string, data: ZoneData | Record<s
   // For other data types, return as is
   return data;
 };
+
+/**
+ * Read one numeric value from a payload
+ * Converted values formatted as strings (e.g. "12.3") are parsed back to numbers
+ * @param data Raw or processed payload, with its fields under "d" for zone data
+ * @param field Field name
+ * @param channel Index of the value within the field
+ * @returns The value, or null if missing or not numeric
+ */
+export const readFieldValue = (data: Record<string, any> | null | undefined, field: string, channel: number = 0): number | null => {
+  const fields: Record<string, any> | undefined = data?.d && typeof data.d === 'object' ? data.d : data ?? undefined;
+  const fieldValue: any = fields?.[field];
+  const value: any = Array.isArray(fieldValue) ? fieldValue[channel] : channel === 0 ? fieldValue : undefined;
+
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+/**
+ * Compare a value with a threshold
+ * @param comparator How to compare, e.g. "lt" for value < threshold
+ * @param value The value
+ * @param threshold The threshold
+ * @returns True if the comparison holds
+ */
+export const compareValue = (comparator: AlertComparator, value: number, threshold: number): boolean => {
+  switch (comparator) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'eq': return value === threshold;
+    case 'neq': return value !== threshold;
+  }
+};
@@ -0,0 +1,203 @@
+import { ImportRow, ParsedImport } from '../interface/import.interface';
+
+/**
+ * Column of a CSV import, e.g. "d200" (channel 0) or "d200[3]"
+ */
+const FIELD_COLUMN_PATTERN = /^([^\[\]]+?)(?:\[(\d+)\])?$/;
+
+/**
+ * Field names that would reach the prototype of an object they are used as keys of
+ */
+const RESERVED_FIELD_NAMES: string[] = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Split a CSV line into cells, honouring double-quoted cells
+ * @param line The line
+ * @returns The cells
+ */
+export const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell: string = '';
+  let quoted: boolean = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char: string = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells.map(value => value.trim());
+};
+
+/**
+ * Parse a timestamp as an ISO date or epoch milliseconds
+ * @param value The timestamp
+ * @returns The date, or null if invalid
+ */
+export const parseImportTimestamp = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  const date: Date = typeof value === 'number' || /^\d+$/.test(String(value))
+    ? new Date(Number(value))
+    : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse a CSV import with a timestamp (or ts) column and one column per field value
+ * @param content File content
+ * @param maxChannels Highest number of channels of a field, a header with a larger channel index rejects the file
+ * @returns Rows and the lines that could not be read
+ */
+export const parseImportCsv = (content: string, maxChannels: number): ParsedImport => {
+  const parsed: ParsedImport = { rows: [], errors: [] };
+  const lines: string[] = content.split(/\r?\n/);
+  const header: string[] = parseCsvLine(lines[0]?.replace(/^\uFEFF/, '') || '');
+
+  const timestampIndex: number = header.findIndex(column => ['timestamp', 'ts'].includes(column.toLowerCase()));
+  if (timestampIndex < 0) {
+    parsed.errors.push({ line: 1, error: 'Missing timestamp column' });
+    return parsed;
+  }
+
+  const columns: ({ field: string, channel: number } | null)[] = header.map((column: string, index: number) => {
+    if (index === timestampIndex) return null;
+    const match: RegExpMatchArray | null = column.match(FIELD_COLUMN_PATTERN);
+    return match ? { field: match[1], channel: parseInt(match[2] || '0', 10) } : null;
+  });
+
+  const reservedIndex: number = columns.findIndex(column => column !== null && RESERVED_FIELD_NAMES.includes(column.field));
+  if (reservedIndex >= 0) {
+    parsed.errors.push({ line: 1, error: `Invalid column ${header[reservedIndex]}` });
+    return parsed;
+  }
+
+  // Channels are array indexes, a huge one would allocate an array of that length for every row
+  const invalidIndex: number = columns.findIndex(column => column !== null && column.channel >= maxChannels);
+  if (invalidIndex >= 0) {
+    parsed.errors.push({ line: 1, error: `Invalid column ${header[invalidIndex]}: fields have at most ${maxChannels} channels` });
+    return parsed;
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    const cells: string[] = parseCsvLine(lines[i]);
+    const timestamp: Date | null = parseImportTimestamp(cells[timestampIndex]);
+    if (!timestamp) {
+      parsed.errors.push({ line: i + 1, error: `Invalid timestamp ${cells[timestampIndex] ?? ''}` });
+      continue;
+    }
+
+    // Without a prototype, field names are only ever own keys
+    const row: ImportRow = { line: i + 1, timestamp, fields: Object.create(null) };
+    let error: string | null = null;
+
+    columns.forEach((column, index: number) => {
+      const cell: string | undefined = cells[index];
+      if (!column || cell === undefined || cell === '') return;
+
+      const value: number = Number(cell);
+      if (!Number.isFinite(value)) {
+        error = error || `Invalid value ${cell} for ${header[index]}`;
+        return;
+      }
+      (row.fields[column.field] = row.fields[column.field] || [])[column.channel] = value;
+    });
+
+    if (error) {
+      parsed.errors.push({ line: i + 1, error });
+      continue;
+    }
+    parsed.rows.push(fillChannels(row));
+  }
+
+  return parsed;
+};
+
+/**
+ * Parse an NDJSON import, one payload per line as published over MQTT, e.g. { "d": { "d200": [...] }, "ts": "..." }
+ * The timestamp is read from ts or timestamp
+ * @param content File content
+ * @param maxChannels Highest number of channels of a field, lines with more are rejected
+ * @returns Rows and the lines that could not be read
+ */
+export const parseImportNdjson = (content: string, maxChannels: number): ParsedImport => {
+  const parsed: ParsedImport = { rows: [], errors: [] };
+  const lines: string[] = content.split(/\r?\n/);
+
+  lines.forEach((line: string, index: number) => {
+    if (!line.trim()) return;
+
+    let payload: any;
+    try {
+      payload = JSON.parse(line);
+    } catch (error) {
+      parsed.errors.push({ line: index + 1, error: 'Invalid JSON' });
+      return;
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      parsed.errors.push({ line: index + 1, error: 'Line is not a JSON object' });
+      return;
+    }
+
+    const timestamp: Date | null = parseImportTimestamp(payload.ts ?? payload.timestamp);
+    if (!timestamp) {
+      parsed.errors.push({ line: index + 1, error: 'Missing or invalid timestamp' });
+      return;
+    }
+
+    const source: Record<string, any> = payload.d && typeof payload.d === 'object' ? payload.d : payload;
+    const row: ImportRow = { line: index + 1, timestamp, fields: Object.create(null) };
+
+    for (const [field, value] of Object.entries(source)) {
+      if (source === payload && (field === 'ts' || field === 'timestamp')) continue;
+      if (RESERVED_FIELD_NAMES.includes(field)) {
+        parsed.errors.push({ line: index + 1, error: `Invalid field ${field}` });
+        return;
+      }
+
+      const values: any[] = Array.isArray(value) ? value : [value];
+      if (values.length > maxChannels) {
+        parsed.errors.push({ line: index + 1, error: `Invalid value for ${field}: fields have at most ${maxChannels} channels` });
+        return;
+      }
+      if (values.some(item => item !== null && !(typeof item === 'number' && Number.isFinite(item)))) {
+        parsed.errors.push({ line: index + 1, error: `Invalid value for ${field}` });
+        return;
+      }
+      row.fields[field] = values;
+    }
+
+    parsed.rows.push(row);
+  });
+
+  return parsed;
+};
+
+/**
+ * Replaces channels missing from a row with null
+ */
+const fillChannels = (row: ImportRow): ImportRow => {
+  for (const field of Object.keys(row.fields)) {
+    row.fields[field] = Array.from(row.fields[field], value => value ?? null);
+  }
+  return row;
+};
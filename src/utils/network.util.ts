@@ -0,0 +1,69 @@
+/**
+ * Utility functions for checking outbound request targets
+ */
+import { BlockList, isIP } from 'net';
+
+// Loopback addresses, only reachable from the server itself
+const LOOPBACK_ADDRESSES: BlockList = new BlockList();
+LOOPBACK_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+LOOPBACK_ADDRESSES.addAddress('::1', 'ipv6');
+
+// Private, link-local (including cloud metadata at 169.254.169.254), shared, reserved and multicast ranges
+const INTERNAL_ADDRESSES: BlockList = new BlockList();
+INTERNAL_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+INTERNAL_ADDRESSES.addAddress('::', 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Strip the brackets of an IPv6 host as found in URLs
+ * e.g., [::1] -> ::1
+ * @param host Host name or address
+ * @returns The host without brackets, lower case
+ */
+export const normalizeHost = (host: string): string => {
+  return host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+};
+
+/**
+ * Check whether an IP address is a loopback address
+ * IPv4-mapped IPv6 addresses (e.g. ::ffff:127.0.0.1) count as their IPv4 address
+ * @param address IPv4 or IPv6 address
+ * @returns True for loopback addresses, false for other addresses and host names
+ */
+export const isLoopbackAddress = (address: string): boolean => {
+  const family: number = isIP(address);
+  return family !== 0 && LOOPBACK_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check whether an IP address belongs to a private, link-local, reserved or multicast range
+ * Loopback addresses are not included, see isLoopbackAddress
+ * @param address IPv4 or IPv6 address
+ * @returns True for internal addresses, false for public addresses and host names
+ */
+export const isInternalAddress = (address: string): boolean => {
+  const family: number = isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check whether a host is one of the listed hosts or a subdomain of one
+ * e.g., hooks.example.com matches example.com
+ * @param host Host name or address
+ * @param hosts Listed hosts
+ * @returns True if the host is listed
+ */
+export const matchesHost = (host: string, hosts: string[]): boolean => {
+  const name: string = normalizeHost(host);
+  return hosts.some((listed: string) => name === listed || name.endsWith(`.${listed}`));
+};
@@ -0,0 +1,71 @@
+/**
+ * Utility functions for quiet hours of notification preferences
+ */
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse a local time of day
+ * e.g., "22:30" -> 1350
+ * @param value Time as "HH:mm"
+ * @returns Minutes since midnight, or null if not a valid time
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+/**
+ * Check whether a time zone is known to the runtime
+ * @param timeZone IANA time zone, e.g. Europe/Amsterdam
+ * @returns True if the time zone can be used
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Minutes since local midnight of a moment in a time zone
+ * @param date The moment
+ * @param timeZone IANA time zone
+ * @returns Minutes since midnight
+ */
+export const getLocalMinutes = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0', 10);
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value || '0', 10);
+  return hour * 60 + minute;
+};
+
+/**
+ * End of the quiet hours a moment falls in
+ * Windows may wrap around midnight (e.g. 22:00-07:00); a DST change inside the window
+ * shifts the end by the clock change
+ * @param date The moment
+ * @param start Start of the window as "HH:mm"
+ * @param end End of the window as "HH:mm", exclusive
+ * @param timeZone IANA time zone of the window
+ * @returns When the quiet hours end, or null if the moment is outside them
+ */
+export const getQuietHoursEnd = (date: Date, start: string, end: string, timeZone: string): Date | null => {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return null;
+
+  const now = getLocalMinutes(date, timeZone);
+  const inWindow = startMinutes < endMinutes
+    ? now >= startMinutes && now < endMinutes
+    : now >= startMinutes || now < endMinutes;
+  if (!inWindow) return null;
+
+  const minutesLeft = (endMinutes - now + 1440) % 1440;
+  const endsAt = new Date(date.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+};
@@ -0,0 +1,61 @@
+import { CronExpressionParser } from 'cron-parser';
+import { ProgramSchedule } from '../interface/schedule.interface';
+
+/**
+ * Utility functions for run times of scheduled programs
+ */
+
+/**
+ * Check whether a cron expression can be parsed and ever runs
+ * Five fields (minute precision) or six (leading seconds field) are accepted
+ * Expressions naming no existing date, e.g. "0 0 31 4,6 *", parse but have no next run
+ * @param expression Cron expression, e.g. "0 6 * * 1-5"
+ * @returns True if the expression is valid
+ */
+export const isValidCronExpression = (expression: string): boolean => {
+  try {
+    CronExpressionParser.parse(expression).next();
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Calendar date of a moment in a time zone
+ * @param date The moment
+ * @param timeZone IANA time zone
+ * @returns Date as "YYYY-MM-DD"
+ */
+export const getLocalDate = (date: Date, timeZone: string): string => {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+};
+
+/**
+ * First run time of a schedule strictly after a moment
+ * @param schedule The schedule
+ * @param after The moment
+ * @returns The next run time, or null if the schedule has ended
+ */
+export const getNextRunTime = (schedule: ProgramSchedule, after: Date): Date | null => {
+  let next: Date | null = null;
+
+  if (schedule.scheduleType === 'cron' && schedule.cronExpression) {
+    // Runs at startAt itself count, so look from just before it
+    const from: Date = schedule.startAt && schedule.startAt > after
+      ? new Date(schedule.startAt.getTime() - 1)
+      : after;
+    next = CronExpressionParser.parse(schedule.cronExpression, { currentDate: from, tz: schedule.timeZone })
+      .next()
+      .toDate();
+  } else if (schedule.scheduleType === 'interval' && schedule.intervalSeconds) {
+    const anchor: Date = schedule.startAt ?? schedule.createdAt ?? after;
+    const step: number = schedule.intervalSeconds * 1000;
+    next = after < anchor
+      ? anchor
+      : new Date(anchor.getTime() + (Math.floor((after.getTime() - anchor.getTime()) / step) + 1) * step);
+  }
+
+  if (!next || (schedule.endAt && next > schedule.endAt)) return null;
+  return next;
+};
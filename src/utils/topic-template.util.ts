@@ -0,0 +1,165 @@
+/**
+ * Utility functions for building and parsing MQTT topics from templates
+ */
+import { TopicIdentifiers } from '../interface/mqtt.interface';
+
+const PLACEHOLDER_PATTERN: RegExp = /\{(deviceNumber|zoneName)\}/g;
+
+/**
+ * Replace characters that are not allowed inside a topic level
+ * @param value The raw value
+ * @returns Value safe to use as (part of) a topic level
+ */
+export const sanitizeTopicSegment = (value: string): string => {
+  // Only wildcards are replaced, existing topic names must not change; "/" is rejected when devices and zones are saved
+  return value.replace(/[#+]/g, '_');
+};
+
+/**
+ * Build a topic by filling the template placeholders
+ * e.g. farm/{deviceNumber}/{zoneName}/telemetry -> farm/00009/zone1/telemetry
+ * @param template The topic template
+ * @param identifiers Values for the placeholders
+ * @returns The topic
+ */
+export const buildTopicFromTemplate = (template: string, identifiers: Partial<TopicIdentifiers>): string => {
+  return template.replace(PLACEHOLDER_PATTERN, (_match: string, key: keyof TopicIdentifiers) => 
+    sanitizeTopicSegment(identifiers[key] ?? '')
+  );
+};
+
+/**
+ * Reject templates that would map different device-zone pairs onto the same topic
+ * @param name Name of the setting, used in the error message
+ * @param template The topic template
+ * @param required Placeholders the template must contain
+ * @throws Error if a required placeholder is missing or an unknown placeholder or wildcard is used
+ */
+export const assertValidTemplate = (name: string, template: string, required: (keyof TopicIdentifiers)[]): void => {
+  const unknown: string[] = (template.match(/\{[^}]*\}/g) ?? [])
+    .filter((placeholder: string) => !/^\{(deviceNumber|zoneName)\}$/.test(placeholder));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid topic template ${name}: unknown placeholder ${unknown[0]}`);
+  }
+
+  if (/[#+]/.test(template)) {
+    throw new Error(`Invalid topic template ${name}: wildcards are not allowed`);
+  }
+
+  const missing: (keyof TopicIdentifiers)[] = required.filter((key: keyof TopicIdentifiers) => !template.includes(`{${key}}`));
+  if (missing.length > 0) {
+    throw new Error(`Invalid topic template ${name}: missing {${missing.join('} and {')}}`);
+  }
+};
+
+/**
+ * Check whether a topic built from the template can be split back into its values
+ * Adjacent placeholders ({deviceNumber}{zoneName}) are ambiguous and cannot be parsed
+ * @param template The topic template
+ * @returns True if the template is reversible
+ */
+export const isTemplateReversible = (template: string): boolean => {
+  return !/\}\{/.test(template) && (template.match(PLACEHOLDER_PATTERN)?.length ?? 0) > 0;
+};
+
+/**
+ * Check whether every placeholder occupies a whole topic level
+ * Only such templates can be turned into an MQTT wildcard filter
+ * @param template The topic template
+ * @returns True if the template can be subscribed with wildcards
+ */
+export const isTemplateWildcardable = (template: string): boolean => {
+  const levels: string[] = template.split('/');
+  const placeholderLevels: string[] = levels.filter((level: string) => level.includes('{'));
+
+  return placeholderLevels.length > 0 &&
+    placeholderLevels.every((level: string) => /^\{(deviceNumber|zoneName)\}$/.test(level));
+};
+
+/**
+ * Turn a template into an MQTT subscription filter by replacing placeholders with +
+ * e.g. farm/{deviceNumber}/{zoneName}/telemetry -> farm/+/+/telemetry
+ * @param template The topic template
+ * @returns The wildcard filter, or null if the template is not wildcardable
+ */
+export const toWildcardFilter = (template: string): string | null => {
+  if (!isTemplateWildcardable(template)) {
+    return null;
+  }
+  return template.replace(PLACEHOLDER_PATTERN, '+');
+};
+
+/**
+ * Turn any template into a subscription filter by replacing every level holding a placeholder with +
+ * Broader than toWildcardFilter for templates like {deviceNumber}{zoneName}/response (-> +/response),
+ * so handlers must still verify which device-zone pair a message belongs to
+ * @param template The topic template
+ * @returns The subscription filter
+ */
+export const toSubscriptionFilter = (template: string): string => {
+  return template
+    .split('/')
+    .map((level: string) => level.includes('{') ? '+' : level)
+    .join('/');
+};
+
+/**
+ * Parse a topic back into the values of the template placeholders
+ * @param template The topic template
+ * @param topic The received topic
+ * @returns The identifiers, or null if the topic does not match or the template is ambiguous
+ */
+export const parseTopicWithTemplate = (template: string, topic: string): Partial<TopicIdentifiers> | null => {
+  if (!isTemplateReversible(template)) {
+    return null;
+  }
+
+  const keys: (keyof TopicIdentifiers)[] = [];
+  const pattern: string = template
+    .split(PLACEHOLDER_PATTERN)
+    .map((part: string, index: number) => {
+      // split() with a capture group puts placeholder names at odd indexes
+      if (index % 2 === 1) {
+        keys.push(part as keyof TopicIdentifiers);
+        return '([^/]+?)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match: RegExpMatchArray | null = topic.match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return null;
+  }
+
+  const identifiers: Partial<TopicIdentifiers> = {};
+  keys.forEach((key: keyof TopicIdentifiers, index: number) => {
+    identifiers[key] = match[index + 1];
+  });
+  return identifiers;
+};
+
+/**
+ * Check whether a topic matches an MQTT subscription filter with + and # wildcards
+ * @param filter The subscription filter
+ * @param topic The topic
+ * @returns True if the topic matches the filter
+ */
+export const matchesTopicFilter = (filter: string, topic: string): boolean => {
+  const filterLevels: string[] = filter.split('/');
+  const topicLevels: string[] = topic.split('/');
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') {
+      return true;
+    }
+    if (i >= topicLevels.length) {
+      return false;
+    }
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) {
+      return false;
+    }
+  }
+
+  return filterLevels.length === topicLevels.length;
+};